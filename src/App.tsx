@@ -4,6 +4,10 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Resource from "./pages/Resource";
+import Subscriptions from "./pages/Subscriptions";
+import Pay from "./pages/Pay";
+import PaymentLinks from "./pages/PaymentLinks";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +20,10 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/resource/:id" element={<Resource />} />
+          <Route path="/subscriptions" element={<Subscriptions />} />
+          <Route path="/pay" element={<Pay />} />
+          <Route path="/pay/new" element={<PaymentLinks />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
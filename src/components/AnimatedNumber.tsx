@@ -2,10 +2,12 @@ import { useState, useEffect } from "react";
 
 interface AnimatedNumberProps {
   value: number;
+  // Decimal places to show
+  precision?: number;
   className?: string;
 }
 
-export function AnimatedNumber({ value, className = "" }: AnimatedNumberProps) {
+export function AnimatedNumber({ value, precision = 2, className = "" }: AnimatedNumberProps) {
   const [displayValue, setDisplayValue] = useState(value);
   const [isAnimating, setIsAnimating] = useState(false);
 
@@ -42,7 +44,7 @@ export function AnimatedNumber({ value, className = "" }: AnimatedNumberProps) {
   }, [value, displayValue]);
 
   const formatNumber = (num: number) => {
-    return num.toFixed(2);
+    return num.toFixed(precision);
   };
 
   return (
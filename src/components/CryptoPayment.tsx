@@ -1,159 +1,308 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { WalletModal } from "./WalletModal";
 import { AnimatedNumber } from "./AnimatedNumber";
-import { ExternalLink, Plus, Minus } from "lucide-react";
+import { ExternalLink, Plus, Minus, CheckCircle2, QrCode, XCircle, Zap } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
 import { useToast } from "@/hooks/use-toast";
+import { useCountdown } from "@/hooks/use-countdown";
+import { useAuthSession } from "@/hooks/use-auth-session";
+import { useCheckoutWallet } from "@/hooks/use-checkout-wallet";
+import { useFeePreview } from "@/hooks/use-fee-preview";
+import { usePaymentWatch } from "@/hooks/use-payment-watch";
+import { usePendingPayment } from "@/hooks/use-pending-payment";
+import {
+  authorizePayment,
+  createPaymentIntent,
+  getPaymentConfig,
+  getPaymentIntent,
+  isIntentExpired,
+  PaymentApiError,
+  relayTransferAuthorization,
+  submitPaymentIntent,
+  type PaymentAuthorization,
+  type PaymentIntent,
+  type PaymentIntentStatus,
+  type PaymentTarget
+} from "@/lib/payments";
+import { clearAccessToken, getAccessToken, saveAccessToken } from "@/lib/entitlements";
+import {
+  DEFAULT_PRODUCT_ID,
+  formatProductAmount,
+  getProduct,
+  isFiatPriced,
+  productLimits,
+  productPrecision,
+  productTokens
+} from "@/lib/products";
+import { requestResource, type PaymentRequirement, type PremiumContent } from "@/lib/paywall";
+import { createLinkIntent, isPaymentLinkExpired, type PaymentLink } from "@/lib/links";
+import { savePendingPayment } from "@/lib/pending-payments";
+import { buildReplacement, type ReplacementKind } from "@/lib/replacement";
+import { provePayer } from "@/lib/payers";
+import { estimateFee, formatNativeAmount, type FeeEstimate } from "@/lib/gas";
+import { buildTransfer, getTokenContract, readBalance } from "@/lib/erc20";
+import { buildTransferAuthorization, signTransferAuthorization } from "@/lib/eip3009";
+import { buildPermit, signPermit } from "@/lib/eip2612";
+import { sessionAddress } from "@/lib/siwe";
+import { USER_REJECTED_REQUEST, WalletConnectConnector } from "@/lib/wallet";
+import {
+  DEFAULT_CHAIN_ID,
+  fiatSign,
+  formatAddress,
+  formatFiatAmount,
+  formatTokenAmount,
+  getChain,
+  getChainTokens,
+  getExplorerTxUrl,
+  getProvider,
+  getToken,
+  TOKENS,
+  type TokenSymbol
+} from "@/lib/chains";
 import { ethers } from "ethers";
 
-interface WalletInfo {
-  address: string;
-  balance: string;
-  network: string;
-}
-
-// Base Sepolia network configuration
-const BASE_SEPOLIA_CHAIN_ID = "0x14a34"; // 84532 in hex
-const BASE_SEPOLIA_CONFIG = {
-  chainId: BASE_SEPOLIA_CHAIN_ID,
-  chainName: "Base Sepolia",
-  nativeCurrency: {
-    name: "ETH",
-    symbol: "ETH",
-    decimals: 18
-  },
-  rpcUrls: ["https://sepolia.base.org"],
-  blockExplorerUrls: ["https://sepolia-explorer.base.org"]
-};
+// "transfer" sends the ERC-20 transfer from the payer's wallet; "gasless"
+// only signs an EIP-3009 authorization that the facilitator submits;
+// "authorize" signs an EIP-2612 permit the merchant captures later.
+type PaymentMethod = "transfer" | "gasless" | "authorize";
 
-// USDC Contract address on Base Sepolia
-const USDC_CONTRACT_ADDRESS = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
-const RECIPIENT_ADDRESS = "0x75bB73a75EeCc43ffeAa3B48733292437C405f25";
+interface CryptoPaymentProps {
+  // 402-protected resource to unlock. Without it the checkout sells `productId`.
+  resourceUrl?: string;
+  // Catalog product whose price, amounts and copy the checkout shows; the
+  // pay-what-you-want default when omitted. A resource's price comes from its
+  // 402 answer, so only the copy is used then.
+  productId?: string;
+  // Called with the resource's content once it is unlocked, whether just paid
+  // for or already owned
+  onUnlock?: (content: PremiumContent) => void;
+  // Payment link whose amount and token the checkout charges instead of a
+  // product's
+  link?: PaymentLink;
+}
 
-// USDC has 6 decimals
-const USDC_DECIMALS = 6;
+// A quote closer than this to expiry is re-quoted before paying, so the
+// transfer or authorization has time to land
+const QUOTE_MIN_REMAINING_MS = 60 * 1000;
 
-// ERC-20 ABI for transfer function
-const ERC20_ABI = [
-  "function transfer(address to, uint256 amount) public returns (bool)",
-  "function balanceOf(address account) public view returns (uint256)",
-  "function decimals() public view returns (uint8)"
-];
+const INTENT_STATUS_LABELS: Record<PaymentIntentStatus, string> = {
+  created: "Awaiting payment",
+  submitted: "Submitted",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  expired: "Expired"
+};
 
-export function CryptoPayment() {
+export function CryptoPayment({
+  resourceUrl,
+  link,
+  productId = resourceUrl || link ? undefined : DEFAULT_PRODUCT_ID,
+  onUnlock
+}: CryptoPaymentProps) {
   const [isWalletModalOpen, setIsWalletModalOpen] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  const [walletInfo, setWalletInfo] = useState<WalletInfo | null>(null);
+  const session = useAuthSession();
   const [isProcessing, setIsProcessing] = useState(false);
-  const [paymentAmount, setPaymentAmount] = useState(5.00); // Default $5.00
-  const [wrongNetwork, setWrongNetwork] = useState(false);
+  // In the product's currency, or in the token quoted by a resource's 402
+  const [paymentAmount, setPaymentAmount] = useState(0);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("transfer");
+  const [intent, setIntent] = useState<PaymentIntent | null>(null);
+  // One requirement per accepted chain, all backed by the same intent
+  const [requirements, setRequirements] = useState<PaymentRequirement[]>([]);
+  const [selectedChainId, setSelectedChainId] = useState(DEFAULT_CHAIN_ID);
+  const [selectedToken, setSelectedToken] = useState<TokenSymbol>("USDC");
+  const [authorization, setAuthorization] = useState<PaymentAuthorization | null>(null);
+  // Replacement of a stuck transaction being sent
+  const [replacing, setReplacing] = useState<ReplacementKind | null>(null);
   const { toast } = useToast();
+  const { data: paymentConfig } = useQuery({ queryKey: ["payment-config"], queryFn: getPaymentConfig });
+  const { data: product } = useQuery({
+    queryKey: ["product", productId],
+    queryFn: () => getProduct(productId),
+    enabled: Boolean(productId),
+  });
+  // Product sold by a checkout without a resource
+  const sale = resourceUrl ? null : product;
+  // Where a payment sent from this checkout is picked up again after a reload
+  const checkout = resourceUrl ?? `${window.location.pathname}${window.location.search}`;
+  const quoteRemainingMs = useCountdown(intent?.status === "created" ? intent.expires_at : null);
+  // Whether the checkout knows which chains and tokens to show, and what it sells
+  const checkoutReady = resourceUrl ? requirements.length > 0 : Boolean(paymentConfig && (sale || link));
 
-  // Check network and switch if needed
-  const checkAndSwitchNetwork = async () => {
-    if (!window.ethereum) return false;
-    
-    try {
-      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-      
-      if (chainId !== BASE_SEPOLIA_CHAIN_ID) {
-        setWrongNetwork(true);
-        
-        try {
-          // Try to switch to Base Sepolia
-          await window.ethereum.request({
-            method: 'wallet_switchEthereumChain',
-            params: [{ chainId: BASE_SEPOLIA_CHAIN_ID }],
-          });
-        } catch (switchError: any) {
-          // If network doesn't exist, add it
-          if (switchError.code === 4902) {
-            await window.ethereum.request({
-              method: 'wallet_addEthereumChain',
-              params: [BASE_SEPOLIA_CONFIG],
-            });
-          } else {
-            throw switchError;
-          }
-        }
-        setWrongNetwork(false);
-      }
-      return true;
-    } catch (error) {
-      console.error('Network switch error:', error);
+  const {
+    confirmations,
+    verifiedPayment,
+    premiumContent,
+    setPremiumContent,
+    settlePayment,
+    retryVerification
+  } = usePendingPayment({ resourceUrl, checkout, ready: checkoutReady, setIntent, setIsProcessing, onUnlock });
+
+  // Ask the protected resource what it costs; the 402 answer quotes a fresh intent
+  const loadRequirement = useCallback(async () => {
+    // Paid before: the stored access token skips the 402
+    const access = getAccessToken(resourceUrl);
+    const response = await requestResource(resourceUrl, undefined, access?.token);
+    if (response.paid) {
+      if (response.access) saveAccessToken(resourceUrl, response.access);
+      setPremiumContent(response.content);
+      return null;
+    }
+    if (access) clearAccessToken(resourceUrl);
+
+    const [accepted] = response.accepts;
+    if (!accepted) {
+      throw new Error("Resource did not return a payment requirement");
+    }
+
+    setRequirements(response.accepts);
+
+    const quotedIntent = await getPaymentIntent(accepted.nonce);
+    setIntent(quotedIntent);
+    return { intent: quotedIntent, accepts: response.accepts };
+  }, [resourceUrl, setPremiumContent]);
+
+  useEffect(() => {
+    if (!resourceUrl) return;
+
+    loadRequirement().catch((error) => {
+      console.error('Error loading payment requirement:', error);
       toast({
-        title: "Network Switch Failed",
-        description: "Please manually switch to Base Sepolia network.",
+        title: "Payment unavailable",
+        description: "Unable to load payment details for this resource.",
         variant: "destructive"
       });
-      return false;
+    });
+  }, [resourceUrl, loadRequirement, toast]);
+
+  // Chains the merchant accepts that this checkout knows how to pay on
+  const acceptedChainIds = (
+    resourceUrl
+      ? requirements.map((accepted) => accepted.chainId)
+      : paymentConfig?.acceptedChainIds ?? [DEFAULT_CHAIN_ID]
+  ).filter((chainId) => getChain(chainId));
+  const selectedChain = getChain(selectedChainId);
+  const acceptedChainsKey = acceptedChainIds.join(",");
+
+  // Tokens the payer can choose from on a chain: the ones the 402 answer
+  // lists for it, the payment link's, or every accepted token the chain has
+  // that the product sells in
+  const tokensOnChain = (chainId: number) =>
+    getChainTokens(
+      chainId,
+      resourceUrl
+        ? requirements.filter((accepted) => accepted.chainId === chainId).map((accepted) => accepted.token)
+        : link ? [link.token]
+        : sale ? productTokens(sale, paymentConfig?.acceptedTokens ?? ["USDC"]) : []
+    );
+  const tokenOptions = tokensOnChain(selectedChainId);
+  const token = getToken(selectedChainId, selectedToken);
+  const tokenOptionsKey = tokenOptions.map((option) => option.symbol).join(",");
+  const limits = sale ? productLimits(sale) : { min: 0, max: Infinity };
+
+  const {
+    wallet,
+    walletInfo,
+    isConnected,
+    wrongNetwork,
+    walletChainId,
+    pairingUri,
+    setPairingUri,
+    isSigningIn,
+    connectWallet,
+    disconnectWallet,
+    walletDisconnected,
+    signIn,
+    switchNetwork,
+    refreshWalletInfo
+  } = useCheckoutWallet({ chainId: selectedChainId, acceptedChainIds, tokensOnChain, session, ready: checkoutReady });
+
+  // What an intent charges in the product's currency, to tell whether it
+  // still matches the amount picked
+  const intentSaleAmount = (quoted: PaymentIntent) =>
+    Number(sale && isFiatPriced(sale) ? quoted.price_amount : quoted.amount);
+
+  // Start from the product's price, or its suggested amount
+  useEffect(() => {
+    if (sale) setPaymentAmount(Number(sale.price_amount));
+  }, [sale]);
+
+  // A payment link's amount is what gets paid, in its token
+  useEffect(() => {
+    if (!link) return;
+    setPaymentAmount(Number(link.amount));
+    setSelectedToken(link.token);
+  }, [link]);
+
+  useEffect(() => {
+    const chainIds = acceptedChainsKey.split(",").filter(Boolean).map(Number);
+    if (chainIds.length > 0 && !chainIds.includes(selectedChainId)) {
+      setSelectedChainId(chainIds[0]);
     }
+  }, [acceptedChainsKey, selectedChainId]);
+
+  useEffect(() => {
+    const symbols = tokenOptionsKey.split(",").filter(Boolean) as TokenSymbol[];
+    if (symbols.length > 0 && !symbols.includes(selectedToken)) {
+      setSelectedToken(symbols[0]);
+    }
+  }, [tokenOptionsKey, selectedToken]);
+
+  // Reuses the current quote while it is still open for this amount, or
+  // quotes a new one. Null when a paywall answers that access is already paid.
+  const openQuote = async () => {
+    const quoteUsable =
+      intent &&
+      intent.status === "created" &&
+      !isIntentExpired(intent) &&
+      new Date(intent.expires_at).getTime() - Date.now() > QUOTE_MIN_REMAINING_MS &&
+      (resourceUrl || link || (intentSaleAmount(intent) === paymentAmount && intent.token === selectedToken));
+    if (quoteUsable) return { intent, accepts: requirements };
+
+    if (resourceUrl) return loadRequirement();
+
+    const target = { chainId: selectedChainId, token: selectedToken };
+    const quoted = link
+      ? await createLinkIntent(link, target)
+      : await createPaymentIntent(sale, paymentAmount, target);
+    setIntent(quoted);
+    return { intent: quoted, accepts: requirements };
   };
 
-  const handleWalletSelect = async (walletType: string) => {
-    try {
-      // Check if MetaMask is available
-      if (typeof window.ethereum === 'undefined') {
-        toast({
-          title: "Wallet not found",
-          description: "Please install MetaMask or another Web3 wallet.",
-          variant: "destructive"
-        });
-        return;
-      }
+  const { paymentUri, showPaymentUri, stopWatching } = usePaymentWatch({
+    chainId: selectedChainId,
+    token,
+    checkout,
+    openQuote,
+    settlePayment,
+    setIntent,
+    setIsProcessing
+  });
 
-      // Request account access
-      const accounts = await window.ethereum.request({
-        method: 'eth_requestAccounts',
-      });
+  const handleTokenChange = (symbol: TokenSymbol) => {
+    stopWatching();
+    setSelectedToken(symbol);
+  };
 
-      if (accounts.length > 0) {
-        // Check and switch network
-        const networkOk = await checkAndSwitchNetwork();
-        if (!networkOk) return;
-        
-        // Get USDC balance
-        try {
-          const provider = new ethers.BrowserProvider(window.ethereum);
-          const usdcContract = new ethers.Contract(USDC_CONTRACT_ADDRESS, ERC20_ABI, provider);
-          const balance = await usdcContract.balanceOf(accounts[0]);
-          const balanceFormatted = ethers.formatUnits(balance, USDC_DECIMALS);
-          
-          setWalletInfo({
-            address: accounts[0],
-            balance: `$${parseFloat(balanceFormatted).toFixed(2)} USDC`,
-            network: "Base Sepolia"
-          });
-        } catch (error) {
-          console.error('Error fetching balance:', error);
-          setWalletInfo({
-            address: accounts[0],
-            balance: "Unable to fetch",
-            network: "Base Sepolia"
-          });
-        }
-        
-        setIsConnected(true);
-        
-        toast({
-          title: "Wallet Connected",
-          description: "You can now proceed with payment.",
-        });
-      }
-    } catch (error) {
-      console.error('Error connecting wallet:', error);
-      toast({
-        title: "Connection failed",
-        description: "Unable to connect to wallet. Please try again.",
-        variant: "destructive"
-      });
+  const handleChainChange = async (value: string) => {
+    const chainId = Number(value);
+    stopWatching();
+    setSelectedChainId(chainId);
+    if (!walletInfo) return;
+
+    const networkOk = await switchNetwork(chainId);
+    if (networkOk) {
+      await refreshWalletInfo(walletInfo.address, chainId);
     }
   };
 
   const handlePayment = async () => {
-    if (!walletInfo || !window.ethereum) {
+    if (!walletInfo || !wallet) {
       toast({
         title: "Wallet not connected",
         description: "Please connect your wallet first.",
@@ -162,67 +311,166 @@ export function CryptoPayment() {
       return;
     }
 
+    stopWatching();
     setIsProcessing(true);
     
     try {
-      // Create provider and signer
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      
-      // Convert payment amount to USDC format (6 decimals)
-      const amountInWei = ethers.parseUnits(paymentAmount.toString(), USDC_DECIMALS);
+      const quote = await openQuote();
+      if (!quote) return;
+      const { intent: activeIntent, accepts } = quote;
+
+      // The wallet may have been moved to another chain since connecting
+      const networkOk = await switchNetwork(selectedChainId);
+      if (!networkOk) return;
+
+      // ...or to another account; only ever pay from the one shown
+      const [account] = await wallet.getAccounts();
+      if (!account) {
+        walletDisconnected();
+        return;
+      }
+      if (account.toLowerCase() !== walletInfo.address.toLowerCase()) {
+        await refreshWalletInfo(account, selectedChainId);
+        toast({
+          title: "Account changed",
+          description: `Your wallet switched to ${formatAddress(account)}. Check the details and pay again.`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // The intent is quoted on one accepted chain and token; paying with
+      // another accepted one moves it there server-side
+      if (!token) {
+        throw new Error(`${selectedToken} is not available on ${selectedChain?.name}`);
+      }
+      const target: PaymentTarget = { chainId: selectedChainId, token: token.symbol };
+
+      // A paywall quotes an amount per token (converted from its fiat price);
+      // plain checkouts pay the intent's own amount
+      const payAmount = resourceUrl
+        ? accepts.find((accepted) => accepted.chainId === selectedChainId && accepted.token === token.symbol)?.amount
+        : String(activeIntent.amount);
+      if (!payAmount) {
+        throw new Error(`${token.symbol} is not accepted on ${selectedChain?.name}`);
+      }
+
+      // Reads go to the chain's RPC; the wallet only signs and sends
+      const payer = walletInfo.address;
+      const tokenContract = getTokenContract(selectedChainId, token);
       
-      // Create contract instance
-      const usdcContract = new ethers.Contract(USDC_CONTRACT_ADDRESS, ERC20_ABI, signer);
+      // Check if user has enough balance of the token
+      const { value: balance, decimals } = await readBalance(selectedChainId, token, payer);
       
-      // Check if user has enough USDC balance
-      const balance = await usdcContract.balanceOf(walletInfo.address);
+      // Convert the quoted amount to token base units
+      const amountInWei = ethers.parseUnits(payAmount, decimals);
       
       if (balance < amountInWei) {
         toast({
           title: "Insufficient balance",
-          description: `You need at least $${paymentAmount} USDC to make this payment.`,
+          description: `You need at least ${formatTokenAmount(payAmount, token.symbol)} to make this payment.`,
           variant: "destructive"
         });
         setIsProcessing(false);
         return;
       }
       
-      // Execute the transfer
-      const tx = await usdcContract.transfer(RECIPIENT_ADDRESS, amountInWei);
-      
-      toast({
-        title: "Transaction submitted",
-        description: "Your payment is being processed...",
-      });
-      
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
-      
-      if (receipt.status === 1) {
+      if (paymentMethod === "authorize") {
+        // Sign a permit only; nothing moves until the merchant captures it
+        const permit = await buildPermit(
+          tokenContract,
+          payer,
+          paymentConfig.spenderAddress,
+          amountInWei
+        );
+        const signature = await signPermit(wallet, tokenContract, selectedChainId, permit);
+        const authorized = await authorizePayment(activeIntent.id, target, permit, signature);
+        setIntent(authorized.intent);
+        setAuthorization(authorized.authorization);
+
         toast({
-          title: "Payment Successful",
-          description: `Successfully sent $${paymentAmount} USDC! Transaction: ${receipt.hash}`,
+          title: "Payment authorized",
+          description: `${formatTokenAmount(payAmount, token.symbol)} is reserved. You'll be charged when the merchant captures the payment.`,
+        });
+        return;
+      }
+
+      // Only the paying wallet may submit the transfer, and redeem it for a
+      // resource; without a session of it, it signs the intent first so a
+      // rejected prompt sends nothing
+      const payerSignature = paymentMethod === "transfer" || resourceUrl
+        ? await provePayer(wallet, payer, activeIntent.id, session)
+        : null;
+
+      let submitted: PaymentIntent;
+      if (paymentMethod === "gasless") {
+        // Sign only; the facilitator submits the transfer and pays the gas
+        const authorization = buildTransferAuthorization({
+          from: payer,
+          to: activeIntent.recipient_address,
+          value: amountInWei,
+          expiresAt: activeIntent.expires_at
         });
+        const signature = await signTransferAuthorization(wallet, tokenContract, selectedChainId, authorization);
+        const relayed = await relayTransferAuthorization(activeIntent.id, target, authorization, signature);
+        savePendingPayment({ intentId: activeIntent.id, txHash: relayed.txHash, payerSignature, checkout, ...target });
+        submitted = relayed.intent;
       } else {
-        throw new Error("Transaction failed");
+        const transfer = buildTransfer(selectedChainId, token, payer, activeIntent.recipient_address, amountInWei);
+
+        // The payer pays the gas; check they can before the wallet asks them to sign
+        const estimate = await estimateFee(selectedChainId, transfer);
+        setFeeEstimate(estimate);
+        if (estimate.shortfall > 0n) {
+          toast({
+            title: `Not enough ${nativeSymbol} for gas`,
+            description: gasShortfallMessage(estimate),
+            variant: "destructive"
+          });
+          return;
+        }
+
+        // Execute the transfer
+        const txHash = await wallet.sendTransaction(transfer);
+        // Kept before the backend hears of it, in case the page goes away first
+        savePendingPayment({ intentId: activeIntent.id, txHash, payerSignature, checkout, ...target });
+        submitted = await submitPaymentIntent(activeIntent.id, txHash, target, payerSignature);
       }
+      setIntent(submitted);
       
+      toast({
+        title: "Transaction submitted",
+        description: "Your payment is being processed...",
+      });
+
+      await settlePayment(submitted, payerSignature);
     } catch (error: any) {
       console.error('Payment error:', error);
       
+      let errorTitle = "Payment failed";
       let errorMessage = "Unable to process payment. Please try again.";
+      const rejectedMessage = paymentMethod !== "transfer"
+        ? "Signature was rejected by user."
+        : "Transaction was rejected by user.";
       
-      if (error.code === 'ACTION_REJECTED') {
-        errorMessage = "Transaction was rejected by user.";
+      if (error instanceof PaymentApiError) {
+        errorMessage = error.message;
+        if (error.code === "insufficient_balance") {
+          errorTitle = "Insufficient balance";
+        } else if (error.code === "authorization_expired" || error.code === "permit_expired") {
+          errorTitle = "Authorization expired";
+          errorMessage = "The payment quote ran out before it could be submitted. Please try again.";
+        }
+      } else if (error.code === USER_REJECTED_REQUEST) {
+        errorMessage = rejectedMessage;
       } else if (error.message.includes('insufficient funds')) {
         errorMessage = "Insufficient funds for gas fees.";
       } else if (error.message.includes('user rejected')) {
-        errorMessage = "Transaction was rejected by user.";
+        errorMessage = rejectedMessage;
       }
       
       toast({
-        title: "Payment failed",
+        title: errorTitle,
         description: errorMessage,
         variant: "destructive"
       });
@@ -231,21 +479,139 @@ export function CryptoPayment() {
     }
   };
 
+  const handleRetryVerification = () => {
+    if (intent) retryVerification(intent);
+  };
+
+  // Replaces a transaction stuck unmined with one at a higher fee that either
+  // pays the same or cancels it. The confirmation polling already running
+  // picks up whichever gets mined.
+  const handleReplace = async (kind: ReplacementKind) => {
+    if (!wallet || !intent?.tx_hash) return;
+
+    setReplacing(kind);
+    try {
+      const replacement = await buildReplacement(getProvider(intent.chain_id), intent.tx_hash, kind);
+      if (!replacement) {
+        toast({
+          title: "Nothing to replace",
+          description: "The transaction was mined meanwhile, or the network doesn't know it yet.",
+        });
+        return;
+      }
+
+      const txHash = await wallet.sendTransaction(replacement);
+      toast({
+        title: kind === "cancel" ? "Cancellation sent" : "Speed-up sent",
+        description: kind === "cancel"
+          ? `The payment is cancelled once ${formatAddress(txHash)} is mined.`
+          : `${formatAddress(txHash)} pays a higher fee and replaces your payment.`,
+      });
+    } catch (error) {
+      console.error('Error replacing transaction:', error);
+      toast({
+        title: kind === "cancel" ? "Cancel failed" : "Speed-up failed",
+        description: error?.code === USER_REJECTED_REQUEST
+          ? "Transaction was rejected by user."
+          : "Unable to replace the transaction. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  const precision = sale ? productPrecision(sale) : TOKENS[selectedToken].precision;
+  const amountStep = Number(sale?.amount_step ?? 1);
+  const presets = (sale?.presets ?? []).map(Number);
+
   const increaseAmount = () => {
-    setPaymentAmount(prev => Math.min(Number((prev + 0.25).toFixed(2)), 1000)); // Increment by $0.25
+    setPaymentAmount(prev => Math.min(Number((prev + amountStep).toFixed(precision)), limits.max));
   };
 
   const decreaseAmount = () => {
-    setPaymentAmount(prev => Math.max(Number((prev - 0.25).toFixed(2)), 0.25)); // Min $0.25
+    setPaymentAmount(prev => Math.max(Number((prev - amountStep).toFixed(precision)), limits.min));
   };
 
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = parseFloat(e.target.value) || 0.25;
-    setPaymentAmount(Math.min(Math.max(Number(value.toFixed(2)), 0.25), 1000));
+    const value = parseFloat(e.target.value) || limits.min;
+    setPaymentAmount(Math.min(Math.max(Number(value.toFixed(precision)), limits.min), limits.max));
   };
 
-  const formatAddress = (address: string) => {
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+  // "$5.00" for fiat prices, "0.005" for a product sold in ETH
+  const formatPreset = (amount: number) => {
+    if (!sale || !isFiatPriced(sale)) return String(amount);
+    return `${fiatSign(sale.currency)}${amount < 10 ? amount.toFixed(2) : amount}`;
+  };
+
+  // "$5.00 in USDC" for fiat prices; token amounts as they are
+  const amountLabel = !sale
+    ? formatTokenAmount(paymentAmount, selectedToken)
+    : isFiatPriced(sale)
+      ? `${formatProductAmount(sale, paymentAmount)} in ${selectedToken}`
+      : formatProductAmount(sale, paymentAmount);
+
+  // The quoted amount can't change once its transfer is on the way
+  const amountLocked = isProcessing || intent?.status === "submitted";
+  const awaitingVerification = intent?.status === "submitted" && Boolean(intent.tx_hash);
+  // Sent from the connected wallet and not mined yet, as far as we know; the
+  // backend records its nonce once the network has seen the transaction
+  const canReplace = awaitingVerification && isConnected && intent.tx_nonce !== null &&
+    intent.payer_address === walletInfo?.address.toLowerCase() && !confirmations?.current;
+  const isUnlocked = Boolean(verifiedPayment || premiumContent);
+  const isSettled = isUnlocked || Boolean(authorization);
+  const canPayGasless = Boolean(paymentConfig?.gaslessEnabled && token?.eip3009);
+  // Pull payments don't unlock a resource until captured, so they're only
+  // offered for plain checkouts
+  const canAuthorize = Boolean(paymentConfig?.spenderAddress && token?.eip2612) && !resourceUrl;
+  const linkExpired = Boolean(link && isPaymentLinkExpired(link));
+  // Signed links may pay someone other than the merchant's default recipient
+  const linkRecipient = intent?.recipient_address ?? link?.recipient;
+
+  // Network fee of paying by transfer, shown before the payer signs
+  const { feeEstimate, setFeeEstimate } = useFeePreview({
+    chainId: selectedChainId,
+    token: selectedToken,
+    payer: walletInfo,
+    recipient: linkRecipient,
+    nativeAmount: selectedToken === "ETH" && intent?.token === "ETH" ? String(intent.amount) : null,
+    enabled: paymentMethod === "transfer" && !isSettled && !awaitingVerification
+  });
+
+  // Gas token of the chain, which isn't ETH everywhere (POL on Polygon)
+  const nativeSymbol = selectedChain?.nativeCurrency.symbol ?? "ETH";
+  const feeUsd = feeEstimate && nativeSymbol === "ETH" && !selectedChain?.testnet && paymentConfig?.ethUsdPrice
+    ? Number(ethers.formatEther(feeEstimate.fee)) * paymentConfig.ethUsdPrice
+    : null;
+
+  const gasShortfallMessage = (estimate: FeeEstimate) =>
+    `You need ${formatNativeAmount(estimate.fee, nativeSymbol)} for gas` +
+    `${token?.native ? " on top of the payment" : ""}, but only have ${formatNativeAmount(estimate.balance, nativeSymbol)}. ` +
+    `Add ${formatNativeAmount(estimate.shortfall, nativeSymbol)} to your wallet to pay.`;
+
+  // Fall back to a plain transfer when the chosen token can't be paid another way
+  useEffect(() => {
+    if ((paymentMethod === "gasless" && !canPayGasless) || (paymentMethod === "authorize" && !canAuthorize)) {
+      setPaymentMethod("transfer");
+    }
+  }, [paymentMethod, canPayGasless, canAuthorize]);
+
+  const currentRequirement = requirements.find(
+    (accepted) => accepted.chainId === selectedChainId && accepted.token === selectedToken
+  ) ?? requirements[0];
+  const price = currentRequirement?.price;
+
+  // A paywall's amount follows the token picked; each is quoted separately
+  useEffect(() => {
+    if (resourceUrl && currentRequirement) {
+      setPaymentAmount(Number(currentRequirement.amount));
+    }
+  }, [resourceUrl, currentRequirement]);
+
+  // "4:32"
+  const formatCountdown = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
   };
 
   return (
@@ -253,23 +619,57 @@ export function CryptoPayment() {
       <Card className="w-full max-w-md p-8 text-center space-y-6 shadow-lg">
         <div className="space-y-4">
           <h1 className="text-2xl font-bold text-foreground">
-            Payment Required
+            {link ? "Payment request" : product?.name ?? "Payment Required"}
           </h1>
           
-          <p className="text-muted-foreground leading-relaxed">
-            Pay in crypto for premium access to the resource. Select your payment amount below.
-          </p>
+          {link ? (
+            <div className="space-y-1">
+              <p className="text-muted-foreground leading-relaxed">
+                You're asked to pay {formatTokenAmount(link.amount, link.token)}
+                {linkRecipient ? ` to ${formatAddress(linkRecipient)}` : ""}.
+              </p>
+              {link.memo && (
+                <p className="text-sm font-medium text-foreground">Reference: {link.memo}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {link.signature ? "Signed by the merchant" : "Unsigned link"}
+                {link.expires !== null && (linkExpired
+                  ? " · expired"
+                  : ` · valid until ${new Date(link.expires * 1000).toLocaleString()}`)}
+              </p>
+            </div>
+          ) : (
+            <p className="text-muted-foreground leading-relaxed">
+              {product?.description ?? "Pay in crypto for premium access to the resource."}{" "}
+              {resourceUrl
+                ? currentRequirement && (price && price.rate !== 1
+                  ? `Access costs ${formatFiatAmount(price.amount, price.currency)}, paid as ${formatTokenAmount(currentRequirement.amount, currentRequirement.token)}.`
+                  : `Access costs ${formatTokenAmount(currentRequirement.amount, currentRequirement.token)}.`)
+                : sale?.pricing === "fixed" && `It costs ${formatProductAmount(sale, sale.price_amount)}.`}
+            </p>
+          )}
+
+          {price && price.rate !== 1 && (
+            <p className="text-xs text-muted-foreground">
+              1 {currentRequirement.token} = {formatFiatAmount(price.rate, price.currency)}
+              {price.slippageBps > 0 && ` · up to ${price.slippageBps / 100}% slippage`}
+            </p>
+          )}
           
-          <p className="text-sm">
-            <span className="text-muted-foreground">Need Base Sepolia USDC? </span>
-            <a 
-              href="#" 
-              className="text-crypto-blue hover:text-crypto-blue-hover inline-flex items-center gap-1 transition-colors"
-            >
-              Get some here.
-              <ExternalLink size={12} />
-            </a>
-          </p>
+          {selectedChain?.faucetUrl && (
+            <p className="text-sm">
+              <span className="text-muted-foreground">Need {selectedChain.name} {selectedToken === "EURC" ? "EURC" : "USDC"}? </span>
+              <a 
+                href={selectedChain.faucetUrl} 
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-crypto-blue hover:text-crypto-blue-hover inline-flex items-center gap-1 transition-colors"
+              >
+                Get some here.
+                <ExternalLink size={12} />
+              </a>
+            </p>
+          )}
         </div>
 
         {isConnected && walletInfo && (
@@ -283,21 +683,78 @@ export function CryptoPayment() {
                 <span className="text-muted-foreground">Wallet:</span>
                 <span className="font-mono">{formatAddress(walletInfo.address)}</span>
               </div>
-              
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Amount:</span>
-                <span className="font-medium">{walletInfo.balance}</span>
+
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Account:</span>
+                {sessionAddress(session) === walletInfo.address.toLowerCase() ? (
+                  <span className="font-medium">Signed in</span>
+                ) : (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    onClick={() => signIn()}
+                    disabled={isSigningIn || isProcessing}
+                    className="h-auto p-0 text-crypto-blue"
+                  >
+                    {isSigningIn ? "Check your wallet..." : "Sign in with Ethereum"}
+                  </Button>
+                )}
               </div>
               
+              {walletInfo.balances.map(({ symbol, balance }) => (
+                <div key={symbol} className="flex justify-between">
+                  <span className="text-muted-foreground">{symbol} balance:</span>
+                  <span className="font-medium">{balance}</span>
+                </div>
+              ))}
+              
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Network:</span>
-                <span className="font-medium">{walletInfo.network}</span>
+                <span className="font-medium">
+                  {walletInfo.network}
+                  {wrongNetwork && walletChainId && (
+                    <span className="text-destructive font-normal">
+                      {` (wallet on ${getChain(walletChainId)?.name ?? `chain ${walletChainId}`})`}
+                    </span>
+                  )}
+                </span>
               </div>
+
+              {intent && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Status:</span>
+                  <span className="font-medium">
+                    {authorization && intent.status === "submitted" ? "Authorized" : INTENT_STATUS_LABELS[intent.status]}
+                    {intent.status === "created" && quoteRemainingMs !== null && (
+                      <span className="text-muted-foreground font-normal">
+                        {quoteRemainingMs > 0
+                          ? ` (quote locked for ${formatCountdown(quoteRemainingMs)})`
+                          : " (quote expired, a new one is fetched when you pay)"}
+                      </span>
+                    )}
+                    {confirmations && (
+                      <span className="text-muted-foreground font-normal">
+                        {` (${confirmations.current}/${confirmations.required} confirmations)`}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              )}
             </div>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={disconnectWallet}
+              disabled={isProcessing}
+              className="text-xs h-7"
+            >
+              Disconnect {wallet instanceof WalletConnectConnector ? wallet.peerName ?? wallet.name : wallet.name}
+            </Button>
           </div>
         )}
 
-        {isConnected && (
+        {isConnected && sale?.pricing === "pay_what_you_want" && !isSettled && (
           <div className="space-y-4 animate-slide-down">
             <div className="text-center">
               <h3 className="text-sm font-medium text-muted-foreground mb-3">Payment Amount</h3>
@@ -307,26 +764,29 @@ export function CryptoPayment() {
                   variant="outline"
                   size="sm"
                   onClick={decreaseAmount}
-                  disabled={paymentAmount <= 0.25}
+                  disabled={amountLocked || paymentAmount <= limits.min}
                   className="h-8 w-8 p-0 rounded-full transition-all duration-200 hover:scale-105"
                 >
                   <Minus size={12} />
                 </Button>
                 
                 <div className="flex items-center gap-2 bg-muted/30 rounded-lg px-4 py-2">
-                  <span className="text-lg font-bold">$</span>
+                  {fiatSign(sale.currency) && (
+                    <span className="text-lg font-bold">{fiatSign(sale.currency)}</span>
+                  )}
                   <AnimatedNumber 
                     value={paymentAmount} 
+                    precision={precision}
                     className="text-2xl font-bold text-primary min-w-[4rem] text-center"
                   />
-                  <span className="text-sm text-muted-foreground font-medium">USDC</span>
+                  <span className="text-sm text-muted-foreground font-medium">{sale.currency}</span>
                 </div>
                 
                 <Button
                   variant="outline"
                   size="sm"
                   onClick={increaseAmount}
-                  disabled={paymentAmount >= 1000}
+                  disabled={amountLocked || paymentAmount >= limits.max}
                   className="h-8 w-8 p-0 rounded-full transition-all duration-200 hover:scale-105"
                 >
                   <Plus size={12} />
@@ -335,29 +795,31 @@ export function CryptoPayment() {
               
               <div className="space-y-3 mt-4">
                 <div className="flex justify-center gap-2">
-                  {[0.25, 1, 2.50, 5].map((amount) => (
+                  {presets.slice(0, 4).map((amount) => (
                     <Button
                       key={amount}
                       variant={paymentAmount === amount ? "default" : "outline"}
                       size="sm"
                       onClick={() => setPaymentAmount(amount)}
+                      disabled={amountLocked}
                       className="text-xs px-3 h-7 transition-all duration-200 hover:scale-105"
                     >
-                      ${amount.toFixed(2)}
+                      {formatPreset(amount)}
                     </Button>
                   ))}
                 </div>
                 
                 <div className="flex justify-center gap-2">
-                  {[10, 25, 50, 100].map((amount) => (
+                  {presets.slice(4).map((amount) => (
                     <Button
                       key={amount}
                       variant={paymentAmount === amount ? "default" : "outline"}
                       size="sm"
                       onClick={() => setPaymentAmount(amount)}
+                      disabled={amountLocked}
                       className="text-xs px-3 h-7 transition-all duration-200 hover:scale-105"
                     >
-                      ${amount}
+                      {formatPreset(amount)}
                     </Button>
                   ))}
                 </div>
@@ -367,9 +829,10 @@ export function CryptoPayment() {
                     type="number"
                     value={paymentAmount}
                     onChange={handleAmountChange}
-                    min="0.25"
-                    max="1000"
-                    step="0.01"
+                    disabled={amountLocked}
+                    min={limits.min}
+                    max={Number.isFinite(limits.max) ? limits.max : undefined}
+                    step={1 / 10 ** precision}
                     placeholder="Custom amount"
                     className="w-full text-center text-sm"
                   />
@@ -379,35 +842,230 @@ export function CryptoPayment() {
           </div>
         )}
 
-        <div className="pt-4">
-          {!isConnected ? (
-            <Button
-              onClick={() => setIsWalletModalOpen(true)}
-              className="w-full h-12 text-base font-medium bg-crypto-blue hover:bg-crypto-blue-hover text-white transition-all duration-300 animate-breathe"
-              style={{ background: 'var(--gradient-blue)' }}
+        {isUnlocked && (
+          <div className="bg-crypto-green/10 p-4 rounded-lg space-y-2 animate-slide-down">
+            <div className="flex items-center justify-center gap-2 text-sm font-medium text-crypto-green">
+              <CheckCircle2 size={16} />
+              Premium access unlocked
+            </div>
+            {premiumContent && (
+              <div className="text-left space-y-1">
+                <h3 className="text-sm font-semibold text-foreground">{premiumContent.title}</h3>
+                <p className="text-sm text-muted-foreground">{premiumContent.body}</p>
+              </div>
+            )}
+            {verifiedPayment && getExplorerTxUrl(verifiedPayment.chain_id, verifiedPayment.tx_hash) && (
+              <a
+                href={getExplorerTxUrl(verifiedPayment.chain_id, verifiedPayment.tx_hash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-crypto-blue hover:text-crypto-blue-hover inline-flex items-center gap-1 transition-colors"
+              >
+                View transaction
+                <ExternalLink size={12} />
+              </a>
+            )}
+          </div>
+        )}
+
+        {authorization && (
+          <div className="bg-crypto-connected/40 p-4 rounded-lg space-y-1 animate-slide-down">
+            <div className="flex items-center justify-center gap-2 text-sm font-medium text-crypto-blue">
+              <CheckCircle2 size={16} />
+              Payment authorized
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {formatTokenAmount(authorization.authorized_amount, intent?.token ?? selectedToken)} can be captured by the merchant until{" "}
+              {new Date(authorization.permit_deadline).toLocaleDateString()}.
+            </p>
+          </div>
+        )}
+
+        {!isSettled && !awaitingVerification && acceptedChainIds.length > 1 && (
+          <div className="space-y-2 animate-slide-down">
+            <h3 className="text-sm font-medium text-muted-foreground">Network</h3>
+            <Select
+              value={String(selectedChainId)}
+              onValueChange={handleChainChange}
+              disabled={isProcessing}
             >
-              Connect wallet
-            </Button>
-          ) : (
-            <Button
-              onClick={handlePayment}
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {acceptedChainIds.map((chainId) => (
+                  <SelectItem key={chainId} value={String(chainId)}>
+                    {getChain(chainId).name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {!isSettled && !awaitingVerification && tokenOptions.length > 1 && (
+          <div className="space-y-2 animate-slide-down">
+            <h3 className="text-sm font-medium text-muted-foreground">Pay in</h3>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={selectedToken}
+              onValueChange={(value) => value && handleTokenChange(value as TokenSymbol)}
+              disabled={amountLocked}
+            >
+              {tokenOptions.map((option) => (
+                <ToggleGroupItem key={option.symbol} value={option.symbol} className="text-xs">
+                  {option.symbol}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        )}
+
+        {isConnected && !isSettled && !awaitingVerification && (canPayGasless || canAuthorize) && (
+          <div className="space-y-2 animate-slide-down">
+            <h3 className="text-sm font-medium text-muted-foreground">Pay with</h3>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={paymentMethod}
+              onValueChange={(value) => value && setPaymentMethod(value as PaymentMethod)}
               disabled={isProcessing}
-              className="w-full h-12 text-base font-medium bg-crypto-green hover:bg-crypto-green-hover text-white transition-all duration-300 animate-glow"
-              style={{ background: 'var(--gradient-green)' }}
             >
-              {isProcessing ? (
-                <div className="flex items-center gap-2">
-                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent" />
-                  Processing...
-                </div>
-              ) : (
-                `Pay $${paymentAmount} USDC`
+              <ToggleGroupItem value="transfer" className="text-xs">
+                Wallet transfer
+              </ToggleGroupItem>
+              {canPayGasless && (
+                <ToggleGroupItem value="gasless" className="text-xs">
+                  Gasless signature
+                </ToggleGroupItem>
+              )}
+              {canAuthorize && (
+                <ToggleGroupItem value="authorize" className="text-xs">
+                  Pay later
+                </ToggleGroupItem>
               )}
+            </ToggleGroup>
+            {paymentMethod === "gasless" && (
+              <p className="text-xs text-muted-foreground">
+                You only sign an authorization. No ETH is needed for gas.
+              </p>
+            )}
+            {paymentMethod === "authorize" && (
+              <p className="text-xs text-muted-foreground">
+                You sign a permit now and the merchant collects the payment later.
+              </p>
+            )}
+          </div>
+        )}
+
+        {paymentUri && intent && (
+          <div className="bg-crypto-connected/40 p-4 rounded-lg space-y-3 animate-slide-down">
+            <div className="inline-block rounded-lg bg-white p-4">
+              <QRCodeSVG value={paymentUri} size={200} />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Scan with your phone wallet to send {formatTokenAmount(intent.amount, intent.token)} on{" "}
+              {getChain(intent.chain_id)?.name}. This page updates once the transfer is mined.
+            </p>
+            <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+              <div className="animate-spin rounded-full h-3 w-3 border-2 border-crypto-blue border-t-transparent" />
+              Waiting for your transfer
+              {quoteRemainingMs !== null && quoteRemainingMs > 0 && ` (${formatCountdown(quoteRemainingMs)} left)`}
+            </div>
+            <Button variant="ghost" size="sm" onClick={stopWatching} className="text-xs h-7">
+              Cancel
             </Button>
+          </div>
+        )}
+
+        <div className="pt-4 space-y-2">
+          {isSettled ? null : !isConnected && !awaitingVerification ? (
+            <>
+              <Button
+                onClick={() => setIsWalletModalOpen(true)}
+                className="w-full h-12 text-base font-medium bg-crypto-blue hover:bg-crypto-blue-hover text-white transition-all duration-300 animate-breathe"
+                style={{ background: 'var(--gradient-blue)' }}
+              >
+                Connect wallet
+              </Button>
+              {/* A resource is only unlocked for its payer, proven here by their session */}
+              {!paymentUri && token && !token.native && (!resourceUrl || session) && (
+                <Button
+                  variant="outline"
+                  onClick={showPaymentUri}
+                  disabled={isProcessing || linkExpired}
+                  className="w-full"
+                >
+                  <QrCode size={16} />
+                  Pay from a phone wallet
+                </Button>
+              )}
+            </>
+          ) : (
+            <>
+              <Button
+                onClick={awaitingVerification ? handleRetryVerification : handlePayment}
+                disabled={isProcessing || (linkExpired && !awaitingVerification)}
+                className="w-full h-12 text-base font-medium bg-crypto-green hover:bg-crypto-green-hover text-white transition-all duration-300 animate-glow"
+                style={{ background: 'var(--gradient-green)' }}
+              >
+                {isProcessing ? (
+                  <div className="flex items-center gap-2">
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent" />
+                    {confirmations ? `${confirmations.current}/${confirmations.required} confirmations` : "Processing..."}
+                  </div>
+                ) : awaitingVerification ? (
+                  "Check payment status"
+                ) : linkExpired ? (
+                  "Payment link expired"
+                ) : paymentMethod === "gasless" ? (
+                  `Sign & pay ${amountLabel}`
+                ) : paymentMethod === "authorize" ? (
+                  `Authorize ${amountLabel}`
+                ) : (
+                  `Pay ${amountLabel}`
+                )}
+              </Button>
+              {feeEstimate && !isProcessing && (
+                feeEstimate.shortfall > 0n ? (
+                  <p className="text-xs text-destructive">{gasShortfallMessage(feeEstimate)}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground text-center">
+                    Network fee ≈ {formatNativeAmount(feeEstimate.fee, nativeSymbol)}
+                    {feeUsd !== null && ` (${feeUsd < 0.01 ? "< $0.01" : formatFiatAmount(feeUsd, "USD")})`}
+                  </p>
+                )
+              )}
+              {canReplace && (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => handleReplace("speedUp")}
+                    disabled={replacing !== null}
+                    className="flex-1"
+                  >
+                    <Zap size={16} />
+                    {replacing === "speedUp" ? "Speeding up..." : "Speed up"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleReplace("cancel")}
+                    disabled={replacing !== null}
+                    className="flex-1"
+                  >
+                    <XCircle size={16} />
+                    {replacing === "cancel" ? "Cancelling..." : "Cancel"}
+                  </Button>
+                </div>
+              )}
+            </>
           )}
         </div>
 
-        {isConnected && (
+        {isConnected && !isSettled && (
           <p className="text-xs text-muted-foreground">
             Wallet connected! You can now proceed with payment.
           </p>
@@ -416,16 +1074,13 @@ export function CryptoPayment() {
 
       <WalletModal
         isOpen={isWalletModalOpen}
-        onClose={() => setIsWalletModalOpen(false)}
-        onWalletSelect={handleWalletSelect}
+        onClose={() => {
+          setIsWalletModalOpen(false);
+          setPairingUri(null);
+        }}
+        onWalletSelect={connectWallet}
+        pairingUri={pairingUri}
       />
     </div>
   );
 }
-
-// Extend the Window interface for TypeScript
-declare global {
-  interface Window {
-    ethereum?: any;
-  }
-}
\ No newline at end of file
@@ -1,59 +1,56 @@
 import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Wallet, ChevronRight } from "lucide-react";
-
-interface WalletOption {
-  name: string;
-  icon: string;
-  connector: string;
-}
+import { Wallet, ChevronRight, Copy, Smartphone } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
+import { useWalletConnectors } from "@/hooks/use-wallet-connectors";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useToast } from "@/hooks/use-toast";
+import { InjectedConnector, WALLETCONNECT_DEEP_LINKS, walletConnectDeepLink, type WalletConnector } from "@/lib/wallet";
 
 interface WalletModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onWalletSelect: (wallet: string) => void;
+  // Resolves once the wallet is connected (or the attempt failed)
+  onWalletSelect: (wallet: WalletConnector) => Promise<void> | void;
+  // WalletConnect pairing URI while a session proposal awaits approval
+  pairingUri?: string | null;
 }
 
-const walletOptions: WalletOption[] = [
-  {
-    name: "MetaMask",
-    icon: "🦊",
-    connector: "metamask"
-  },
-  {
-    name: "RB Wallet",
-    icon: "🚀",
-    connector: "rbwallet"
-  },
-  {
-    name: "Coinbase Wallet",
-    icon: "🔵",
-    connector: "coinbase"
-  },
-  {
-    name: "WalletConnect",
-    icon: "🔗",
-    connector: "walletconnect"
-  }
-];
+const isImageIcon = (icon: string) => /^(data:image\/|https:\/\/)/.test(icon);
 
-export function WalletModal({ isOpen, onClose, onWalletSelect }: WalletModalProps) {
+export function WalletModal({ isOpen, onClose, onWalletSelect, pairingUri }: WalletModalProps) {
   const [isConnecting, setIsConnecting] = useState<string | null>(null);
+  const walletOptions = useWalletConnectors();
+  const isMobile = useIsMobile();
+  const { toast } = useToast();
+
+  const hasInjectedWallet = walletOptions.some((wallet) => wallet instanceof InjectedConnector);
 
-  const handleWalletClick = async (wallet: WalletOption) => {
-    setIsConnecting(wallet.connector);
+  const handleWalletClick = async (wallet: WalletConnector) => {
+    setIsConnecting(wallet.id);
     
     // Simulate connection delay for better UX
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    onWalletSelect(wallet.connector);
+    await onWalletSelect(wallet);
+    setIsConnecting(null);
+    onClose();
+  };
+
+  // Closing mid-pairing abandons the attempt; a late approval still connects
+  const handleClose = () => {
     setIsConnecting(null);
     onClose();
   };
 
+  const copyPairingUri = async () => {
+    await navigator.clipboard.writeText(pairingUri);
+    toast({ title: "Link copied", description: "Paste it into your wallet to connect." });
+  };
+
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-lg font-semibold">
@@ -62,29 +59,83 @@ export function WalletModal({ isOpen, onClose, onWalletSelect }: WalletModalProp
           </DialogTitle>
         </DialogHeader>
         
-        <div className="space-y-3 mt-4">
-          {walletOptions.map((wallet) => (
-            <Button
-              key={wallet.connector}
-              variant="outline"
-              className="w-full h-14 justify-between text-left hover:bg-accent/50 transition-all duration-300 animate-breathe"
-              style={{ animationDelay: `${walletOptions.indexOf(wallet) * 0.1}s` }}
-              onClick={() => handleWalletClick(wallet)}
-              disabled={isConnecting !== null}
-            >
-              <div className="flex items-center gap-3">
-                <span className="text-2xl">{wallet.icon}</span>
-                <span className="font-medium">{wallet.name}</span>
-              </div>
-              
-              {isConnecting === wallet.connector ? (
-                <div className="animate-spin rounded-full h-5 w-5 border-2 border-primary border-t-transparent" />
-              ) : (
-                <ChevronRight size={16} className="text-muted-foreground" />
-              )}
+        {pairingUri ? (
+          <div className="space-y-4 mt-4 text-center animate-slide-down">
+            {isMobile ? (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Open your wallet app to approve the connection.
+                </p>
+                <div className="space-y-2">
+                  {WALLETCONNECT_DEEP_LINKS.map((link) => (
+                    <Button key={link.name} variant="outline" className="w-full h-12 justify-between" asChild>
+                      <a href={walletConnectDeepLink(link, pairingUri)}>
+                        <span className="font-medium">{link.name}</span>
+                        <ChevronRight size={16} className="text-muted-foreground" />
+                      </a>
+                    </Button>
+                  ))}
+                  <Button variant="outline" className="w-full h-12 justify-between" asChild>
+                    <a href={pairingUri}>
+                      <span className="flex items-center gap-2 font-medium">
+                        <Smartphone size={16} />
+                        Other wallet
+                      </span>
+                      <ChevronRight size={16} className="text-muted-foreground" />
+                    </a>
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Scan with a WalletConnect-compatible wallet to connect.
+                </p>
+                <div className="inline-block rounded-lg bg-white p-4">
+                  <QRCodeSVG value={pairingUri} size={220} />
+                </div>
+              </>
+            )}
+            <Button variant="ghost" size="sm" onClick={copyPairingUri} className="text-xs">
+              <Copy size={12} />
+              Copy connection link
             </Button>
-          ))}
-        </div>
+          </div>
+        ) : (
+          <div className="space-y-3 mt-4">
+            {!hasInjectedWallet && (
+              <p className="text-sm text-muted-foreground text-center">
+                No browser wallet detected. Install one or connect a mobile wallet.
+              </p>
+            )}
+
+            {walletOptions.map((wallet) => (
+              <Button
+                key={wallet.id}
+                variant="outline"
+                className="w-full h-14 justify-between text-left hover:bg-accent/50 transition-all duration-300 animate-breathe"
+                style={{ animationDelay: `${walletOptions.indexOf(wallet) * 0.1}s` }}
+                onClick={() => handleWalletClick(wallet)}
+                disabled={isConnecting !== null}
+              >
+                <div className="flex items-center gap-3">
+                  {isImageIcon(wallet.icon) ? (
+                    <img src={wallet.icon} alt="" className="h-7 w-7 rounded" />
+                  ) : (
+                    <span className="text-2xl">{wallet.icon}</span>
+                  )}
+                  <span className="font-medium">{wallet.name}</span>
+                </div>
+              
+                {isConnecting === wallet.id ? (
+                  <div className="animate-spin rounded-full h-5 w-5 border-2 border-primary border-t-transparent" />
+                ) : (
+                  <ChevronRight size={16} className="text-muted-foreground" />
+                )}
+              </Button>
+            ))}
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
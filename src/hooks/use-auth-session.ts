@@ -0,0 +1,20 @@
+import * as React from "react"
+import type { Session } from "@supabase/supabase-js"
+
+import { supabase } from "@/integrations/supabase/client"
+
+// Current Supabase session, kept in sync with sign-ins, sign-outs and refreshes.
+export function useAuthSession() {
+  const [session, setSession] = React.useState<Session | null>(null)
+
+  React.useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setSession(data.session))
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session)
+    })
+    return () => subscription.unsubscribe()
+  }, [])
+
+  return session
+}
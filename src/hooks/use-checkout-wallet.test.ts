@@ -0,0 +1,166 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from "@testing-library/react"
+import { ethers } from "ethers"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { useCheckoutWallet } from "@/hooks/use-checkout-wallet"
+import { formatTokenAmount, getToken } from "@/lib/chains"
+import { buildTransfer } from "@/lib/erc20"
+import type { WalletConnector } from "@/lib/wallet/connector"
+import { MockConnector } from "@/lib/wallet/mock"
+import { getLastConnectorId, rememberConnector } from "@/lib/wallet/session"
+
+// The checkout's wallet flow against MockConnector, through the
+// WalletConnector interface every wallet implements: connecting, signing in,
+// following what the payer changes from the wallet, paying and disconnecting.
+// The backend (sign-in, balances) is stubbed.
+
+const { toast, connectors, signInWithEthereum } = vi.hoisted(() => ({
+  toast: vi.fn(),
+  connectors: [] as WalletConnector[],
+  signInWithEthereum: vi.fn(async () => {}),
+}))
+
+vi.mock("@/hooks/use-toast", () => ({ useToast: () => ({ toast }) }))
+vi.mock("@/hooks/use-wallet-connectors", () => ({ useWalletConnectors: () => connectors }))
+vi.mock("@/lib/siwe", () => ({ sessionAddress: () => null, signInWithEthereum, signOut: async () => {} }))
+vi.mock("@/lib/erc20", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/erc20")>()),
+  readBalance: async () => ({ value: 12_500_000n, decimals: 6 }),
+}))
+// The wallet index also loads the WalletConnect and Coinbase SDKs
+vi.mock("@/lib/wallet", async () => ({
+  ...(await import("@/lib/wallet/connector")),
+  ...(await import("@/lib/wallet/session")),
+}))
+
+const PRIVATE_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"
+const RECIPIENT = "0x75bB73a75EeCc43ffeAa3B48733292437C405f25"
+// Fixed keys and addresses: ethers can't draw random ones under jsdom
+const OTHER_ACCOUNT = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC"
+// Paid on Base Sepolia, with Base also accepted
+const CHAIN_ID = 84532
+const OTHER_CHAIN_ID = 8453
+
+function renderCheckoutWallet() {
+  return renderHook(() =>
+    useCheckoutWallet({
+      chainId: CHAIN_ID,
+      acceptedChainIds: [OTHER_CHAIN_ID, CHAIN_ID],
+      tokensOnChain: (chainId) => [getToken(chainId, "USDC")!],
+      session: null,
+      ready: true,
+    })
+  )
+}
+
+async function connect(wallet: MockConnector) {
+  const checkout = renderCheckoutWallet()
+  await act(() => checkout.result.current.connectWallet(wallet))
+  return checkout
+}
+
+beforeEach(() => {
+  localStorage.clear()
+  connectors.length = 0
+  toast.mockClear()
+  signInWithEthereum.mockClear()
+})
+
+describe("useCheckoutWallet", () => {
+  it("connects on the chain paid on, shows the balances and signs in with the wallet", async () => {
+    const wallet = new MockConnector({ privateKey: PRIVATE_KEY, chainId: 1 })
+    const { result } = await connect(wallet)
+
+    expect(result.current.isConnected).toBe(true)
+    expect(result.current.wallet).toBe(wallet)
+    expect(result.current.walletChainId).toBe(CHAIN_ID)
+    expect(result.current.wrongNetwork).toBe(false)
+    expect(result.current.walletInfo).toEqual({
+      address: wallet.account.address,
+      balances: [{ symbol: "USDC", balance: formatTokenAmount("12.5", "USDC") }],
+      network: "Base Sepolia",
+    })
+    expect(await wallet.getChainId()).toBe(CHAIN_ID)
+    expect(getLastConnectorId()).toBe("mock")
+    expect(signInWithEthereum).toHaveBeenCalledWith(wallet, wallet.account.address, CHAIN_ID)
+  })
+
+  it("stays disconnected when the payer rejects the connection", async () => {
+    const { result } = await connect(new MockConnector({ privateKey: PRIVATE_KEY, rejectRequests: true }))
+
+    expect(result.current.isConnected).toBe(false)
+    expect(result.current.walletInfo).toBeNull()
+    expect(getLastConnectorId()).toBeNull()
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: "Connection failed" }))
+  })
+
+  it("pays from the connected wallet on the chain paid on", async () => {
+    const wallet = new MockConnector({ privateKey: PRIVATE_KEY })
+    const { result } = await connect(wallet)
+
+    const token = getToken(CHAIN_ID, "USDC")!
+    const value = ethers.parseUnits("5", 6)
+    const transfer = buildTransfer(CHAIN_ID, token, result.current.walletInfo!.address, RECIPIENT, value)
+    const txHash = await result.current.wallet!.sendTransaction(transfer)
+
+    expect(txHash).toMatch(/^0x[0-9a-f]{64}$/)
+    expect(wallet.transactions).toEqual([transfer])
+    expect(transfer.to).toBe(token.address)
+  })
+
+  it("follows the account and network the payer switches to in the wallet", async () => {
+    const wallet = new MockConnector({ privateKey: PRIVATE_KEY })
+    const { result } = await connect(wallet)
+
+    await act(async () => wallet.emit("accountsChanged", [OTHER_ACCOUNT]))
+    await waitFor(() => expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: "Account changed" })))
+    expect(result.current.walletInfo?.address).toBe(OTHER_ACCOUNT)
+
+    await act(() => wallet.switchChain(OTHER_CHAIN_ID))
+    expect(result.current.walletChainId).toBe(OTHER_CHAIN_ID)
+    expect(result.current.wrongNetwork).toBe(true)
+
+    let switched = false
+    await act(async () => {
+      switched = await result.current.switchNetwork(CHAIN_ID)
+    })
+    expect(switched).toBe(true)
+    expect(result.current.wrongNetwork).toBe(false)
+    expect(await wallet.getChainId()).toBe(CHAIN_ID)
+  })
+
+  it("reconnects the wallet of an earlier visit without prompting", async () => {
+    const wallet = new MockConnector({ privateKey: PRIVATE_KEY })
+    await wallet.connect([OTHER_CHAIN_ID])
+    rememberConnector(wallet)
+    connectors.push(wallet)
+
+    const { result } = renderCheckoutWallet()
+    await waitFor(() => expect(result.current.isConnected).toBe(true))
+
+    expect(result.current.walletInfo?.address).toBe(wallet.account.address)
+    // Left on its network until the payer pays
+    expect(result.current.wrongNetwork).toBe(true)
+    expect(await wallet.getChainId()).toBe(OTHER_CHAIN_ID)
+    expect(signInWithEthereum).not.toHaveBeenCalled()
+  })
+
+  it("forgets the wallet once the payer disconnects it from either end", async () => {
+    const wallet = new MockConnector({ privateKey: PRIVATE_KEY })
+    const { result } = await connect(wallet)
+
+    await act(() => wallet.disconnect())
+    expect(result.current.isConnected).toBe(false)
+    expect(result.current.wallet).toBeNull()
+    expect(getLastConnectorId()).toBeNull()
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: "Wallet disconnected" }))
+
+    await act(() => result.current.connectWallet(wallet))
+    expect(result.current.isConnected).toBe(true)
+    await act(() => result.current.disconnectWallet())
+    expect(result.current.isConnected).toBe(false)
+    expect(await wallet.getAccounts()).toEqual([])
+    expect(getLastConnectorId()).toBeNull()
+  })
+})
@@ -0,0 +1,322 @@
+import * as React from "react"
+import { ethers } from "ethers"
+import type { Session } from "@supabase/supabase-js"
+
+import { useToast } from "@/hooks/use-toast"
+import { useWalletConnectors } from "@/hooks/use-wallet-connectors"
+import { formatAddress, formatTokenAmount, getChain, type TokenConfig } from "@/lib/chains"
+import { readBalance } from "@/lib/erc20"
+import { sessionAddress, signInWithEthereum, signOut } from "@/lib/siwe"
+import {
+  forgetConnector,
+  getLastConnectorId,
+  rememberConnector,
+  USER_REJECTED_REQUEST,
+  type WalletConnector,
+  type WalletEvents,
+} from "@/lib/wallet"
+
+export interface WalletInfo {
+  address: string
+  // One entry per token accepted on the connected chain
+  balances: { symbol: string; balance: string }[]
+  network: string
+}
+
+interface CheckoutWalletOptions {
+  // Chain picked to pay on
+  chainId: number
+  acceptedChainIds: number[]
+  // Tokens whose balances are shown for a chain
+  tokensOnChain: (chainId: number) => TokenConfig[]
+  session: Session | null
+  // Whether the checkout knows which chains and tokens it shows, so a wallet
+  // from an earlier visit can be reconnected
+  ready: boolean
+}
+
+// The wallet the checkout pays from: connecting (and reconnecting one from
+// an earlier visit without prompting), the account, network and balances
+// shown, signing in with it, and following what the payer changes from the
+// wallet itself.
+export function useCheckoutWallet({ chainId, acceptedChainIds, tokensOnChain, session, ready }: CheckoutWalletOptions) {
+  const [isConnected, setIsConnected] = React.useState(false)
+  const [walletInfo, setWalletInfo] = React.useState<WalletInfo | null>(null)
+  // Wallet the payer picked; every prompt and signature goes through it
+  const [wallet, setWallet] = React.useState<WalletConnector | null>(null)
+  // WalletConnect pairing URI shown while the payer approves on their phone
+  const [pairingUri, setPairingUri] = React.useState<string | null>(null)
+  const [wrongNetwork, setWrongNetwork] = React.useState(false)
+  // Chain the wallet is on, which may differ from the one picked to pay on
+  const [walletChainId, setWalletChainId] = React.useState<number | null>(null)
+  const [isSigningIn, setIsSigningIn] = React.useState(false)
+  const sessionRestoreAttempted = React.useRef(false)
+  const connectors = useWalletConnectors()
+  const { toast } = useToast()
+
+  // Check network and switch if needed
+  const switchNetwork = async (targetChainId: number, connector = wallet) => {
+    if (!connector) return false
+
+    const chain = getChain(targetChainId)
+
+    try {
+      const current = await connector.getChainId()
+      setWalletChainId(current)
+
+      if (current !== targetChainId) {
+        setWrongNetwork(true)
+        // Adds the network to the wallet first if it doesn't know it yet
+        await connector.switchChain(targetChainId)
+        setWalletChainId(targetChainId)
+      }
+      setWrongNetwork(false)
+      return true
+    } catch (error) {
+      console.error("Network switch error:", error)
+      toast({
+        title: "Network Switch Failed",
+        description: `Please manually switch to ${chain?.name ?? "the payment"} network.`,
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  // Show the payer's balance of every token they can pay with on the chain
+  const refreshWalletInfo = async (address: string, balanceChainId: number) => {
+    const chain = getChain(balanceChainId)
+
+    const balances = await Promise.all(
+      tokensOnChain(balanceChainId).map(async (option) => {
+        try {
+          const { value, decimals } = await readBalance(balanceChainId, option, address)
+          return {
+            symbol: option.symbol,
+            balance: formatTokenAmount(ethers.formatUnits(value, decimals), option.symbol),
+          }
+        } catch (error) {
+          console.error(`Error fetching ${option.symbol} balance:`, error)
+          return { symbol: option.symbol, balance: "Unable to fetch" }
+        }
+      })
+    )
+
+    setWalletInfo({
+      address,
+      balances,
+      network: chain?.name ?? "Unknown",
+    })
+  }
+
+  // Finishes connecting once the wallet has handed over its accounts. A
+  // silent reconnect leaves the network alone; paying switches it if needed.
+  const finishConnecting = async (connector: WalletConnector, accounts: string[], silent = false) => {
+    if (accounts.length === 0) return false
+
+    setWallet(connector)
+
+    if (silent) {
+      const current = await connector.getChainId()
+      setWalletChainId(current)
+      setWrongNetwork(current !== chainId)
+    } else {
+      const networkOk = await switchNetwork(chainId, connector)
+      if (!networkOk) return false
+    }
+
+    await refreshWalletInfo(accounts[0], chainId)
+
+    setIsConnected(true)
+    rememberConnector(connector)
+    return true
+  }
+
+  // Signing in is optional; paying works the same without a session, it
+  // just isn't kept with the wallet's account
+  const signIn = async (connector = wallet, address = walletInfo?.address) => {
+    if (!connector || !address) return
+
+    setIsSigningIn(true)
+    try {
+      await signInWithEthereum(connector, address, chainId)
+      toast({
+        title: "Signed in",
+        description: "Your payments are saved to your wallet's account.",
+      })
+    } catch (error) {
+      console.error("Sign-in error:", error)
+      toast({
+        title: "Not signed in",
+        description: error?.code === USER_REJECTED_REQUEST
+          ? "You can still pay without signing in."
+          : "Unable to sign in with your wallet. You can still pay.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSigningIn(false)
+    }
+  }
+
+  const connectWallet = async (connector: WalletConnector) => {
+    try {
+      // Request account access, offering every accepted chain so wallets that
+      // pair per session (WalletConnect) can switch between them later.
+      // WalletConnect hands out a pairing URI to show meanwhile.
+      connector.on("displayUri", setPairingUri)
+      const accounts = await connector
+        .connect([chainId, ...acceptedChainIds.filter((accepted) => accepted !== chainId)])
+        .finally(() => {
+          connector.off("displayUri", setPairingUri)
+          setPairingUri(null)
+        })
+
+      if (await finishConnecting(connector, accounts)) {
+        toast({
+          title: "Wallet Connected",
+          description: "You can now proceed with payment.",
+        })
+
+        if (sessionAddress(session) !== accounts[0].toLowerCase()) {
+          await signIn(connector, accounts[0])
+        }
+      }
+    } catch (error) {
+      console.error("Error connecting wallet:", error)
+      toast({
+        title: "Connection failed",
+        description: "Unable to connect to wallet. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const resetConnection = () => {
+    setIsConnected(false)
+    setWalletInfo(null)
+    setWallet(null)
+    setWrongNetwork(false)
+    setWalletChainId(null)
+  }
+
+  // A session belongs to one wallet address and ends with it
+  const endSession = () => {
+    if (!session) return
+    signOut().catch((error) => console.error("Sign-out error:", error))
+  }
+
+  // Forget the wallet before telling it, so the events it answers with
+  // reach a checkout that's already disconnected
+  const disconnectWallet = async () => {
+    const connector = wallet
+    resetConnection()
+    forgetConnector()
+    endSession()
+
+    try {
+      await connector?.disconnect()
+    } catch (error) {
+      console.error("Error disconnecting wallet:", error)
+    }
+  }
+
+  // Reconnects the wallet from an earlier visit without prompting, once the
+  // checkout is ready and the wallet has announced itself. Checked on every
+  // render until then; the ref makes it a one-off.
+  React.useEffect(() => {
+    if (!ready || wallet || sessionRestoreAttempted.current) return
+
+    const lastConnectorId = getLastConnectorId()
+    const connector = connectors.find((candidate) => candidate.id === lastConnectorId)
+    if (lastConnectorId && !connector) return
+    sessionRestoreAttempted.current = true
+    if (!connector) return
+
+    connector
+      .reconnect()
+      .then((accounts) => {
+        // The wallet no longer remembers this page
+        if (accounts.length === 0) {
+          forgetConnector()
+          return
+        }
+        return finishConnecting(connector, accounts, true)
+      })
+      .catch((error) => console.error("Error reconnecting wallet:", error))
+  })
+
+  // The payer can switch accounts or networks, or disconnect, from their
+  // wallet at any time; what's shown must follow so they never pay from an
+  // account or chain they didn't see
+  const walletDisconnected = () => {
+    resetConnection()
+    forgetConnector()
+    endSession()
+    toast({
+      title: "Wallet disconnected",
+      description: "Connect your wallet again to pay.",
+    })
+  }
+
+  const accountsChanged = async (accounts: string[]) => {
+    if (accounts.length === 0) {
+      walletDisconnected()
+      return
+    }
+    if (accounts[0].toLowerCase() === walletInfo?.address.toLowerCase()) return
+
+    if (sessionAddress(session) !== accounts[0].toLowerCase()) endSession()
+    await refreshWalletInfo(accounts[0], chainId)
+    toast({
+      title: "Account changed",
+      description: `Paying from ${formatAddress(accounts[0])} now.`,
+    })
+  }
+
+  const chainChanged = (current: number) => {
+    setWalletChainId(current)
+    setWrongNetwork(current !== chainId)
+  }
+
+  // Subscribed once per wallet; the ref forwards to this render's handlers
+  const walletEvents = React.useRef<Pick<WalletEvents, "accountsChanged" | "chainChanged" | "disconnect">>(null)
+  walletEvents.current = {
+    accountsChanged,
+    chainChanged,
+    disconnect: walletDisconnected,
+  }
+
+  React.useEffect(() => {
+    if (!wallet) return
+
+    const onAccountsChanged = (accounts: string[]) => walletEvents.current.accountsChanged(accounts)
+    const onChainChanged = (current: number) => walletEvents.current.chainChanged(current)
+    const onDisconnect = () => walletEvents.current.disconnect()
+
+    wallet.on("accountsChanged", onAccountsChanged)
+    wallet.on("chainChanged", onChainChanged)
+    wallet.on("disconnect", onDisconnect)
+    return () => {
+      wallet.off("accountsChanged", onAccountsChanged)
+      wallet.off("chainChanged", onChainChanged)
+      wallet.off("disconnect", onDisconnect)
+    }
+  }, [wallet])
+
+  return {
+    wallet,
+    walletInfo,
+    isConnected,
+    wrongNetwork,
+    walletChainId,
+    pairingUri,
+    setPairingUri,
+    isSigningIn,
+    connectWallet,
+    disconnectWallet,
+    walletDisconnected,
+    signIn,
+    switchNetwork,
+    refreshWalletInfo,
+  }
+}
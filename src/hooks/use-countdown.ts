@@ -0,0 +1,22 @@
+import * as React from "react"
+
+// Milliseconds left until `deadline` (an ISO timestamp), updated every
+// second. Null without a deadline; never below zero.
+export function useCountdown(deadline: string | null | undefined) {
+  const [remaining, setRemaining] = React.useState<number | null>(null)
+
+  React.useEffect(() => {
+    if (!deadline) {
+      setRemaining(null)
+      return
+    }
+
+    const end = new Date(deadline).getTime()
+    const tick = () => setRemaining(Math.max(end - Date.now(), 0))
+    tick()
+    const timer = window.setInterval(tick, 1000)
+    return () => window.clearInterval(timer)
+  }, [deadline])
+
+  return remaining
+}
@@ -0,0 +1,47 @@
+import * as React from "react"
+import { ethers } from "ethers"
+
+import { getToken } from "@/lib/chains"
+import { buildTransfer } from "@/lib/erc20"
+import { estimateFee, type FeeEstimate } from "@/lib/gas"
+
+interface FeePreviewOptions {
+  chainId: number
+  token: string
+  // Connected account; a new object after its balances are refreshed
+  payer: { address: string } | null
+  // The quote's recipient, if there is one yet
+  recipient: string | undefined
+  // Amount quoted in native ETH, sent as the value
+  nativeAmount: string | null
+  enabled: boolean
+}
+
+// Network fee of paying by transfer, shown before the payer signs and
+// re-estimated whenever the payer, chain, token or quote changes. A token
+// transfer is estimated for one base unit, which takes the same gas as the
+// quoted amount, and sent to the payer's own address until a quote names the
+// recipient. The setter takes the estimate made for the actual payment.
+export function useFeePreview({ chainId, token, payer, recipient, nativeAmount, enabled }: FeePreviewOptions) {
+  const [feeEstimate, setFeeEstimate] = React.useState<FeeEstimate | null>(null)
+
+  React.useEffect(() => {
+    setFeeEstimate(null)
+    const feeToken = getToken(chainId, token)
+    const to = recipient ?? payer?.address
+    if (!enabled || !payer || !feeToken || !to) return
+
+    let cancelled = false
+    const value = feeToken.native ? ethers.parseEther(nativeAmount ?? "0") : 1n
+    estimateFee(chainId, buildTransfer(chainId, feeToken, payer.address, to, value))
+      .then((estimate) => {
+        if (!cancelled) setFeeEstimate(estimate)
+      })
+      .catch((error) => console.error("Fee estimation error:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [chainId, token, payer, recipient, nativeAmount, enabled])
+
+  return { feeEstimate, setFeeEstimate }
+}
@@ -0,0 +1,124 @@
+import * as React from "react"
+import { ethers } from "ethers"
+
+import { useToast } from "@/hooks/use-toast"
+import type { TokenConfig } from "@/lib/chains"
+import { buildTransferUri } from "@/lib/eip681"
+import { getTokenContract, readTokenDecimals } from "@/lib/erc20"
+import { detectPayment, isIntentExpired, PaymentApiError, type PaymentIntent, type PaymentTarget } from "@/lib/payments"
+import { savePendingPayment } from "@/lib/pending-payments"
+
+// How often a checkout showing a QR code asks whether the transfer landed
+const PAYMENT_WATCH_INTERVAL_MS = 5000
+
+interface PaymentWatchOptions {
+  chainId: number
+  token: TokenConfig | undefined
+  // Where a payment sent from this checkout is picked up again after a reload
+  checkout: string
+  // The quote to pay; null when a paywall answers that access is already paid
+  openQuote: () => Promise<{ intent: PaymentIntent } | null>
+  settlePayment: (submitted: PaymentIntent, payerSignature: string | null) => Promise<void>
+  setIntent: (intent: PaymentIntent) => void
+  setIsProcessing: (processing: boolean) => void
+}
+
+// Pays from a wallet this page isn't connected to, e.g. on a phone: the
+// transfer is shown as an EIP-681 QR code and the backend watches the chain
+// for it, polled until it lands or the quote runs out
+export function usePaymentWatch({
+  chainId,
+  token,
+  checkout,
+  openQuote,
+  settlePayment,
+  setIntent,
+  setIsProcessing,
+}: PaymentWatchOptions) {
+  // EIP-681 request shown as a QR code while the chain is watched for it
+  const [paymentUri, setPaymentUri] = React.useState<string | null>(null)
+  // Bumped to stop the running watch
+  const paymentWatch = React.useRef(0)
+  const { toast } = useToast()
+
+  React.useEffect(() => () => {
+    paymentWatch.current++
+  }, [])
+
+  const stopWatching = () => {
+    paymentWatch.current++
+    setPaymentUri(null)
+  }
+
+  const showPaymentUri = async () => {
+    if (!token || token.native) return
+
+    const watchId = ++paymentWatch.current
+    const target: PaymentTarget = { chainId, token: token.symbol }
+    let watched: PaymentIntent
+    setIsProcessing(true)
+    try {
+      const quote = await openQuote()
+      if (!quote) return
+
+      watched = await detectPayment(quote.intent.id, target)
+      setIntent(watched)
+      const value = ethers.parseUnits(String(watched.amount), await readTokenDecimals(getTokenContract(chainId, token), chainId))
+      setPaymentUri(buildTransferUri(chainId, token.address, watched.recipient_address, value))
+    } catch (error) {
+      console.error("Error preparing QR payment:", error)
+      toast({
+        title: "QR code unavailable",
+        description: error instanceof PaymentApiError ? error.message : "Unable to prepare the payment. Please try again.",
+        variant: "destructive",
+      })
+      return
+    } finally {
+      setIsProcessing(false)
+    }
+
+    while (watched.status === "created" && !isIntentExpired(watched)) {
+      await new Promise((resolve) => setTimeout(resolve, PAYMENT_WATCH_INTERVAL_MS))
+      if (paymentWatch.current !== watchId) return
+
+      try {
+        watched = await detectPayment(watched.id, target)
+        setIntent(watched)
+      } catch (error) {
+        console.error("Error detecting payment:", error)
+      }
+    }
+    if (paymentWatch.current !== watchId) return
+    setPaymentUri(null)
+
+    if (watched.status !== "submitted" || !watched.tx_hash) {
+      toast({
+        title: "Quote expired",
+        description: "No transfer arrived in time. Show a new QR code to pay.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({
+      title: "Transfer received",
+      description: "Your payment is being verified...",
+    })
+    savePendingPayment({ intentId: watched.id, txHash: watched.tx_hash, payerSignature: null, checkout, ...target })
+    setIsProcessing(true)
+    try {
+      await settlePayment(watched, null)
+    } catch (error) {
+      console.error("Verification error:", error)
+      toast({
+        title: "Payment verification failed",
+        description: "Unable to reach the payment server. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return { paymentUri, showPaymentUri, stopWatching }
+}
@@ -0,0 +1,235 @@
+import * as React from "react"
+
+import { useToast } from "@/hooks/use-toast"
+import { formatAddress, formatTokenAmount } from "@/lib/chains"
+import { saveAccessToken } from "@/lib/entitlements"
+import {
+  getPaymentIntent,
+  PaymentApiError,
+  submitPaymentIntent,
+  verifyPayment,
+  type PaymentIntent,
+  type PaymentReceipt,
+} from "@/lib/payments"
+import { requestResource, type PremiumContent, type ResourceResponse } from "@/lib/paywall"
+import { clearPendingPayment, getPendingPayment, type PendingPayment } from "@/lib/pending-payments"
+
+// How often a submitted payment's confirmations are checked, and for how
+// long before the payer is asked to check back later
+const CONFIRMATION_POLL_INTERVAL_MS = 4000
+const CONFIRMATION_TIMEOUT_MS = 15 * 60 * 1000
+
+interface PendingPaymentOptions {
+  // 402-protected resource the payment unlocks, if any
+  resourceUrl?: string
+  // Where a payment sent from this checkout is picked up again after a reload
+  checkout: string
+  // Whether the checkout has loaded what it pays for; a payment left pending
+  // is resumed once it has
+  ready: boolean
+  setIntent: (intent: PaymentIntent) => void
+  setIsProcessing: (processing: boolean) => void
+  onUnlock?: (content: PremiumContent) => void
+}
+
+// Follows a submitted payment to its outcome: polls until the backend counts
+// it, showing the confirmations meanwhile, and unlocks the resource it pays
+// for. A payment sent before the page was reloaded or closed is resumed.
+export function usePendingPayment({
+  resourceUrl,
+  checkout,
+  ready,
+  setIntent,
+  setIsProcessing,
+  onUnlock,
+}: PendingPaymentOptions) {
+  // Progress of a submitted payment towards the confirmations it needs
+  const [confirmations, setConfirmations] = React.useState<{ current: number; required: number } | null>(null)
+  const [verifiedPayment, setVerifiedPayment] = React.useState<PaymentReceipt | null>(null)
+  const [premiumContent, setPremiumContent] = React.useState<PremiumContent | null>(null)
+  const resumeAttempted = React.useRef(false)
+  const { toast } = useToast()
+
+  React.useEffect(() => {
+    if (premiumContent) onUnlock?.(premiumContent)
+  }, [premiumContent, onUnlock])
+
+  // Polls the backend until it counts the payment, which takes as many
+  // confirmations as the chain and amount call for, showing the progress.
+  // Gives up after CONFIRMATION_TIMEOUT_MS, leaving the payment to be checked
+  // again later.
+  const awaitConfirmations = async (intentId: string) => {
+    const deadline = Date.now() + CONFIRMATION_TIMEOUT_MS
+    try {
+      for (;;) {
+        const verification = await verifyPayment(intentId)
+        setIntent(verification.intent)
+        if (verification.verified || !verification.pending || Date.now() > deadline) {
+          return verification
+        }
+
+        setConfirmations({ current: verification.confirmations ?? 0, required: verification.requiredConfirmations })
+        await new Promise((resolve) => setTimeout(resolve, CONFIRMATION_POLL_INTERVAL_MS))
+      }
+    } finally {
+      setConfirmations(null)
+    }
+  }
+
+  // Retries the protected resource with the payment proof until the server
+  // counts the transfer and answers with the content instead of another 402,
+  // showing the confirmations meanwhile. The backend follows a transaction
+  // sped up in the wallet to its replacement, so the proof keeps the hash sent.
+  const unlockResource = async (submitted: PaymentIntent, payerSignature: string | null) => {
+    const proof = {
+      nonce: submitted.id,
+      txHash: submitted.tx_hash,
+      chainId: submitted.chain_id,
+      asset: submitted.token_address,
+      payerSignature,
+    }
+    const deadline = Date.now() + CONFIRMATION_TIMEOUT_MS
+    let response: ResourceResponse
+    try {
+      for (;;) {
+        response = await requestResource(resourceUrl, proof)
+        if (response.paid || !response.pending || Date.now() > deadline) break
+
+        setConfirmations({ current: response.confirmations ?? 0, required: response.requiredConfirmations })
+        await new Promise((resolve) => setTimeout(resolve, CONFIRMATION_POLL_INTERVAL_MS))
+      }
+    } finally {
+      setConfirmations(null)
+    }
+
+    // A proof unlocks the resource once; a payment confirmed meanwhile, e.g.
+    // from another tab, is exchanged for an access token instead
+    if (response.code === "payment_redeemed") {
+      const verification = await verifyPayment(submitted.id, payerSignature)
+      if (verification.access) {
+        const unlocked = await requestResource(resourceUrl, undefined, verification.access.token)
+        response = { ...unlocked, access: verification.access }
+      }
+    }
+    if (!response.pending) clearPendingPayment(submitted.id)
+
+    const settledIntent = await getPaymentIntent(submitted.id)
+    setIntent(settledIntent)
+
+    if (!response.paid) {
+      // Cancelled from the wallet, or with the Cancel button
+      const cancelled = settledIntent.status === "failed" && Boolean(settledIntent.replaced_tx_hash)
+      toast({
+        title: response.pending
+          ? "Payment not confirmed yet"
+          : cancelled ? "Payment cancelled" : "Payment verification failed",
+        description: response.pending
+          ? `It needs ${response.requiredConfirmations} confirmations. Check its status again in a moment.`
+          : response.error,
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (response.access) saveAccessToken(resourceUrl, response.access)
+    setPremiumContent(response.content)
+    setVerifiedPayment(response.receipt)
+    toast({
+      title: "Payment Successful",
+      description: `Successfully sent ${formatTokenAmount(settledIntent.amount, settledIntent.token)}! Transaction: ${settledIntent.tx_hash}`,
+    })
+  }
+
+  // Only the backend decides whether the transfer actually paid for access
+  const settlePayment = async (submitted: PaymentIntent, payerSignature: string | null) => {
+    if (resourceUrl) return unlockResource(submitted, payerSignature)
+
+    const verification = await awaitConfirmations(submitted.id)
+    if (!verification.pending) clearPendingPayment(submitted.id)
+
+    if (!verification.verified) {
+      // Cancelled from the wallet, or with the Cancel button
+      const cancelled = verification.intent.status === "failed" && Boolean(verification.intent.replaced_tx_hash)
+      toast({
+        title: verification.pending
+          ? "Payment not confirmed yet"
+          : cancelled ? "Payment cancelled" : "Payment verification failed",
+        description: verification.pending
+          ? `It needs ${verification.requiredConfirmations} confirmations. Check its status again in a moment.`
+          : verification.reason,
+        variant: "destructive",
+      })
+      return
+    }
+
+    setVerifiedPayment(verification.payment)
+    toast({
+      title: "Payment Successful",
+      description: `Successfully sent ${formatTokenAmount(verification.intent.amount, verification.intent.token)}! Transaction: ${verification.payment.tx_hash}`,
+    })
+  }
+
+  // Checks again on a payment that wasn't confirmed before polling gave up
+  const retryVerification = async (intent: PaymentIntent) => {
+    setIsProcessing(true)
+    try {
+      const pending = getPendingPayment(checkout)
+      await settlePayment(intent, pending?.intentId === intent.id ? pending.payerSignature ?? null : null)
+    } catch (error) {
+      console.error("Verification error:", error)
+      toast({
+        title: "Payment verification failed",
+        description: "Unable to reach the payment server. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  // Follows a payment sent before the page was reloaded or closed to its
+  // outcome. One the backend never heard of is submitted first.
+  const resumePayment = async (pending: PendingPayment) => {
+    setIsProcessing(true)
+    try {
+      let resumed = await getPaymentIntent(pending.intentId)
+      setIntent(resumed)
+      toast({
+        title: "Resuming your payment",
+        description: `Checking transaction ${formatAddress(pending.txHash)}...`,
+      })
+
+      if (resumed.status === "created") {
+        resumed = await submitPaymentIntent(pending.intentId, pending.txHash, {
+          chainId: pending.chainId,
+          token: pending.token,
+        }, pending.payerSignature ?? null)
+        setIntent(resumed)
+      }
+      await settlePayment(resumed, pending.payerSignature ?? null)
+    } catch (error) {
+      console.error("Error resuming payment:", error)
+      // Only the backend's answer is final; network errors are retried on the next load
+      if (error instanceof PaymentApiError) clearPendingPayment(pending.intentId)
+      toast({
+        title: "Payment verification failed",
+        description: error instanceof PaymentApiError ? error.message : "Unable to reach the payment server. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  // Waits for the checkout to be ready, like the wallet reconnect, so a
+  // paywall's fresh quote doesn't land after the resumed intent
+  React.useEffect(() => {
+    if (!ready || resumeAttempted.current) return
+    resumeAttempted.current = true
+
+    const pending = getPendingPayment(checkout)
+    if (pending) resumePayment(pending)
+  })
+
+  return { confirmations, verifiedPayment, premiumContent, setPremiumContent, settlePayment, retryVerification }
+}
@@ -0,0 +1,11 @@
+import * as React from "react"
+
+import { useWalletProviders } from "@/hooks/use-wallet-providers"
+import { getConnectors } from "@/lib/wallet"
+
+// Every wallet the payer can connect, updated as installed wallets announce themselves.
+export function useWalletConnectors() {
+  const providers = useWalletProviders()
+
+  return React.useMemo(() => getConnectors(providers), [providers])
+}
@@ -0,0 +1,21 @@
+import * as React from "react"
+
+import {
+  getProviders,
+  requestProviders,
+  subscribeProviders,
+  type EIP6963ProviderDetail,
+} from "@/lib/eip6963"
+
+// Wallets that announced themselves through EIP-6963, in announcement order.
+export function useWalletProviders() {
+  const [providers, setProviders] = React.useState<EIP6963ProviderDetail[]>(getProviders)
+
+  React.useEffect(() => {
+    const unsubscribe = subscribeProviders(setProviders)
+    requestProviders()
+    return unsubscribe
+  }, [])
+
+  return providers
+}
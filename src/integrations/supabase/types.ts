@@ -14,7 +14,636 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      entitlements: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          payment_id: string
+          resource: string
+          user_id: string | null
+          wallet_address: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          payment_id: string
+          resource: string
+          user_id?: string | null
+          wallet_address: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          payment_id?: string
+          resource?: string
+          user_id?: string | null
+          wallet_address?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "entitlements_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: true
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incoming_transfers: {
+        Row: {
+          amount: number
+          block_hash: string
+          block_number: number
+          chain_id: number
+          created_at: string
+          from_address: string
+          id: string
+          intent_id: string | null
+          log_index: number
+          payment_id: string | null
+          status: Database["public"]["Enums"]["incoming_transfer_status"]
+          to_address: string
+          token_address: string
+          tx_hash: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          block_hash: string
+          block_number: number
+          chain_id: number
+          created_at?: string
+          from_address: string
+          id?: string
+          intent_id?: string | null
+          log_index: number
+          payment_id?: string | null
+          status?: Database["public"]["Enums"]["incoming_transfer_status"]
+          to_address: string
+          token_address: string
+          tx_hash: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          block_hash?: string
+          block_number?: number
+          chain_id?: number
+          created_at?: string
+          from_address?: string
+          id?: string
+          intent_id?: string | null
+          log_index?: number
+          payment_id?: string | null
+          status?: Database["public"]["Enums"]["incoming_transfer_status"]
+          to_address?: string
+          token_address?: string
+          tx_hash?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incoming_transfers_intent_id_fkey"
+            columns: ["intent_id"]
+            isOneToOne: false
+            referencedRelation: "payment_intents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incoming_transfers_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_authorizations: {
+        Row: {
+          authorized_amount: number
+          captured_amount: number
+          chain_id: number
+          created_at: string
+          id: string
+          intent_id: string
+          owner_address: string
+          permit_deadline: string
+          permit_nonce: string
+          permit_signature: string
+          permit_tx_hash: string | null
+          spender_address: string
+          status: Database["public"]["Enums"]["payment_authorization_status"]
+          token_address: string
+          updated_at: string
+        }
+        Insert: {
+          authorized_amount: number
+          captured_amount?: number
+          chain_id: number
+          created_at?: string
+          id?: string
+          intent_id: string
+          owner_address: string
+          permit_deadline: string
+          permit_nonce: string
+          permit_signature: string
+          permit_tx_hash?: string | null
+          spender_address: string
+          status?: Database["public"]["Enums"]["payment_authorization_status"]
+          token_address: string
+          updated_at?: string
+        }
+        Update: {
+          authorized_amount?: number
+          captured_amount?: number
+          chain_id?: number
+          created_at?: string
+          id?: string
+          intent_id?: string
+          owner_address?: string
+          permit_deadline?: string
+          permit_nonce?: string
+          permit_signature?: string
+          permit_tx_hash?: string | null
+          spender_address?: string
+          status?: Database["public"]["Enums"]["payment_authorization_status"]
+          token_address?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_authorizations_intent_id_fkey"
+            columns: ["intent_id"]
+            isOneToOne: true
+            referencedRelation: "payment_intents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_captures: {
+        Row: {
+          amount: number
+          authorization_id: string
+          created_at: string
+          id: string
+          tx_hash: string
+        }
+        Insert: {
+          amount: number
+          authorization_id: string
+          created_at?: string
+          id?: string
+          tx_hash: string
+        }
+        Update: {
+          amount?: number
+          authorization_id?: string
+          created_at?: string
+          id?: string
+          tx_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_captures_authorization_id_fkey"
+            columns: ["authorization_id"]
+            isOneToOne: false
+            referencedRelation: "payment_authorizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_intents: {
+        Row: {
+          amount: number
+          chain_id: number
+          claimed_at: string | null
+          client_key: string | null
+          created_at: string
+          exchange_rate: number | null
+          expires_at: string
+          failure_reason: string | null
+          id: string
+          link_signature: string | null
+          memo: string | null
+          payer_address: string | null
+          price_amount: number | null
+          price_currency: string | null
+          product_id: string | null
+          recipient_address: string
+          replaced_tx_hash: string | null
+          resource: string | null
+          slippage_bps: number
+          status: Database["public"]["Enums"]["payment_intent_status"]
+          token: string
+          token_address: string
+          tx_hash: string | null
+          tx_nonce: number | null
+          updated_at: string
+          user_id: string | null
+          watch_from_block: number | null
+        }
+        Insert: {
+          amount: number
+          chain_id: number
+          claimed_at?: string | null
+          client_key?: string | null
+          created_at?: string
+          exchange_rate?: number | null
+          expires_at: string
+          failure_reason?: string | null
+          id?: string
+          link_signature?: string | null
+          memo?: string | null
+          payer_address?: string | null
+          price_amount?: number | null
+          price_currency?: string | null
+          product_id?: string | null
+          recipient_address: string
+          replaced_tx_hash?: string | null
+          resource?: string | null
+          slippage_bps?: number
+          status?: Database["public"]["Enums"]["payment_intent_status"]
+          token: string
+          token_address: string
+          tx_hash?: string | null
+          tx_nonce?: number | null
+          updated_at?: string
+          user_id?: string | null
+          watch_from_block?: number | null
+        }
+        Update: {
+          amount?: number
+          chain_id?: number
+          claimed_at?: string | null
+          client_key?: string | null
+          created_at?: string
+          exchange_rate?: number | null
+          expires_at?: string
+          failure_reason?: string | null
+          id?: string
+          link_signature?: string | null
+          memo?: string | null
+          payer_address?: string | null
+          price_amount?: number | null
+          price_currency?: string | null
+          product_id?: string | null
+          recipient_address?: string
+          replaced_tx_hash?: string | null
+          resource?: string | null
+          slippage_bps?: number
+          status?: Database["public"]["Enums"]["payment_intent_status"]
+          token?: string
+          token_address?: string
+          tx_hash?: string | null
+          tx_nonce?: number | null
+          updated_at?: string
+          user_id?: string | null
+          watch_from_block?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_intents_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          block_hash: string | null
+          block_number: number
+          chain_id: number
+          created_at: string
+          id: string
+          intent_id: string | null
+          payer_address: string
+          recipient_address: string
+          reverted_at: string | null
+          token_address: string
+          tx_hash: string
+          verified_at: string
+        }
+        Insert: {
+          amount: number
+          block_hash?: string | null
+          block_number: number
+          chain_id: number
+          created_at?: string
+          id?: string
+          intent_id?: string | null
+          payer_address: string
+          recipient_address: string
+          reverted_at?: string | null
+          token_address: string
+          tx_hash: string
+          verified_at?: string
+        }
+        Update: {
+          amount?: number
+          block_hash?: string | null
+          block_number?: number
+          chain_id?: number
+          created_at?: string
+          id?: string
+          intent_id?: string | null
+          payer_address?: string
+          recipient_address?: string
+          reverted_at?: string | null
+          token_address?: string
+          tx_hash?: string
+          verified_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_intent_id_fkey"
+            columns: ["intent_id"]
+            isOneToOne: true
+            referencedRelation: "payment_intents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          accepted_tokens: string[] | null
+          active: boolean
+          amount_step: number
+          created_at: string
+          currency: string
+          description: string
+          id: string
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          presets: number[]
+          price_amount: number
+          pricing: string
+          updated_at: string
+        }
+        Insert: {
+          accepted_tokens?: string[] | null
+          active?: boolean
+          amount_step?: number
+          created_at?: string
+          currency: string
+          description?: string
+          id: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name: string
+          presets?: number[]
+          price_amount: number
+          pricing: string
+          updated_at?: string
+        }
+        Update: {
+          accepted_tokens?: string[] | null
+          active?: boolean
+          amount_step?: number
+          created_at?: string
+          currency?: string
+          description?: string
+          id?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name?: string
+          presets?: number[]
+          price_amount?: number
+          pricing?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      siwe_nonces: {
+        Row: {
+          created_at: string
+          expires_at: string
+          nonce: string
+          used_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          nonce: string
+          used_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          nonce?: string
+          used_at?: string | null
+        }
+        Relationships: []
+      }
+      subscription_charges: {
+        Row: {
+          amount: number
+          created_at: string
+          failure_reason: string | null
+          id: string
+          payment_id: string | null
+          period_end: string
+          period_start: string
+          status: string
+          subscription_id: string
+          tx_hash: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          payment_id?: string | null
+          period_end: string
+          period_start: string
+          status: string
+          subscription_id: string
+          tx_hash?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          payment_id?: string | null
+          period_end?: string
+          period_start?: string
+          status?: string
+          subscription_id?: string
+          tx_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscription_charges_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_charges_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subscription_plans: {
+        Row: {
+          active: boolean
+          billing_interval: string
+          created_at: string
+          description: string
+          grace_period_seconds: number
+          id: string
+          interval_count: number
+          name: string
+          price_amount: number
+          resource: string
+          token: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          billing_interval: string
+          created_at?: string
+          description?: string
+          grace_period_seconds?: number
+          id: string
+          interval_count?: number
+          name: string
+          price_amount: number
+          resource: string
+          token?: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          billing_interval?: string
+          created_at?: string
+          description?: string
+          grace_period_seconds?: number
+          id?: string
+          interval_count?: number
+          name?: string
+          price_amount?: number
+          resource?: string
+          token?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      subscriptions: {
+        Row: {
+          allowance_amount: number
+          cancel_at_period_end: boolean
+          canceled_at: string | null
+          chain_id: number
+          created_at: string
+          current_period_end: string
+          current_period_start: string
+          failure_reason: string | null
+          id: string
+          permit_tx_hash: string | null
+          plan_id: string
+          spender_address: string
+          status: Database["public"]["Enums"]["subscription_status"]
+          subscriber_address: string
+          token_address: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          allowance_amount: number
+          cancel_at_period_end?: boolean
+          canceled_at?: string | null
+          chain_id: number
+          created_at?: string
+          current_period_end: string
+          current_period_start: string
+          failure_reason?: string | null
+          id?: string
+          permit_tx_hash?: string | null
+          plan_id: string
+          spender_address: string
+          status?: Database["public"]["Enums"]["subscription_status"]
+          subscriber_address: string
+          token_address: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          allowance_amount?: number
+          cancel_at_period_end?: boolean
+          canceled_at?: string | null
+          chain_id?: number
+          created_at?: string
+          current_period_end?: string
+          current_period_start?: string
+          failure_reason?: string | null
+          id?: string
+          permit_tx_hash?: string | null
+          plan_id?: string
+          spender_address?: string
+          status?: Database["public"]["Enums"]["subscription_status"]
+          subscriber_address?: string
+          token_address?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transfer_index_cursors: {
+        Row: {
+          chain_id: number
+          last_block: number
+          updated_at: string
+        }
+        Insert: {
+          chain_id: number
+          last_block: number
+          updated_at?: string
+        }
+        Update: {
+          chain_id?: number
+          last_block?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      wallet_accounts: {
+        Row: {
+          address: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -23,7 +652,21 @@ export type Database = {
       [_ in never]: never
     }
     Enums: {
-      [_ in never]: never
+      incoming_transfer_status: "pending" | "confirmed" | "reorged"
+      payment_authorization_status:
+        | "authorized"
+        | "partially_captured"
+        | "capturing"
+        | "captured"
+        | "voided"
+        | "expired"
+      payment_intent_status:
+        | "created"
+        | "submitted"
+        | "confirmed"
+        | "failed"
+        | "expired"
+      subscription_status: "active" | "past_due" | "canceled" | "expired"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -150,6 +793,24 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      incoming_transfer_status: ["pending", "confirmed", "reorged"],
+      payment_authorization_status: [
+        "authorized",
+        "partially_captured",
+        "capturing",
+        "captured",
+        "voided",
+        "expired",
+      ],
+      payment_intent_status: [
+        "created",
+        "submitted",
+        "confirmed",
+        "failed",
+        "expired",
+      ],
+      subscription_status: ["active", "past_due", "canceled", "expired"],
+    },
   },
 } as const
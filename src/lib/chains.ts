@@ -0,0 +1,308 @@
+import { ethers } from "ethers";
+
+// Chains and tokens the checkout can pay on. The merchant decides which of
+// these it accepts (see payment-config and the 402 requirements); this
+// registry only knows how to talk to them. Keep in sync with
+// supabase/functions/_shared/chains.ts.
+export type TokenSymbol = "USDC" | "USDT" | "DAI" | "EURC" | "ETH";
+
+// Decimals are deliberately not listed: they differ per token (and for
+// bridged tokens per chain), so they're read from the contract's decimals().
+export interface TokenInfo {
+  symbol: TokenSymbol;
+  name: string;
+  // Fiat currency the token is pegged to, null for native ETH
+  currency: "USD" | "EUR" | null;
+  // Decimal places amounts are quoted and shown in
+  precision: number;
+  native?: boolean;
+  // Supports EIP-3009 transferWithAuthorization (gasless payments)
+  eip3009?: boolean;
+  // Supports EIP-2612 permit (authorize now, capture later)
+  eip2612?: boolean;
+}
+
+export interface TokenConfig extends TokenInfo {
+  address: string;
+}
+
+export interface ChainConfig {
+  id: number;
+  name: string;
+  testnet: boolean;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  rpcUrls: string[];
+  blockExplorerUrl?: string;
+  // Where testnet tokens can be requested
+  faucetUrl?: string;
+  // OP Stack rollup, whose transactions also pay an L1 data fee (see gas.ts)
+  opStack?: boolean;
+  // Token contract addresses; native ETH is listed with NATIVE_TOKEN_ADDRESS
+  // where it is the chain's gas token
+  tokens: Partial<Record<TokenSymbol, string>>;
+}
+
+export const TOKENS: Record<TokenSymbol, TokenInfo> = {
+  USDC: { symbol: "USDC", name: "USD Coin", currency: "USD", precision: 2, eip3009: true, eip2612: true },
+  USDT: { symbol: "USDT", name: "Tether USD", currency: "USD", precision: 2 },
+  DAI: { symbol: "DAI", name: "Dai", currency: "USD", precision: 2 },
+  EURC: { symbol: "EURC", name: "Euro Coin", currency: "EUR", precision: 2, eip3009: true, eip2612: true },
+  ETH: { symbol: "ETH", name: "Ether", currency: null, precision: 6, native: true },
+};
+
+// EIP-7528 placeholder address for a chain's native currency
+export const NATIVE_TOKEN_ADDRESS = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+const ETH = { name: "ETH", symbol: "ETH", decimals: 18 };
+const CIRCLE_FAUCET_URL = "https://faucet.circle.com";
+
+export const LOCAL_CHAIN_ID = 31337;
+
+export const CHAINS: ChainConfig[] = [
+  {
+    id: 1,
+    name: "Ethereum",
+    testnet: false,
+    nativeCurrency: ETH,
+    rpcUrls: ["https://ethereum-rpc.publicnode.com"],
+    blockExplorerUrl: "https://etherscan.io",
+    tokens: {
+      USDC: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      USDT: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+      DAI: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
+      EURC: "0x1aBaEA1f7C830bD89Acc67eC4af516284b1bC33c",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 11155111,
+    name: "Sepolia",
+    testnet: true,
+    nativeCurrency: ETH,
+    rpcUrls: ["https://ethereum-sepolia-rpc.publicnode.com"],
+    blockExplorerUrl: "https://sepolia.etherscan.io",
+    faucetUrl: CIRCLE_FAUCET_URL,
+    tokens: {
+      USDC: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+      EURC: "0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 8453,
+    name: "Base",
+    testnet: false,
+    opStack: true,
+    nativeCurrency: ETH,
+    rpcUrls: ["https://mainnet.base.org"],
+    blockExplorerUrl: "https://basescan.org",
+    tokens: {
+      USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      USDT: "0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2",
+      DAI: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
+      EURC: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 84532,
+    name: "Base Sepolia",
+    testnet: true,
+    opStack: true,
+    nativeCurrency: ETH,
+    rpcUrls: ["https://sepolia.base.org"],
+    blockExplorerUrl: "https://sepolia-explorer.base.org",
+    faucetUrl: CIRCLE_FAUCET_URL,
+    tokens: {
+      USDC: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      EURC: "0x808456652fdb597867f38412077A9182bf77359F",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 10,
+    name: "OP Mainnet",
+    testnet: false,
+    opStack: true,
+    nativeCurrency: ETH,
+    rpcUrls: ["https://mainnet.optimism.io"],
+    blockExplorerUrl: "https://optimistic.etherscan.io",
+    tokens: {
+      USDC: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+      USDT: "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58",
+      DAI: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 11155420,
+    name: "OP Sepolia",
+    testnet: true,
+    opStack: true,
+    nativeCurrency: ETH,
+    rpcUrls: ["https://sepolia.optimism.io"],
+    blockExplorerUrl: "https://sepolia-optimism.etherscan.io",
+    faucetUrl: CIRCLE_FAUCET_URL,
+    tokens: {
+      USDC: "0x5fd84259d66Cd46123540766Be93DFE6D43130D7",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 42161,
+    name: "Arbitrum One",
+    testnet: false,
+    nativeCurrency: ETH,
+    rpcUrls: ["https://arb1.arbitrum.io/rpc"],
+    blockExplorerUrl: "https://arbiscan.io",
+    tokens: {
+      USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+      USDT: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
+      DAI: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 421614,
+    name: "Arbitrum Sepolia",
+    testnet: true,
+    nativeCurrency: ETH,
+    rpcUrls: ["https://sepolia-rollup.arbitrum.io/rpc"],
+    blockExplorerUrl: "https://sepolia.arbiscan.io",
+    faucetUrl: CIRCLE_FAUCET_URL,
+    tokens: {
+      USDC: "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 137,
+    name: "Polygon",
+    testnet: false,
+    nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+    rpcUrls: ["https://polygon-rpc.com"],
+    blockExplorerUrl: "https://polygonscan.com",
+    tokens: {
+      USDC: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+      USDT: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
+      DAI: "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063",
+    },
+  },
+  {
+    id: 80002,
+    name: "Polygon Amoy",
+    testnet: true,
+    nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+    rpcUrls: ["https://rpc-amoy.polygon.technology"],
+    blockExplorerUrl: "https://amoy.polygonscan.com",
+    faucetUrl: CIRCLE_FAUCET_URL,
+    tokens: {
+      USDC: "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582",
+    },
+  },
+  {
+    // Anvil, usually forking Base Sepolia so the real USDC and EURC contracts exist
+    id: LOCAL_CHAIN_ID,
+    name: "Localhost",
+    testnet: true,
+    nativeCurrency: ETH,
+    rpcUrls: ["http://127.0.0.1:8545"],
+    tokens: {
+      USDC: import.meta.env.VITE_LOCAL_USDC_ADDRESS ?? "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      EURC: import.meta.env.VITE_LOCAL_EURC_ADDRESS ?? "0x808456652fdb597867f38412077A9182bf77359F",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+];
+
+export const DEFAULT_CHAIN_ID = 84532;
+
+export function getChain(chainId: number) {
+  return CHAINS.find((chain) => chain.id === chainId);
+}
+
+export function getToken(chainId: number, symbol: string): TokenConfig | undefined {
+  const address = getChain(chainId)?.tokens[symbol as TokenSymbol];
+  if (!address) return undefined;
+
+  return { ...TOKENS[symbol as TokenSymbol], address };
+}
+
+const providers = new Map<number, ethers.JsonRpcProvider>();
+
+// Read-only provider on the chain's public RPC. Balances, receipts and
+// contract reads go here; only signing goes through the payer's wallet.
+export function getProvider(chainId: number) {
+  const chain = getChain(chainId);
+  if (!chain) throw new Error(`Unsupported chain ${chainId}`);
+
+  if (!providers.has(chainId)) {
+    providers.set(chainId, new ethers.JsonRpcProvider(chain.rpcUrls[0], chainId, { staticNetwork: true }));
+  }
+  return providers.get(chainId);
+}
+
+// Tokens available on a chain, limited to `accepted` and in that order.
+export function getChainTokens(chainId: number, accepted: string[]) {
+  return accepted
+    .map((symbol) => getToken(chainId, symbol))
+    .filter((token): token is TokenConfig => Boolean(token));
+}
+
+const CURRENCY_SIGNS = { USD: "$", EUR: "€" };
+
+// "$" for the USD stablecoins, "€" for EURC, "" for ETH
+export function currencySign(symbol: string) {
+  const currency = TOKENS[symbol as TokenSymbol]?.currency;
+  return currency ? CURRENCY_SIGNS[currency] : "";
+}
+
+// "$" for USD prices, "€" for EUR ones
+export function fiatSign(currency: string) {
+  return CURRENCY_SIGNS[currency as keyof typeof CURRENCY_SIGNS] ?? "";
+}
+
+// "$5.00", "€5.00" for merchant prices
+export function formatFiatAmount(amount: number | string, currency: string) {
+  const sign = CURRENCY_SIGNS[currency as keyof typeof CURRENCY_SIGNS];
+  const value = Number(amount).toFixed(2);
+  return sign ? `${sign}${value}` : `${value} ${currency}`;
+}
+
+// "$5.00 USDC", "€5.00 EURC", "0.010000 ETH"
+export function formatTokenAmount(amount: number | string, symbol: string) {
+  const token = TOKENS[symbol as TokenSymbol];
+  if (!token) return `${amount} ${symbol}`;
+
+  return `${currencySign(symbol)}${Number(amount).toFixed(token.precision)} ${symbol}`;
+}
+
+// "0x1234...abcd"
+export function formatAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+// Wallets speak hex chain ids (EIP-1193), the registry decimal ones.
+export function toHexChainId(chainId: number) {
+  return ethers.toQuantity(chainId);
+}
+
+// Parameters for wallet_addEthereumChain (EIP-3085).
+export function toAddChainParameter(chain: ChainConfig) {
+  return {
+    chainId: toHexChainId(chain.id),
+    chainName: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: chain.rpcUrls,
+    blockExplorerUrls: chain.blockExplorerUrl ? [chain.blockExplorerUrl] : undefined,
+  };
+}
+
+export function getExplorerTxUrl(chainId: number, txHash: string) {
+  const explorer = getChain(chainId)?.blockExplorerUrl;
+  return explorer ? `${explorer}/tx/${txHash}` : undefined;
+}
@@ -0,0 +1,55 @@
+import { ethers } from "ethers";
+import { getTokenDomain } from "@/lib/eip712";
+import type { WalletConnector } from "@/lib/wallet";
+
+// EIP-2612 permit: the payer approves the merchant's spender by signature and
+// the merchant pulls the funds later with transferFrom.
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+// Values are decimal strings so the permit survives JSON transport.
+export interface Permit {
+  owner: string;
+  spender: string;
+  value: string;
+  nonce: string;
+  deadline: string;
+}
+
+// How long the merchant has to capture before the permit lapses.
+export const PERMIT_VALIDITY_SECONDS = 7 * 24 * 60 * 60;
+
+export async function buildPermit(
+  token: ethers.Contract,
+  owner: string,
+  spender: string,
+  value: bigint
+): Promise<Permit> {
+  const nonce: bigint = await token.nonces(owner);
+
+  return {
+    owner,
+    spender,
+    value: value.toString(),
+    nonce: nonce.toString(),
+    deadline: (Math.floor(Date.now() / 1000) + PERMIT_VALIDITY_SECONDS).toString(),
+  };
+}
+
+// Signed by `permit.owner` in the payer's wallet
+export async function signPermit(
+  wallet: WalletConnector,
+  token: ethers.Contract,
+  chainId: number,
+  permit: Permit
+) {
+  const domain = await getTokenDomain(token, chainId);
+  return wallet.signTypedData(permit.owner, domain, PERMIT_TYPES, { ...permit });
+}
@@ -0,0 +1,64 @@
+import { ethers } from "ethers";
+import { getTokenDomain } from "@/lib/eip712";
+import type { WalletConnector } from "@/lib/wallet";
+
+// EIP-3009 transferWithAuthorization as implemented by USDC: the payer signs
+// an EIP-712 message and a facilitator submits (and pays gas for) the transfer.
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+// Values are decimal strings so the authorization survives JSON transport.
+export interface TransferAuthorization {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: string;
+}
+
+// Small backdating window for payer clocks running ahead of the chain.
+const VALID_AFTER_SKEW_SECONDS = 60;
+const MAX_VALIDITY_SECONDS = 60 * 60;
+
+interface AuthorizationParams {
+  from: string;
+  to: string;
+  value: bigint;
+  // The authorization never outlives the quote it pays for
+  expiresAt: string;
+}
+
+export function buildTransferAuthorization({ from, to, value, expiresAt }: AuthorizationParams): TransferAuthorization {
+  const now = Math.floor(Date.now() / 1000);
+  const quoteExpiry = Math.floor(new Date(expiresAt).getTime() / 1000);
+
+  return {
+    from,
+    to,
+    value: value.toString(),
+    validAfter: (now - VALID_AFTER_SKEW_SECONDS).toString(),
+    validBefore: Math.min(quoteExpiry, now + MAX_VALIDITY_SECONDS).toString(),
+    // Random 32-byte nonce; USDC tracks used nonces per authorizer
+    nonce: ethers.hexlify(ethers.randomBytes(32)),
+  };
+}
+
+// Signed by `authorization.from` in the payer's wallet
+export async function signTransferAuthorization(
+  wallet: WalletConnector,
+  token: ethers.Contract,
+  chainId: number,
+  authorization: TransferAuthorization
+) {
+  const domain = await getTokenDomain(token, chainId);
+  return wallet.signTypedData(authorization.from, domain, TRANSFER_WITH_AUTHORIZATION_TYPES, { ...authorization });
+}
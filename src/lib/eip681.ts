@@ -0,0 +1,7 @@
+// EIP-681 payment request for an ERC-20 transfer, e.g.
+// ethereum:0x036c...cf7e@84532/transfer?address=0x75bb...5f25&uint256=12500000
+// Phone wallets scanning it as a QR code prefill the transfer on the right
+// chain. `value` is in the token's base units.
+export function buildTransferUri(chainId: number, tokenAddress: string, recipient: string, value: bigint) {
+  return `ethereum:${tokenAddress}@${chainId}/transfer?address=${recipient}&uint256=${value.toString()}`;
+}
@@ -0,0 +1,74 @@
+// EIP-6963 multi injected provider discovery: every installed wallet
+// announces its own EIP-1193 provider with a name and icon, instead of all of
+// them racing to own window.ethereum.
+
+// Minimal EIP-1193 provider, as injected by browser wallets
+export interface EIP1193Provider {
+  request(args: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<unknown>;
+  on?(event: string, listener: (...args: unknown[]) => void): void;
+  removeListener?(event: string, listener: (...args: unknown[]) => void): void;
+}
+
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  // Data URI of the wallet's icon
+  icon: string;
+  // Reverse DNS name, e.g. "io.metamask"
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EIP1193Provider;
+}
+
+interface EIP6963AnnounceProviderEvent extends CustomEvent<EIP6963ProviderDetail> {
+  type: "eip6963:announceProvider";
+}
+
+declare global {
+  interface Window {
+    // Provider of whichever wallet won the race for it
+    ethereum?: EIP1193Provider;
+  }
+
+  interface WindowEventMap {
+    "eip6963:announceProvider": EIP6963AnnounceProviderEvent;
+  }
+}
+
+let providers: EIP6963ProviderDetail[] = [];
+const listeners: Array<(providers: EIP6963ProviderDetail[]) => void> = [];
+let discovering = false;
+
+function handleAnnouncement(event: EIP6963AnnounceProviderEvent) {
+  const detail = event.detail;
+  if (!detail?.info?.uuid || !detail.provider) return;
+
+  // Wallets re-announce on every request; keep one entry per wallet
+  providers = [...providers.filter((known) => known.info.uuid !== detail.info.uuid), detail];
+  listeners.forEach((listener) => listener(providers));
+}
+
+// Starts listening for announcements (once) and asks installed wallets to
+// announce themselves again.
+export function requestProviders() {
+  if (!discovering) {
+    window.addEventListener("eip6963:announceProvider", handleAnnouncement);
+    discovering = true;
+  }
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+}
+
+export function getProviders() {
+  return providers;
+}
+
+export function subscribeProviders(listener: (providers: EIP6963ProviderDetail[]) => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
@@ -0,0 +1,13 @@
+import { ethers } from "ethers";
+
+// EIP-712 domain of a token that supports permit / transferWithAuthorization.
+// Name and version are read from the contract since USDC differs per chain.
+export async function getTokenDomain(token: ethers.Contract, chainId: number) {
+  const [name, version] = await Promise.all([token.name(), token.version()]);
+  return {
+    name,
+    version,
+    chainId,
+    verifyingContract: await token.getAddress(),
+  };
+}
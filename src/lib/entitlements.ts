@@ -0,0 +1,43 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// Access to a resource granted by a verified payment (see
+// supabase/functions/_shared/entitlements.ts).
+export type Entitlement = Tables<"entitlements">;
+
+// Short-lived proof of an entitlement, sent back as X-ACCESS-TOKEN
+export interface AccessToken {
+  token: string;
+  expiresAt: string;
+}
+
+// Tokens are kept per resource URL so a returning payer skips the 402
+const ACCESS_TOKENS_KEY = "entitlements.accessTokens";
+
+function readAccessTokens(): Record<string, AccessToken> {
+  try {
+    return JSON.parse(localStorage.getItem(ACCESS_TOKENS_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+function writeAccessTokens(tokens: Record<string, AccessToken>) {
+  localStorage.setItem(ACCESS_TOKENS_KEY, JSON.stringify(tokens));
+}
+
+// The stored token for `resourceUrl`, unless it has expired
+export function getAccessToken(resourceUrl: string) {
+  const access = readAccessTokens()[resourceUrl];
+  if (!access || new Date(access.expiresAt).getTime() <= Date.now()) return null;
+  return access;
+}
+
+export function saveAccessToken(resourceUrl: string, access: AccessToken) {
+  writeAccessTokens({ ...readAccessTokens(), [resourceUrl]: access });
+}
+
+export function clearAccessToken(resourceUrl: string) {
+  const tokens = readAccessTokens();
+  delete tokens[resourceUrl];
+  writeAccessTokens(tokens);
+}
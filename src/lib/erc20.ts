@@ -0,0 +1,61 @@
+import { ethers } from "ethers";
+import { getChain, getProvider, type TokenConfig } from "@/lib/chains";
+import type { WalletTransaction } from "@/lib/wallet";
+
+// ERC-20 ABI for transfer function, plus the EIP-712 domain getters and
+// EIP-2612 permit functions USDC and EURC expose for signature-based payments
+export const ERC20_ABI = [
+  "function transfer(address to, uint256 amount) public returns (bool)",
+  "function transferFrom(address from, address to, uint256 amount) public returns (bool)",
+  "function balanceOf(address account) public view returns (uint256)",
+  "function allowance(address owner, address spender) public view returns (uint256)",
+  "function decimals() public view returns (uint8)",
+  "function name() public view returns (string)",
+  "function version() public view returns (string)",
+  "function nonces(address owner) public view returns (uint256)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) public"
+];
+
+// The token's contract on the chain's RPC, for reads and for the EIP-712
+// domain of signature-based payments
+export function getTokenContract(chainId: number, token: TokenConfig) {
+  return new ethers.Contract(token.address, ERC20_ABI, getProvider(chainId));
+}
+
+// The payer's transfer of `value` to `recipient`; native ETH is sent as the
+// transaction value
+export function buildTransfer(chainId: number, token: TokenConfig, from: string, recipient: string, value: bigint): WalletTransaction {
+  return token.native
+    ? { from, to: recipient, value, chainId }
+    : {
+      from,
+      to: token.address,
+      chainId,
+      data: new ethers.Interface(ERC20_ABI).encodeFunctionData("transfer", [recipient, value])
+    };
+}
+
+// Decimals differ per token (USDC has 6, DAI 18), so they're read from the
+// contract once per chain and cached
+const tokenDecimals = new Map<string, number>();
+
+export async function readTokenDecimals(contract: ethers.Contract, chainId: number) {
+  const key = `${chainId}:${(await contract.getAddress()).toLowerCase()}`;
+  if (!tokenDecimals.has(key)) {
+    tokenDecimals.set(key, Number(await contract.decimals()));
+  }
+  return tokenDecimals.get(key);
+}
+
+// Balance of `token` in base units, with the decimals needed to format it
+export async function readBalance(chainId: number, token: TokenConfig, address: string) {
+  if (token.native) {
+    return {
+      value: await getProvider(chainId).getBalance(address),
+      decimals: getChain(chainId).nativeCurrency.decimals
+    };
+  }
+
+  const contract = getTokenContract(chainId, token);
+  return { value: (await contract.balanceOf(address)) as bigint, decimals: await readTokenDecimals(contract, chainId) };
+}
@@ -0,0 +1,73 @@
+import { ethers } from "ethers";
+import { getChain, getProvider } from "@/lib/chains";
+import type { WalletTransaction } from "@/lib/wallet";
+
+// Network fee of a transaction before the payer signs it, and whether their
+// native balance covers it. Without this the wallet only fails with
+// "insufficient funds" once the payer has confirmed.
+export interface FeeEstimate {
+  gasLimit: bigint;
+  // In wei, at the current gas price, L1 data fee included
+  fee: bigint;
+  // What an OP Stack rollup charges for posting the transaction to
+  // Ethereum; 0n on other chains
+  l1Fee: bigint;
+  balance: bigint;
+  // What the balance lacks to pay the most the fee can cost and the value
+  // sent, 0n if nothing
+  shortfall: bigint;
+}
+
+// OP Stack predeploy that prices a transaction's L1 data fee
+const GAS_PRICE_ORACLE = "0x420000000000000000000000000000000000000F";
+const GAS_PRICE_ORACLE_ABI = ["function getL1Fee(bytes data) view returns (uint256)"];
+
+// Rollups like Base and OP Mainnet charge for the transaction's bytes posted
+// to Ethereum on top of the L2 gas, often the larger part of the fee. The
+// oracle prices them from the unsigned transaction as the wallet will send it.
+async function estimateL1Fee(
+  provider: ethers.JsonRpcProvider,
+  chainId: number,
+  { from, to, value, data }: WalletTransaction,
+  gasLimit: bigint,
+  feeData: ethers.FeeData
+) {
+  const unsigned = ethers.Transaction.from({
+    type: 2,
+    chainId,
+    nonce: await provider.getTransactionCount(from, "pending"),
+    gasLimit,
+    maxFeePerGas: feeData.maxFeePerGas ?? feeData.gasPrice,
+    maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? 0n,
+    to,
+    value: value ?? 0n,
+    data: data ?? "0x",
+  });
+  const oracle = new ethers.Contract(GAS_PRICE_ORACLE, GAS_PRICE_ORACLE_ABI, provider);
+  return (await oracle.getL1Fee(unsigned.unsignedSerialized)) as bigint;
+}
+
+export async function estimateFee(chainId: number, transaction: WalletTransaction): Promise<FeeEstimate> {
+  const { from, to, value, data } = transaction;
+  const provider = getProvider(chainId);
+  const [gasLimit, feeData, balance] = await Promise.all([
+    provider.estimateGas({ from, to, value, data }),
+    provider.getFeeData(),
+    provider.getBalance(from),
+  ]);
+
+  const l1Fee = getChain(chainId)?.opStack ? await estimateL1Fee(provider, chainId, transaction, gasLimit, feeData) : 0n;
+  const fee = gasLimit * (feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n) + l1Fee;
+  // An EIP-1559 wallet only sends what the balance covers at the fee cap,
+  // though it's refunded whatever the block's base fee leaves
+  const maxFee = gasLimit * (feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n) + l1Fee;
+  const needed = maxFee + (value ?? 0n);
+  return { gasLimit, fee, l1Fee, balance, shortfall: needed > balance ? needed - balance : 0n };
+}
+
+// "0.000042 ETH": three significant digits, as fees range from whole ether on
+// a busy mainnet to fractions of a gwei on rollups
+export function formatNativeAmount(wei: bigint, symbol: string) {
+  const amount = Number(ethers.formatEther(wei)).toLocaleString("en-US", { maximumSignificantDigits: 3 });
+  return `${amount} ${symbol}`;
+}
@@ -0,0 +1,75 @@
+import { TOKENS, type TokenSymbol } from "@/lib/chains";
+import { invokeFunction, type PaymentIntent, type PaymentTarget } from "@/lib/payments";
+
+// Shareable payment link (see supabase/functions/_shared/links.ts), e.g.
+// /pay?amount=12.50&token=USDC&memo=INV-42. Unsigned links only pre-fill the
+// checkout; links signed by the merchant also name the recipient, and the
+// backend charges exactly what they say.
+export interface PaymentLink {
+  // Token units, as written in the link
+  amount: string;
+  token: TokenSymbol;
+  memo: string | null;
+  recipient: string | null;
+  // Unix seconds
+  expires: number | null;
+  signature: string | null;
+}
+
+export const PAYMENT_LINK_PATH = "/pay";
+
+// Reads a link from the /pay query string; null when it has no usable amount
+// or token
+export function parsePaymentLink(params: URLSearchParams): PaymentLink | null {
+  const amount = params.get("amount");
+  const token = params.get("token")?.toUpperCase() ?? "USDC";
+  if (!amount || !/^\d+(\.\d+)?$/.test(amount) || Number(amount) <= 0 || !(token in TOKENS)) {
+    return null;
+  }
+
+  const expires = params.get("expires");
+  return {
+    amount,
+    token: token as TokenSymbol,
+    memo: params.get("memo"),
+    recipient: params.get("recipient"),
+    expires: expires ? Number(expires) : null,
+    signature: params.get("sig"),
+  };
+}
+
+export function isPaymentLinkExpired(link: Pick<PaymentLink, "expires">) {
+  return link.expires !== null && link.expires * 1000 <= Date.now();
+}
+
+// Absolute URL of the link on this site
+export function paymentLinkUrl(link: PaymentLink) {
+  const params = new URLSearchParams({ amount: link.amount, token: link.token });
+  if (link.memo) params.set("memo", link.memo);
+  if (link.recipient) params.set("recipient", link.recipient);
+  if (link.expires !== null) params.set("expires", String(link.expires));
+  if (link.signature) params.set("sig", link.signature);
+
+  return `${window.location.origin}${PAYMENT_LINK_PATH}?${params}`;
+}
+
+// Has the backend sign a link; needs the merchant's API key
+export async function signPaymentLink(
+  merchantKey: string,
+  fields: { amount: string; token: TokenSymbol; memo?: string; recipient?: string; expiresIn?: number }
+) {
+  const { link } = await invokeFunction<{ link: PaymentLink }>("create-payment-link", fields, {
+    "x-merchant-key": merchantKey,
+  });
+  return link;
+}
+
+// Quotes the link's amount; a signed link is checked against its signature
+// and expiry server-side
+export async function createLinkIntent(link: PaymentLink, target: PaymentTarget) {
+  const { intent } = await invokeFunction<{ intent: PaymentIntent }>("create-payment-intent", {
+    link,
+    ...target,
+  });
+  return intent;
+}
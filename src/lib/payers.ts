@@ -0,0 +1,22 @@
+import type { Session } from "@supabase/supabase-js";
+import { sessionAddress } from "@/lib/siwe";
+import type { WalletConnector } from "@/lib/wallet";
+
+// Client side of supabase/functions/_shared/payers.ts: a payment is only
+// accepted from the wallet that proves it pays, with a session of that wallet
+// or its signature of the intent. Nobody else can then claim its transaction.
+export function payerMessage(intentId: string) {
+  return `Pay payment intent ${intentId} from this wallet.`;
+}
+
+// The wallet's signature of the intent, or null when the payer is signed in
+// with that wallet and the session proves it already
+export async function provePayer(
+  wallet: WalletConnector,
+  address: string,
+  intentId: string,
+  session: Session | null
+) {
+  if (sessionAddress(session) === address.toLowerCase()) return null;
+  return wallet.signMessage(address, payerMessage(intentId));
+}
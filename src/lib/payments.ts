@@ -0,0 +1,175 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { TransferAuthorization } from "@/lib/eip3009";
+import type { Permit } from "@/lib/eip2612";
+import type { AccessToken, Entitlement } from "@/lib/entitlements";
+import { productPrecision, type Product } from "@/lib/products";
+import type { TokenSymbol } from "@/lib/chains";
+
+export type Payment = Tables<"payments">;
+export type PaymentIntent = Tables<"payment_intents">;
+export type PaymentIntentStatus = PaymentIntent["status"];
+export type PaymentReceipt = Pick<Payment, "id" | "tx_hash" | "payer_address" | "amount" | "chain_id">;
+// The backend never hands the payer's permit signature back out.
+export type PaymentAuthorization = Omit<Tables<"payment_authorizations">, "permit_signature">;
+
+export interface PaymentConfig {
+  acceptedChainIds: number[];
+  acceptedTokens: TokenSymbol[];
+  // Checkout limits in token units
+  limits: Record<TokenSymbol, { min: number; max: number }>;
+  gaslessEnabled: boolean;
+  spenderAddress: string | null;
+  // Kept apart from spenderAddress, as each permit overwrites the allowance
+  // of the one before
+  subscriptionSpenderAddress: string | null;
+  // Billing periods a subscription permit should cover
+  subscriptionAllowancePeriods: number;
+  // For the fiat value of network fees; null when no rate is available
+  ethUsdPrice: number | null;
+}
+
+// Chain and token the payer pays with. An unpaid intent quoted for another
+// accepted chain, or another token with the same peg, moves there server-side.
+export interface PaymentTarget {
+  chainId: number;
+  token: string;
+}
+
+export interface PaymentVerification {
+  verified: boolean;
+  intent: PaymentIntent;
+  payment?: Payment;
+  // Set when the payment was for a resource and the caller paid it
+  entitlement?: Entitlement | null;
+  access?: AccessToken | null;
+  reason?: string;
+  // Set while the transaction isn't deep enough yet; checking again later
+  // may still verify it
+  pending?: boolean;
+  confirmations?: number | null;
+  requiredConfirmations: number;
+}
+
+// Error answered by a payment function; `code` identifies the failure when the
+// function provides one (e.g. "insufficient_balance").
+export class PaymentApiError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = "PaymentApiError";
+  }
+}
+
+// Invokes an edge function and surfaces the `{ error, code }` body it returns
+// on non-2xx responses instead of the generic fetch error. Signed-in users'
+// session token goes along, so the function knows who is paying.
+export async function invokeFunction<T>(
+  name: string,
+  body: Record<string, unknown>,
+  headers: Record<string, string> = {}
+): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>(name, { body, headers });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error) throw new PaymentApiError(payload.error, payload.code);
+    }
+    throw new Error(error.message);
+  }
+
+  return data;
+}
+
+export function getPaymentConfig() {
+  return invokeFunction<PaymentConfig>("payment-config", {});
+}
+
+export function isIntentExpired(intent: PaymentIntent) {
+  return intent.status === "expired" ||
+    (intent.status === "created" && new Date(intent.expires_at).getTime() <= Date.now());
+}
+
+// Intents are read by id through the backend; the anon key can't list them.
+export async function getPaymentIntent(intentId: string) {
+  const { intent } = await invokeFunction<{ intent: PaymentIntent }>("get-payment-intent", { intentId });
+  return intent;
+}
+
+// Quotes the product server-side, for `amount` when it is pay-what-you-want;
+// the returned intent is what gets paid, whatever the amount controls show
+// afterwards.
+export async function createPaymentIntent(product: Product, amount: number, target: PaymentTarget) {
+  const { intent } = await invokeFunction<{ intent: PaymentIntent }>("create-payment-intent", {
+    productId: product.id,
+    amount: amount.toFixed(productPrecision(product)),
+    ...target,
+  });
+  return intent;
+}
+
+// Links the broadcast transaction to the intent before it is mined. Payers
+// that aren't signed in with the sending wallet prove it is theirs with
+// `payerSignature` (see src/lib/payers.ts).
+export async function submitPaymentIntent(
+  intentId: string,
+  txHash: string,
+  target: PaymentTarget,
+  payerSignature: string | null
+) {
+  const { intent } = await invokeFunction<{ intent: PaymentIntent }>("submit-payment-intent", {
+    intentId,
+    txHash,
+    ...target,
+    payerSignature,
+  });
+  return intent;
+}
+
+// Checks whether a transfer paying the intent has been mined, e.g. from a
+// phone wallet that scanned its QR code. The first call moves the intent to
+// `target` and starts watching; a detected transfer submits the intent.
+export async function detectPayment(intentId: string, target: PaymentTarget) {
+  const { intent } = await invokeFunction<{ intent: PaymentIntent }>("detect-payment", {
+    intentId,
+    ...target,
+  });
+  return intent;
+}
+
+// Hands a signed EIP-3009 authorization to the facilitator, which submits
+// the transfer and pays its gas. Resolves with the broadcast transaction.
+export function relayTransferAuthorization(
+  intentId: string,
+  target: PaymentTarget,
+  authorization: TransferAuthorization,
+  signature: string
+) {
+  return invokeFunction<{ intent: PaymentIntent; txHash: string }>("facilitator", {
+    intentId,
+    ...target,
+    authorization,
+    signature,
+  });
+}
+
+// Stores a signed EIP-2612 permit; the merchant captures the funds later.
+export function authorizePayment(
+  intentId: string,
+  target: PaymentTarget,
+  permit: Permit,
+  signature: string
+) {
+  return invokeFunction<{ intent: PaymentIntent; authorization: PaymentAuthorization }>(
+    "authorize-payment",
+    { intentId, ...target, permit, signature }
+  );
+}
+
+// Asks the backend to check the intent's transaction on-chain before granting
+// access. The access token of a resource only goes to its payer, proven by
+// their session or `payerSignature`.
+export function verifyPayment(intentId: string, payerSignature: string | null = null) {
+  return invokeFunction<PaymentVerification>("verify-payment", { intentId, payerSignature });
+}
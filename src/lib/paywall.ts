@@ -0,0 +1,129 @@
+import { supabase, SUPABASE_URL } from "@/integrations/supabase/client";
+import type { AccessToken } from "@/lib/entitlements";
+import type { PaymentReceipt } from "@/lib/payments";
+
+// Client side of the HTTP 402 protocol served by supabase/functions/_shared/paywall.ts.
+export const PAYMENT_HEADER = "X-PAYMENT";
+export const PAYMENT_RESPONSE_HEADER = "X-PAYMENT-RESPONSE";
+export const ACCESS_TOKEN_HEADER = "X-ACCESS-TOKEN";
+
+export const PREMIUM_RESOURCE_URL = `${SUPABASE_URL}/functions/v1/premium-resource`;
+
+// URL of a resource served by premium-resource, by its id
+export function getResourceUrl(id: string) {
+  return `${PREMIUM_RESOURCE_URL}?id=${encodeURIComponent(id)}`;
+}
+
+export interface PaymentRequirement {
+  scheme: "exact";
+  network: string;
+  chainId: number;
+  asset: string;
+  // Symbol of `asset`, e.g. "USDC"
+  token: string;
+  amount: string;
+  decimals: number;
+  // Fiat price `amount` was converted from, for merchant-priced resources
+  price?: {
+    amount: string;
+    currency: string;
+    // Units of `currency` per token
+    rate: number;
+    slippageBps: number;
+  };
+  payTo: string;
+  // Id of the payment intent backing this quote
+  nonce: string;
+  expiresAt: string;
+  resource: string;
+  description: string;
+}
+
+export interface PaymentProof {
+  nonce: string;
+  txHash: string;
+  // Which of the accepted chains and assets the payment was made with
+  chainId: number;
+  asset: string;
+  // The paying wallet's signature of the intent (see lib/payers.ts), unless
+  // the payer is signed in with that wallet
+  payerSignature?: string | null;
+}
+
+export interface PremiumContent {
+  title: string;
+  body: string;
+}
+
+// `content` and `receipt` are set once paid, `accepts` while payment is required.
+// `access` is a fresh access token to present next time instead of paying.
+export interface ResourceResponse {
+  paid: boolean;
+  content?: PremiumContent;
+  receipt?: PaymentReceipt | null;
+  access?: AccessToken | null;
+  accepts?: PaymentRequirement[];
+  error?: string;
+  // Identifies why payment is still required, e.g. "payment_redeemed"
+  code?: string;
+  // Set while the proof's transaction isn't deep enough yet
+  pending?: boolean;
+  confirmations?: number | null;
+  requiredConfirmations?: number;
+}
+
+function encodeProof(proof: PaymentProof) {
+  return btoa(JSON.stringify(proof));
+}
+
+function decodeReceipt(header: string | null): PaymentReceipt | null {
+  if (!header) return null;
+
+  try {
+    return JSON.parse(atob(header));
+  } catch {
+    return null;
+  }
+}
+
+// Fetches a protected resource, optionally presenting a payment proof or the
+// access token of an earlier payment. A 402 answer is returned as data so the
+// caller can pay and retry. Signed-in payers send their session along so the
+// payment is recorded as theirs.
+export async function requestResource(
+  url: string,
+  proof?: PaymentProof,
+  accessToken?: string
+): Promise<ResourceResponse> {
+  const headers: Record<string, string> = {};
+  if (proof) headers[PAYMENT_HEADER] = encodeProof(proof);
+  if (accessToken) headers[ACCESS_TOKEN_HEADER] = accessToken;
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session) headers.Authorization = `Bearer ${session.access_token}`;
+
+  const response = await fetch(url, { headers });
+  const body = await response.json().catch(() => ({}));
+
+  if (response.status === 402) {
+    return {
+      paid: false,
+      accepts: body.accepts ?? [],
+      error: body.error,
+      code: body.code,
+      pending: body.pending,
+      confirmations: body.confirmations,
+      requiredConfirmations: body.requiredConfirmations,
+    };
+  }
+  if (!response.ok) {
+    throw new Error(body.error ?? `Resource request failed with status ${response.status}`);
+  }
+
+  return {
+    paid: true,
+    content: body.content,
+    access: body.access ?? null,
+    receipt: decodeReceipt(response.headers.get(PAYMENT_RESPONSE_HEADER)),
+  };
+}
@@ -0,0 +1,51 @@
+import type { PaymentTarget } from "@/lib/payments";
+
+// Transactions sent from this browser whose payment hasn't settled yet, so a
+// refresh or a closed tab doesn't lose them: the checkout they were paid from
+// picks them up again on its next load (see CryptoPayment). The backend keeps
+// the same hash on the intent once it has been submitted.
+export interface PendingPayment extends PaymentTarget {
+  intentId: string;
+  txHash: string;
+  // Proves the transaction is the payer's when submitting it (see
+  // src/lib/payers.ts); null for payers signed in with the wallet
+  payerSignature: string | null;
+  // Resource URL, or the page of a plain checkout
+  checkout: string;
+  sentAt: number;
+}
+
+const PENDING_PAYMENTS_KEY = "payments.pending";
+// Long past any quote; the backend's transfer watcher settles what's left
+const PENDING_PAYMENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+function readPendingPayments(): PendingPayment[] {
+  try {
+    const pending: PendingPayment[] = JSON.parse(localStorage.getItem(PENDING_PAYMENTS_KEY) ?? "[]");
+    return pending.filter((payment) => Date.now() - payment.sentAt < PENDING_PAYMENT_TTL_MS);
+  } catch {
+    return [];
+  }
+}
+
+function writePendingPayments(pending: PendingPayment[]) {
+  localStorage.setItem(PENDING_PAYMENTS_KEY, JSON.stringify(pending));
+}
+
+// The latest payment sent from `checkout` that is still unsettled
+export function getPendingPayment(checkout: string) {
+  return readPendingPayments()
+    .filter((payment) => payment.checkout === checkout)
+    .sort((a, b) => b.sentAt - a.sentAt)[0] ?? null;
+}
+
+export function savePendingPayment(payment: Omit<PendingPayment, "sentAt">) {
+  writePendingPayments([
+    ...readPendingPayments().filter((pending) => pending.intentId !== payment.intentId),
+    { ...payment, sentAt: Date.now() },
+  ]);
+}
+
+export function clearPendingPayment(intentId: string) {
+  writePendingPayments(readPendingPayments().filter((payment) => payment.intentId !== intentId));
+}
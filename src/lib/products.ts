@@ -0,0 +1,60 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatFiatAmount, formatTokenAmount, TOKENS, type TokenSymbol } from "@/lib/chains";
+
+// Catalog the checkout renders from (see supabase/functions/_shared/products.ts).
+// Amounts are in `currency`: USD or EUR, converted into the token paid when
+// quoted, or the symbol of the one token the product is sold in.
+export type Product = Tables<"products">;
+
+// The pay-what-you-want product checkouts without a product sell
+export const DEFAULT_PRODUCT_ID = "payment";
+
+const FIAT_CURRENCIES = ["USD", "EUR"];
+
+export async function getProduct(productId: string) {
+  const { data, error } = await supabase
+    .from("products")
+    .select("*")
+    .eq("id", productId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error(`Product ${productId} not found`);
+
+  return data;
+}
+
+export function isFiatPriced(product: Pick<Product, "currency">) {
+  return FIAT_CURRENCIES.includes(product.currency);
+}
+
+// Decimals the product's amounts are given with
+export function productPrecision(product: Pick<Product, "currency">) {
+  return isFiatPriced(product) ? 2 : TOKENS[product.currency as TokenSymbol]?.precision ?? 2;
+}
+
+// Of the tokens the merchant accepts, the ones this product can be paid in
+export function productTokens(product: Product, accepted: TokenSymbol[]) {
+  return accepted.filter((symbol) =>
+    (isFiatPriced(product) || symbol === product.currency) &&
+    (!product.accepted_tokens || product.accepted_tokens.includes(symbol))
+  );
+}
+
+// Bounds for the amount picker; fixed products only ever cost their price
+export function productLimits(product: Product) {
+  if (product.pricing === "fixed") {
+    return { min: Number(product.price_amount), max: Number(product.price_amount) };
+  }
+  return {
+    min: product.min_amount === null ? Number(product.amount_step) : Number(product.min_amount),
+    max: product.max_amount === null ? Infinity : Number(product.max_amount),
+  };
+}
+
+// "$5.00", "€3.00" or "0.01 ETH"
+export function formatProductAmount(product: Pick<Product, "currency">, amount: number | string) {
+  return isFiatPriced(product)
+    ? formatFiatAmount(amount, product.currency)
+    : formatTokenAmount(amount, product.currency);
+}
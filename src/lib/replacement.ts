@@ -0,0 +1,46 @@
+import { ethers } from "ethers";
+import type { WalletTransaction } from "@/lib/wallet";
+
+// A payment stuck in the mempool is replaced by a transaction with the same
+// nonce and a higher fee: the same transfer to speed it up, or an empty one
+// to the payer's own address to cancel it. The backend follows the intent to
+// whichever gets mined (see supabase/functions/_shared/replacement.ts).
+export type ReplacementKind = "speedUp" | "cancel";
+
+// Nodes only accept a replacement paying at least 10% more than the original
+const FEE_BUMP_PERCENT = 25n;
+
+// The original fee bumped, or the network's current one when that's higher
+function bumpFee(original: bigint, current: bigint | null) {
+  const bumped = (original * (100n + FEE_BUMP_PERCENT)) / 100n;
+  return current !== null && current > bumped ? current : bumped;
+}
+
+// The transaction replacing `txHash`, for the payer's wallet to send. Null
+// when the transaction was mined meanwhile, or the RPC doesn't know it.
+export async function buildReplacement(
+  provider: ethers.Provider,
+  txHash: string,
+  kind: ReplacementKind
+): Promise<WalletTransaction | null> {
+  const tx = await provider.getTransaction(txHash);
+  if (!tx || tx.blockNumber !== null) return null;
+
+  const fees = await provider.getFeeData();
+  const replacement: WalletTransaction = kind === "cancel"
+    ? { from: tx.from, to: tx.from, value: 0n, data: "0x" }
+    : { from: tx.from, to: tx.to, value: tx.value, data: tx.data };
+
+  return {
+    ...replacement,
+    chainId: Number(tx.chainId),
+    nonce: tx.nonce,
+    // EIP-1559 transactions are bumped on both fees, legacy ones on the gas price
+    ...(tx.maxFeePerGas !== null
+      ? {
+        maxFeePerGas: bumpFee(tx.maxFeePerGas, fees.maxFeePerGas),
+        maxPriorityFeePerGas: bumpFee(tx.maxPriorityFeePerGas, fees.maxPriorityFeePerGas),
+      }
+      : { gasPrice: bumpFee(tx.gasPrice, fees.gasPrice) }),
+  };
+}
@@ -0,0 +1,76 @@
+import { ethers } from "ethers";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeFunction } from "@/lib/payments";
+import type { WalletConnector } from "@/lib/wallet";
+
+// Sign-In With Ethereum (EIP-4361), verified by the siwe-verify function,
+// which answers with a Supabase session for the signing wallet.
+
+const SIWE_STATEMENT = "Sign in to keep your payments and purchases with your wallet.";
+// The signature is redeemed right away; this only bounds a stalled prompt
+const MESSAGE_VALIDITY_MS = 10 * 60 * 1000;
+
+export interface SiweMessageParams {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+export function buildSiweMessage(params: SiweMessageParams) {
+  const lines = [
+    `${params.domain} wants you to sign in with your Ethereum account:`,
+    // EIP-4361 requires the checksummed form
+    ethers.getAddress(params.address),
+    "",
+    ...(params.statement ? [params.statement, ""] : [""]),
+    `URI: ${params.uri}`,
+    "Version: 1",
+    `Chain ID: ${params.chainId}`,
+    `Nonce: ${params.nonce}`,
+    `Issued At: ${params.issuedAt}`,
+  ];
+  if (params.expirationTime) lines.push(`Expiration Time: ${params.expirationTime}`);
+
+  return lines.join("\n");
+}
+
+// Wallet address a session was issued to, lowercased
+export function sessionAddress(session: Session | null): string | null {
+  return session?.user.user_metadata?.wallet_address ?? null;
+}
+
+// Has the wallet sign a fresh message and swaps it for a Supabase session,
+// which supabase-js then persists and refreshes like any other.
+export async function signInWithEthereum(wallet: WalletConnector, address: string, chainId: number) {
+  const { nonce } = await invokeFunction<{ nonce: string }>("siwe-nonce", {});
+
+  const now = Date.now();
+  const message = buildSiweMessage({
+    domain: window.location.host,
+    address,
+    statement: SIWE_STATEMENT,
+    uri: window.location.origin,
+    chainId,
+    nonce,
+    issuedAt: new Date(now).toISOString(),
+    expirationTime: new Date(now + MESSAGE_VALIDITY_MS).toISOString(),
+  });
+  const signature = await wallet.signMessage(address, message);
+
+  const { session } = await invokeFunction<{ session: Session }>("siwe-verify", { message, signature });
+  const { data, error } = await supabase.auth.setSession(session);
+  if (error) throw error;
+
+  return data.session;
+}
+
+export async function signOut() {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+}
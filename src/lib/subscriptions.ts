@@ -0,0 +1,109 @@
+import { ethers } from "ethers";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getProvider, getToken } from "@/lib/chains";
+import { buildPermit, signPermit, type Permit } from "@/lib/eip2612";
+import { invokeFunction } from "@/lib/payments";
+import type { WalletConnector } from "@/lib/wallet";
+
+// Subscription billing (see supabase/functions/_shared/subscriptions.ts): a
+// permit allows the merchant to pull several periods, the scheduler pulls one
+// each time a period ends.
+export type SubscriptionPlan = Tables<"subscription_plans">;
+export type Subscription = Tables<"subscriptions">;
+export type SubscriptionCharge = Tables<"subscription_charges">;
+export type SubscriptionStatus = Subscription["status"];
+
+export const SUBSCRIPTION_STATUS_LABELS: Record<SubscriptionStatus, string> = {
+  active: "Active",
+  past_due: "Payment failed",
+  canceled: "Canceled",
+  expired: "Expired",
+};
+
+export async function getPlans() {
+  const { data, error } = await supabase
+    .from("subscription_plans")
+    .select("*")
+    .order("price_amount", { ascending: false });
+  if (error) throw error;
+
+  return data;
+}
+
+// The signed-in user's subscriptions, newest first
+export async function getSubscriptions() {
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .select("*")
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  return data;
+}
+
+// "every month", "every 5 minutes"
+export function formatBillingInterval(plan: Pick<SubscriptionPlan, "billing_interval" | "interval_count">) {
+  return plan.interval_count === 1
+    ? `every ${plan.billing_interval}`
+    : `every ${plan.interval_count} ${plan.billing_interval}s`;
+}
+
+const PERMIT_TOKEN_ABI = [
+  "function decimals() public view returns (uint8)",
+  "function name() public view returns (string)",
+  "function version() public view returns (string)",
+  "function nonces(address owner) public view returns (uint256)",
+];
+
+// Signs the permit that lets `spender` pull `periods` of the plan's price
+// from the subscriber's wallet
+export async function signSubscriptionPermit(
+  wallet: WalletConnector,
+  plan: SubscriptionPlan,
+  chainId: number,
+  owner: string,
+  spender: string,
+  periods: number
+) {
+  const token = getToken(chainId, plan.token);
+  if (!token?.eip2612) {
+    throw new Error(`${plan.token} does not support permits on chain ${chainId}`);
+  }
+
+  const contract = new ethers.Contract(token.address, PERMIT_TOKEN_ABI, getProvider(chainId));
+  const decimals = Number(await contract.decimals());
+  const value = ethers.parseUnits(String(plan.price_amount), decimals) * BigInt(periods);
+
+  const permit = await buildPermit(contract, owner, spender, value);
+  const signature = await signPermit(wallet, contract, chainId, permit);
+  return { permit, signature };
+}
+
+// Subscribes the signed-in user, or renews the allowance of their existing
+// subscription to the plan; the first period is charged right away.
+export async function subscribe(planId: string, chainId: number, permit: Permit, signature: string) {
+  const { subscription } = await invokeFunction<{ subscription: Subscription }>("subscribe", {
+    planId,
+    chainId,
+    permit,
+    signature,
+  });
+  return subscription;
+}
+
+export async function cancelSubscription(subscriptionId: string) {
+  const { subscription } = await invokeFunction<{ subscription: Subscription }>("manage-subscription", {
+    action: "cancel",
+    subscriptionId,
+  });
+  return subscription;
+}
+
+export async function resumeSubscription(subscriptionId: string) {
+  const { subscription } = await invokeFunction<{ subscription: Subscription }>("manage-subscription", {
+    action: "resume",
+    subscriptionId,
+  });
+  return subscription;
+}
@@ -0,0 +1,36 @@
+import { createCoinbaseWalletSDK } from "@coinbase/wallet-sdk";
+import { DEFAULT_CHAIN_ID } from "@/lib/chains";
+import type { EIP1193Provider } from "@/lib/eip6963";
+import { Eip1193Connector } from "./connector";
+
+type CoinbaseProvider = ReturnType<ReturnType<typeof createCoinbaseWalletSDK>["getProvider"]>;
+
+// Coinbase Wallet through its SDK: the extension when installed, otherwise a
+// smart wallet popup or the mobile app via QR code.
+export class CoinbaseConnector extends Eip1193Connector {
+  private provider: CoinbaseProvider | null = null;
+  private chainIds = [DEFAULT_CHAIN_ID];
+
+  constructor() {
+    super("coinbase", "Coinbase Wallet", "🔵");
+  }
+
+  // Created on first use; the SDK reads the chains it offers from `chainIds`
+  protected getProvider(): EIP1193Provider {
+    this.provider ??= createCoinbaseWalletSDK({
+      appName: document.title,
+      appChainIds: this.chainIds,
+    }).getProvider();
+    return this.provider;
+  }
+
+  async connect(chainIds: number[]) {
+    if (!this.provider && chainIds.length > 0) this.chainIds = chainIds;
+
+    return (await this.getProvider().request({ method: "eth_requestAccounts" })) as string[];
+  }
+
+  async disconnect() {
+    await this.provider?.disconnect();
+  }
+}
@@ -0,0 +1,187 @@
+import { ethers } from "ethers";
+import { getChain, toAddChainParameter, toHexChainId } from "@/lib/chains";
+import type { EIP1193Provider } from "@/lib/eip6963";
+
+// What the checkout needs from a wallet, whatever it is reached through:
+// an injected extension, a WalletConnect session, the Coinbase Wallet SDK or
+// the mock used for local runs and tests.
+
+export interface WalletConnectorInfo {
+  // Stable id, e.g. "io.metamask", "walletconnect"
+  id: string;
+  name: string;
+  // Emoji, or an image URL for wallets that announce their own icon
+  icon: string;
+}
+
+export interface WalletTransaction {
+  from: string;
+  to: string;
+  value?: bigint;
+  data?: string;
+  // Wallets refuse the transaction if they've since moved to another chain
+  chainId?: number;
+  // Set to replace a pending transaction (see src/lib/replacement.ts);
+  // wallets pick them otherwise
+  nonce?: number;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+export type TypedDataTypes = Record<string, ethers.TypedDataField[]>;
+
+export interface WalletEvents {
+  accountsChanged: (accounts: string[]) => void;
+  chainChanged: (chainId: number) => void;
+  disconnect: () => void;
+  // WalletConnect only: pairing URI to show while a session awaits approval
+  displayUri: (uri: string) => void;
+}
+
+export interface WalletConnector extends WalletConnectorInfo {
+  // Asks the wallet for access. `chainIds` are the chains the checkout
+  // accepts, the preferred one first; wallets that pair per session use them.
+  connect(chainIds: number[]): Promise<string[]>;
+  disconnect(): Promise<void>;
+  // Picks up the session of an earlier visit without prompting; resolves
+  // with no accounts when there's none to resume
+  reconnect(): Promise<string[]>;
+  // Accounts already shared with this page, without prompting
+  getAccounts(): Promise<string[]>;
+  getChainId(): Promise<number>;
+  // Switches the wallet's chain, adding it to the wallet first if it's unknown
+  switchChain(chainId: number): Promise<void>;
+  // EIP-191 signature of a plain-text message by `address`
+  signMessage(address: string, message: string): Promise<string>;
+  // EIP-712 signature by `address`
+  signTypedData(
+    address: string,
+    domain: ethers.TypedDataDomain,
+    types: TypedDataTypes,
+    message: Record<string, unknown>
+  ): Promise<string>;
+  // Resolves with the hash once the wallet has broadcast the transaction
+  sendTransaction(transaction: WalletTransaction): Promise<string>;
+  on<E extends keyof WalletEvents>(event: E, listener: WalletEvents[E]): void;
+  off<E extends keyof WalletEvents>(event: E, listener: WalletEvents[E]): void;
+}
+
+type Listener = (...args: unknown[]) => void;
+
+// EIP-1193 error for a request the payer declined in their wallet
+export const USER_REJECTED_REQUEST = 4001;
+// EIP-3326 error for a chain the wallet doesn't know yet
+const UNRECOGNIZED_CHAIN = 4902;
+
+// Connector for any wallet that exposes an EIP-1193 provider; subclasses
+// only say where the provider comes from and how a session starts and ends.
+export abstract class Eip1193Connector implements WalletConnector {
+  // Provider-level listeners, keyed by event and the caller's listener
+  private subscriptions = new Map<string, Map<Listener, Listener>>();
+
+  constructor(
+    readonly id: string,
+    readonly name: string,
+    readonly icon: string
+  ) {}
+
+  protected abstract getProvider(): EIP1193Provider;
+
+  abstract connect(chainIds: number[]): Promise<string[]>;
+
+  abstract disconnect(): Promise<void>;
+
+  // Wallets that remember which pages they're connected to answer eth_accounts
+  // without a prompt
+  reconnect() {
+    return this.getAccounts();
+  }
+
+  async getAccounts() {
+    return (await this.getProvider().request({ method: "eth_accounts" })) as string[];
+  }
+
+  async getChainId() {
+    return Number(await this.getProvider().request({ method: "eth_chainId" }));
+  }
+
+  async switchChain(chainId: number) {
+    const provider = this.getProvider();
+
+    try {
+      await provider.request({
+        method: "wallet_switchEthereumChain",
+        params: [{ chainId: toHexChainId(chainId) }],
+      });
+    } catch (error) {
+      const chain = getChain(chainId);
+      if ((error as { code?: number }).code !== UNRECOGNIZED_CHAIN || !chain) throw error;
+
+      await provider.request({
+        method: "wallet_addEthereumChain",
+        params: [toAddChainParameter(chain)],
+      });
+    }
+  }
+
+  async signMessage(address: string, message: string) {
+    return (await this.getProvider().request({
+      method: "personal_sign",
+      params: [ethers.hexlify(ethers.toUtf8Bytes(message)), address],
+    })) as string;
+  }
+
+  async signTypedData(
+    address: string,
+    domain: ethers.TypedDataDomain,
+    types: TypedDataTypes,
+    message: Record<string, unknown>
+  ) {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, message);
+    return (await this.getProvider().request({
+      method: "eth_signTypedData_v4",
+      params: [address, JSON.stringify(payload)],
+    })) as string;
+  }
+
+  async sendTransaction(transaction: WalletTransaction) {
+    const { from, to, value, data, chainId, nonce, gasPrice, maxFeePerGas, maxPriorityFeePerGas } = transaction;
+    const toQuantity = (quantity?: bigint | number) => quantity === undefined ? undefined : ethers.toQuantity(quantity);
+
+    return (await this.getProvider().request({
+      method: "eth_sendTransaction",
+      params: [{
+        from,
+        to,
+        value: toQuantity(value),
+        data,
+        chainId: chainId === undefined ? undefined : toHexChainId(chainId),
+        nonce: toQuantity(nonce),
+        gasPrice: toQuantity(gasPrice),
+        maxFeePerGas: toQuantity(maxFeePerGas),
+        maxPriorityFeePerGas: toQuantity(maxPriorityFeePerGas),
+      }],
+    })) as string;
+  }
+
+  on<E extends keyof WalletEvents>(event: E, listener: WalletEvents[E]) {
+    const callback = listener as Listener;
+    // Providers report chains as hex strings (EIP-1193); listeners get numbers
+    const handler: Listener = event === "chainChanged"
+      ? (chainId) => callback(Number(chainId))
+      : callback;
+
+    if (!this.subscriptions.has(event)) this.subscriptions.set(event, new Map());
+    this.subscriptions.get(event).set(callback, handler);
+    this.getProvider().on?.(event, handler);
+  }
+
+  off<E extends keyof WalletEvents>(event: E, listener: WalletEvents[E]) {
+    const handler = this.subscriptions.get(event)?.get(listener as Listener);
+    if (!handler) return;
+
+    this.subscriptions.get(event).delete(listener as Listener);
+    this.getProvider().removeListener?.(event, handler);
+  }
+}
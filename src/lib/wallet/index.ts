@@ -0,0 +1,71 @@
+import type { EIP1193Provider, EIP6963ProviderDetail } from "@/lib/eip6963";
+import type { WalletConnector } from "./connector";
+import { InjectedConnector } from "./injected";
+import { WalletConnectConnector, WALLETCONNECT_PROJECT_ID, WALLETCONNECT_RELAY_URL } from "./walletconnect";
+import { CoinbaseConnector } from "./coinbase";
+import { MockConnector } from "./mock";
+
+export * from "./connector";
+export { InjectedConnector } from "./injected";
+export { WalletConnectConnector, WALLETCONNECT_DEEP_LINKS, walletConnectDeepLink } from "./walletconnect";
+export { CoinbaseConnector } from "./coinbase";
+export { MockConnector } from "./mock";
+export { forgetConnector, getLastConnectorId, rememberConnector } from "./session";
+
+// Lists a test wallet holding this key, which broadcasts to the chain's RPC.
+// Meant for a local fork; never set it in production.
+const MOCK_WALLET_PRIVATE_KEY: string | undefined = import.meta.env.VITE_MOCK_WALLET_PRIVATE_KEY;
+const COINBASE_WALLET_RDNS = "com.coinbase.wallet";
+
+// Connectors are created once per wallet so listeners and sessions stick
+const injectedConnectors = new Map<string, InjectedConnector>();
+let walletConnectConnector: WalletConnectConnector | null = null;
+let coinbaseConnector: CoinbaseConnector | null = null;
+let mockConnector: MockConnector | null = null;
+
+function getInjectedConnector(id: string, name: string, icon: string, provider: EIP1193Provider) {
+  if (!injectedConnectors.has(id)) {
+    injectedConnectors.set(id, new InjectedConnector(id, name, icon, provider));
+  }
+  return injectedConnectors.get(id);
+}
+
+// WalletConnect needs a project id; without one it isn't offered
+function getWalletConnectConnector() {
+  if (!WALLETCONNECT_PROJECT_ID) return null;
+
+  walletConnectConnector ??= new WalletConnectConnector({
+    projectId: WALLETCONNECT_PROJECT_ID,
+    relayUrl: WALLETCONNECT_RELAY_URL,
+  });
+  return walletConnectConnector;
+}
+
+// Every wallet the payer can pick from. Installed wallets come from their
+// EIP-6963 announcements; wallets that predate it only show up as
+// window.ethereum.
+export function getConnectors(announced: EIP6963ProviderDetail[]): WalletConnector[] {
+  const injected = announced.length > 0
+    ? announced.map(({ info, provider }) =>
+      getInjectedConnector(info.rdns || info.uuid, info.name, info.icon, provider))
+    : window.ethereum
+      ? [getInjectedConnector("injected", "Browser Wallet", "🌐", window.ethereum)]
+      : [];
+  const connectors: WalletConnector[] = [...injected];
+
+  const walletConnect = getWalletConnectConnector();
+  if (walletConnect) connectors.push(walletConnect);
+
+  // An installed Coinbase extension announces itself; the SDK covers the rest
+  if (!injected.some((connector) => connector.id === COINBASE_WALLET_RDNS)) {
+    coinbaseConnector ??= new CoinbaseConnector();
+    connectors.push(coinbaseConnector);
+  }
+
+  if (MOCK_WALLET_PRIVATE_KEY) {
+    mockConnector ??= new MockConnector({ privateKey: MOCK_WALLET_PRIVATE_KEY, broadcast: true });
+    connectors.push(mockConnector);
+  }
+
+  return connectors;
+}
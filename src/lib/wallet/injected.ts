@@ -0,0 +1,30 @@
+import type { EIP1193Provider } from "@/lib/eip6963";
+import { Eip1193Connector } from "./connector";
+
+// Browser extension wallet, found through EIP-6963 or as window.ethereum.
+export class InjectedConnector extends Eip1193Connector {
+  constructor(id: string, name: string, icon: string, private provider: EIP1193Provider) {
+    super(id, name, icon);
+  }
+
+  protected getProvider() {
+    return this.provider;
+  }
+
+  async connect() {
+    return (await this.provider.request({ method: "eth_requestAccounts" })) as string[];
+  }
+
+  // Extensions keep the page authorized until the payer revokes it; wallets
+  // supporting EIP-2255 let us drop the permission ourselves
+  async disconnect() {
+    try {
+      await this.provider.request({
+        method: "wallet_revokePermissions",
+        params: [{ eth_accounts: {} }],
+      });
+    } catch {
+      // Not supported; the checkout forgets the wallet all the same
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { ethers } from "ethers";
+import { describe, expect, it, vi } from "vitest";
+import { buildTransferAuthorization, signTransferAuthorization, TRANSFER_WITH_AUTHORIZATION_TYPES } from "@/lib/eip3009";
+import { buildPermit, PERMIT_TYPES, signPermit } from "@/lib/eip2612";
+import { USER_REJECTED_REQUEST } from "./connector";
+import { MockConnector } from "./mock";
+
+// The wallet flows of the checkout run against MockConnector: connecting,
+// signing (messages, transfer authorizations, permits) and sending.
+
+const PRIVATE_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const RECIPIENT = "0x75bB73a75EeCc43ffeAa3B48733292437C405f25";
+const ERC20 = new ethers.Interface(["function transfer(address to, uint256 value)"]);
+
+// Stands in for the USDC contract the EIP-712 domain and permit nonce are read from
+const token = {
+  name: async () => "USDC",
+  version: async () => "2",
+  getAddress: async () => USDC,
+  nonces: async () => 3n,
+} as unknown as ethers.Contract;
+
+describe("MockConnector", () => {
+  describe("connect", () => {
+    it("shares its account on the preferred chain", async () => {
+      const wallet = new MockConnector({ privateKey: PRIVATE_KEY });
+      expect(await wallet.getAccounts()).toEqual([]);
+
+      const accounts = await wallet.connect([8453, 84532]);
+      expect(accounts).toEqual([new ethers.Wallet(PRIVATE_KEY).address]);
+      expect(await wallet.getAccounts()).toEqual(accounts);
+      expect(await wallet.reconnect()).toEqual(accounts);
+      expect(await wallet.getChainId()).toBe(8453);
+    });
+
+    it("declines like a payer clicking Reject", async () => {
+      const wallet = new MockConnector({ rejectRequests: true });
+
+      await expect(wallet.connect([84532])).rejects.toMatchObject({ code: USER_REJECTED_REQUEST });
+      expect(await wallet.getAccounts()).toEqual([]);
+    });
+
+    it("tells listeners about chain switches and disconnects", async () => {
+      const wallet = new MockConnector({ chainId: 84532 });
+      const chainChanged = vi.fn();
+      const disconnected = vi.fn();
+      wallet.on("chainChanged", chainChanged);
+      wallet.on("disconnect", disconnected);
+      await wallet.connect([]);
+
+      await wallet.switchChain(84532);
+      await wallet.switchChain(8453);
+      expect(chainChanged).toHaveBeenCalledTimes(1);
+      expect(chainChanged).toHaveBeenCalledWith(8453);
+      await expect(wallet.switchChain(999999)).rejects.toThrow("Unsupported chain 999999");
+
+      wallet.off("chainChanged", chainChanged);
+      wallet.emit("chainChanged", 84532);
+      expect(chainChanged).toHaveBeenCalledTimes(1);
+
+      await wallet.disconnect();
+      expect(disconnected).toHaveBeenCalled();
+      expect(await wallet.getAccounts()).toEqual([]);
+    });
+  });
+
+  describe("sign", () => {
+    it("signs messages as its account", async () => {
+      const wallet = new MockConnector();
+      const [address] = await wallet.connect([84532]);
+
+      const signature = await wallet.signMessage(address, "Pay payment intent 42 from this wallet.");
+      expect(ethers.verifyMessage("Pay payment intent 42 from this wallet.", signature)).toBe(address);
+    });
+
+    it("signs transfer authorizations for the token's domain", async () => {
+      const wallet = new MockConnector();
+      const [from] = await wallet.connect([84532]);
+      const authorization = buildTransferAuthorization({
+        from,
+        to: RECIPIENT,
+        value: 5_000_000n,
+        expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+      });
+
+      const signature = await signTransferAuthorization(wallet, token, 84532, authorization);
+      const domain = { name: "USDC", version: "2", chainId: 84532, verifyingContract: USDC };
+      expect(ethers.verifyTypedData(domain, TRANSFER_WITH_AUTHORIZATION_TYPES, authorization, signature)).toBe(from);
+    });
+
+    it("signs permits with the owner's current nonce", async () => {
+      const wallet = new MockConnector();
+      const [owner] = await wallet.connect([84532]);
+      const permit = await buildPermit(token, owner, RECIPIENT, 5_000_000n);
+      expect(permit.nonce).toBe("3");
+
+      const signature = await signPermit(wallet, token, 84532, permit);
+      const domain = { name: "USDC", version: "2", chainId: 84532, verifyingContract: USDC };
+      expect(ethers.verifyTypedData(domain, PERMIT_TYPES, permit, signature)).toBe(owner);
+    });
+
+    it("declines to sign when the payer rejects", async () => {
+      const wallet = new MockConnector({ rejectRequests: true });
+
+      await expect(wallet.signMessage(wallet.account.address, "hello")).rejects.toMatchObject({
+        code: USER_REJECTED_REQUEST,
+      });
+      expect(wallet.transactions).toEqual([]);
+    });
+  });
+
+  describe("send", () => {
+    it("records approved transactions and answers with a distinct hash for each", async () => {
+      const wallet = new MockConnector();
+      const [from] = await wallet.connect([84532]);
+      const transfer = {
+        from,
+        to: USDC,
+        data: ERC20.encodeFunctionData("transfer", [RECIPIENT, 5_000_000n]),
+        chainId: 84532,
+      };
+
+      const first = await wallet.sendTransaction(transfer);
+      const second = await wallet.sendTransaction({ from, to: RECIPIENT, value: 1n, chainId: 84532 });
+      expect(first).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(second).not.toBe(first);
+      expect(wallet.transactions).toEqual([transfer, { from, to: RECIPIENT, value: 1n, chainId: 84532 }]);
+    });
+
+    it("refuses a transaction for another chain than it is on", async () => {
+      const wallet = new MockConnector();
+      const [from] = await wallet.connect([84532]);
+
+      await expect(wallet.sendTransaction({ from, to: RECIPIENT, value: 1n, chainId: 8453 })).rejects.toThrow(
+        "Wallet is on chain 84532, not 8453"
+      );
+      expect(wallet.transactions).toEqual([]);
+    });
+
+    it("sends nothing when the payer rejects", async () => {
+      const wallet = new MockConnector({ rejectRequests: true });
+
+      await expect(
+        wallet.sendTransaction({ from: wallet.account.address, to: RECIPIENT, value: 1n })
+      ).rejects.toMatchObject({ code: USER_REJECTED_REQUEST });
+      expect(wallet.transactions).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { ethers } from "ethers";
+import { DEFAULT_CHAIN_ID, getChain, getProvider } from "@/lib/chains";
+import {
+  USER_REJECTED_REQUEST,
+  type TypedDataTypes,
+  type WalletConnector,
+  type WalletEvents,
+  type WalletTransaction,
+} from "./connector";
+
+export interface MockConnectorOptions {
+  // Key the mock signs with; a random one when omitted
+  privateKey?: string;
+  chainId?: number;
+  // Sends transactions to the chain's RPC (e.g. a local anvil node) instead
+  // of only recording them
+  broadcast?: boolean;
+  // Declines every prompt, as a payer clicking "Reject" would
+  rejectRequests?: boolean;
+}
+
+type Listener = (...args: unknown[]) => void;
+
+// In-memory wallet for local runs and tests. It signs with a local key and
+// lets tests drive wallet-side changes through `emit`.
+export class MockConnector implements WalletConnector {
+  readonly id = "mock";
+  readonly name = "Test Wallet";
+  readonly icon = "🧪";
+  readonly account: ethers.Wallet | ethers.HDNodeWallet;
+  // Transactions the payer approved, in order
+  readonly transactions: WalletTransaction[] = [];
+  private chainId: number;
+  private connected = false;
+  private listeners = new Map<string, Set<Listener>>();
+
+  constructor(private options: MockConnectorOptions = {}) {
+    this.account = options.privateKey ? new ethers.Wallet(options.privateKey) : ethers.Wallet.createRandom();
+    this.chainId = options.chainId ?? DEFAULT_CHAIN_ID;
+  }
+
+  private prompt() {
+    if (this.options.rejectRequests) {
+      throw Object.assign(new Error("User rejected the request."), { code: USER_REJECTED_REQUEST });
+    }
+  }
+
+  async connect(chainIds: number[]) {
+    this.prompt();
+    this.connected = true;
+    if (chainIds.length > 0) this.chainId = chainIds[0];
+    return [this.account.address];
+  }
+
+  async disconnect() {
+    this.connected = false;
+    this.emit("disconnect");
+  }
+
+  // Nothing survives a reload; the mock only reconnects within a page
+  reconnect() {
+    return this.getAccounts();
+  }
+
+  async getAccounts() {
+    return this.connected ? [this.account.address] : [];
+  }
+
+  async getChainId() {
+    return this.chainId;
+  }
+
+  async switchChain(chainId: number) {
+    if (!getChain(chainId)) throw new Error(`Unsupported chain ${chainId}`);
+    if (chainId === this.chainId) return;
+
+    this.chainId = chainId;
+    this.emit("chainChanged", chainId);
+  }
+
+  async signMessage(_address: string, message: string) {
+    this.prompt();
+    return this.account.signMessage(message);
+  }
+
+  async signTypedData(
+    _address: string,
+    domain: ethers.TypedDataDomain,
+    types: TypedDataTypes,
+    message: Record<string, unknown>
+  ) {
+    this.prompt();
+    return this.account.signTypedData(domain, types, message);
+  }
+
+  async sendTransaction(transaction: WalletTransaction) {
+    this.prompt();
+    if (transaction.chainId !== undefined && transaction.chainId !== this.chainId) {
+      throw new Error(`Wallet is on chain ${this.chainId}, not ${transaction.chainId}`);
+    }
+    this.transactions.push(transaction);
+
+    if (this.options.broadcast) {
+      const sent = await this.account.connect(getProvider(this.chainId)).sendTransaction({
+        to: transaction.to,
+        value: transaction.value,
+        data: transaction.data,
+        nonce: transaction.nonce,
+        gasPrice: transaction.gasPrice,
+        maxFeePerGas: transaction.maxFeePerGas,
+        maxPriorityFeePerGas: transaction.maxPriorityFeePerGas,
+      });
+      return sent.hash;
+    }
+
+    // Unique but never mined
+    return ethers.id(`${this.chainId}:${this.transactions.length}:${transaction.to}:${transaction.data ?? ""}`);
+  }
+
+  on<E extends keyof WalletEvents>(event: E, listener: WalletEvents[E]) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event).add(listener as Listener);
+  }
+
+  off<E extends keyof WalletEvents>(event: E, listener: WalletEvents[E]) {
+    this.listeners.get(event)?.delete(listener as Listener);
+  }
+
+  // Fires a wallet event, e.g. to simulate the payer switching accounts
+  emit<E extends keyof WalletEvents>(event: E, ...args: Parameters<WalletEvents[E]>) {
+    this.listeners.get(event)?.forEach((listener) => listener(...args));
+  }
+}
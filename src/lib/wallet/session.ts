@@ -0,0 +1,17 @@
+import type { WalletConnector } from "./connector";
+
+// Id of the connector the payer last connected with, so the next visit can
+// reconnect it without asking again. Cleared when they disconnect.
+const LAST_CONNECTOR_KEY = "wallet.lastConnector";
+
+export function getLastConnectorId() {
+  return localStorage.getItem(LAST_CONNECTOR_KEY);
+}
+
+export function rememberConnector(connector: WalletConnector) {
+  localStorage.setItem(LAST_CONNECTOR_KEY, connector.id);
+}
+
+export function forgetConnector() {
+  localStorage.removeItem(LAST_CONNECTOR_KEY);
+}
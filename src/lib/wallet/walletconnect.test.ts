@@ -0,0 +1,243 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { USER_REJECTED_REQUEST } from "./connector";
+import {
+  WALLETCONNECT_DEEP_LINKS,
+  WalletConnectConnector,
+  walletConnectDeepLink,
+  type WalletConnectClient,
+} from "./walletconnect";
+
+// WalletConnectConnector against a stand-in for the sign client: pairing,
+// the wallet approving (or rejecting) the session, requests forwarded
+// through the relay, session events, and ending the session from either end.
+
+const ADDRESS = "0x75bB73a75EeCc43ffeAa3B48733292437C405f25";
+const PAIRING_URI = "wc:7f6e504bfad60b485450578e05678ed3e8e8c4751d3c6160be17160d63ec90f9@2?relay-protocol=irn&symKey=587d5484ce2a2a6ee3ba1962fdd7e8588e06200c46823bd18fbd67def96ad303";
+
+interface Proposal {
+  optionalNamespaces: { eip155: { chains: string[]; methods: string[]; events: string[] } };
+}
+
+type Handler = (event: { topic: string; params?: unknown }) => void;
+
+// The relay and the wallet on its other end. The wallet approves proposals
+// on the chains it supports (all of them unless `supportedChains` says
+// otherwise) and answers every request with `response`.
+class FakeSignClient {
+  supportedChains: number[] | null = null;
+  rejectProposals = false;
+  response: unknown = "0xsigned";
+  proposals: Proposal[] = [];
+  requests: { topic: string; chainId: string; request: { method: string; params?: unknown } }[] = [];
+  disconnected: { topic: string; reason: { code: number; message: string } }[] = [];
+  private sessions: ReturnType<FakeSignClient["buildSession"]>[] = [];
+  private handlers = new Map<string, Handler[]>();
+
+  session = { getAll: () => this.sessions };
+
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+  }
+
+  // Something the wallet did on its end, e.g. switching chains
+  emit(event: string, payload: { topic: string; params?: unknown }) {
+    this.handlers.get(event)?.forEach((handler) => handler(payload));
+  }
+
+  // A session saved by an earlier page load
+  remember(topic: string, chainIds: number[], expiry: number) {
+    this.sessions.push(this.buildSession(topic, chainIds, expiry));
+  }
+
+  async connect(proposal: Proposal) {
+    this.proposals.push(proposal);
+    const approval = async () => {
+      if (this.rejectProposals) {
+        throw Object.assign(new Error("User rejected."), { code: USER_REJECTED_REQUEST });
+      }
+      const chainIds = proposal.optionalNamespaces.eip155.chains
+        .map((chain) => Number(chain.split(":")[1]))
+        .filter((chainId) => !this.supportedChains || this.supportedChains.includes(chainId));
+      const session = this.buildSession(`topic-${this.proposals.length}`, chainIds, Date.now() / 1000 + 3600);
+      this.sessions.push(session);
+      return session;
+    };
+    return { uri: PAIRING_URI, approval };
+  }
+
+  async request(request: FakeSignClient["requests"][number]) {
+    this.requests.push(request);
+    return this.response;
+  }
+
+  async disconnect(disconnect: FakeSignClient["disconnected"][number]) {
+    this.disconnected.push(disconnect);
+    this.sessions = this.sessions.filter((session) => session.topic !== disconnect.topic);
+  }
+
+  private buildSession(topic: string, chainIds: number[], expiry: number) {
+    return {
+      topic,
+      expiry,
+      peer: { metadata: { name: "Phone Wallet" } },
+      namespaces: { eip155: { accounts: chainIds.map((chainId) => `eip155:${chainId}:${ADDRESS}`) } },
+    };
+  }
+}
+
+let client: FakeSignClient;
+const connectWallet = () =>
+  new WalletConnectConnector({
+    projectId: "test",
+    createClient: async () => client as unknown as WalletConnectClient,
+  });
+
+beforeEach(() => {
+  client = new FakeSignClient();
+});
+
+describe("WalletConnectConnector", () => {
+  describe("pairing", () => {
+    it("shows the pairing URI and proposes every accepted chain, the preferred one first", async () => {
+      const wallet = connectWallet();
+      const displayUri = vi.fn();
+      wallet.on("displayUri", displayUri);
+
+      expect(await wallet.connect([8453, 84532])).toEqual([ADDRESS]);
+      expect(displayUri).toHaveBeenCalledWith(PAIRING_URI);
+      const [{ optionalNamespaces }] = client.proposals;
+      expect(optionalNamespaces.eip155.chains).toEqual(["eip155:8453", "eip155:84532"]);
+      expect(optionalNamespaces.eip155.methods).toContain("eth_sendTransaction");
+      expect(optionalNamespaces.eip155.events).toEqual(["accountsChanged", "chainChanged"]);
+    });
+
+    it("links to each mobile wallet with the pairing URI", () => {
+      const [metamask] = WALLETCONNECT_DEEP_LINKS;
+      const link = walletConnectDeepLink(metamask, PAIRING_URI);
+
+      expect(link.startsWith("https://metamask.app.link/wc?uri=")).toBe(true);
+      expect(decodeURIComponent(link.slice(metamask.url.length))).toBe(PAIRING_URI);
+      expect(new URL(link).searchParams.get("uri")).toBe(PAIRING_URI);
+    });
+  });
+
+  describe("session approval", () => {
+    it("starts on the preferred chain and names the paired wallet", async () => {
+      const wallet = connectWallet();
+      await wallet.connect([8453, 84532]);
+
+      expect(await wallet.getChainId()).toBe(8453);
+      expect(await wallet.getAccounts()).toEqual([ADDRESS]);
+      expect(wallet.peerName).toBe("Phone Wallet");
+    });
+
+    it("moves to a chain the wallet approved when it left out the preferred one", async () => {
+      client.supportedChains = [84532];
+      const wallet = connectWallet();
+
+      expect(await wallet.connect([8453, 84532])).toEqual([ADDRESS]);
+      expect(await wallet.getChainId()).toBe(84532);
+    });
+
+    it("fails like a payer rejecting the session in their wallet", async () => {
+      client.rejectProposals = true;
+      const wallet = connectWallet();
+
+      await expect(wallet.connect([8453])).rejects.toMatchObject({ code: USER_REJECTED_REQUEST });
+      expect(await wallet.getAccounts()).toEqual([]);
+    });
+
+    it("resumes a live session from an earlier visit and skips expired ones", async () => {
+      client.remember("live", [84532], Date.now() / 1000 + 3600);
+      client.remember("expired", [8453], Date.now() / 1000 - 60);
+      const wallet = connectWallet();
+
+      expect(await wallet.reconnect()).toEqual([ADDRESS]);
+      expect(await wallet.getChainId()).toBe(84532);
+      await wallet.signMessage(ADDRESS, "hello");
+      expect(client.requests[0].topic).toBe("live");
+    });
+
+    it("has nothing to resume without a session", async () => {
+      expect(await connectWallet().reconnect()).toEqual([]);
+    });
+  });
+
+  describe("requests", () => {
+    it("forwards signatures to the wallet on the session's current chain", async () => {
+      const wallet = connectWallet();
+      await wallet.connect([8453, 84532]);
+
+      expect(await wallet.signMessage(ADDRESS, "hello")).toBe("0xsigned");
+      expect(client.requests).toEqual([{
+        topic: "topic-1",
+        chainId: "eip155:8453",
+        request: { method: "personal_sign", params: ["0x68656c6c6f", ADDRESS] },
+      }]);
+    });
+
+    it("switches between approved chains without asking the wallet", async () => {
+      const wallet = connectWallet();
+      const chainChanged = vi.fn();
+      wallet.on("chainChanged", chainChanged);
+      await wallet.connect([8453, 84532]);
+
+      await wallet.switchChain(84532);
+      expect(chainChanged).toHaveBeenCalledWith(84532);
+      expect(await wallet.getChainId()).toBe(84532);
+      expect(client.requests).toEqual([]);
+
+      await wallet.sendTransaction({ from: ADDRESS, to: ADDRESS, value: 1n });
+      expect(client.requests[0].chainId).toBe("eip155:84532");
+    });
+
+    it("follows the chain and accounts the wallet changes", async () => {
+      const wallet = connectWallet();
+      const chainChanged = vi.fn();
+      const accountsChanged = vi.fn();
+      wallet.on("chainChanged", chainChanged);
+      wallet.on("accountsChanged", accountsChanged);
+      await wallet.connect([8453, 84532]);
+
+      client.emit("session_event", { topic: "topic-1", params: { event: { name: "chainChanged", data: 84532 } } });
+      expect(chainChanged).toHaveBeenCalledWith(84532);
+
+      client.emit("session_update", {
+        topic: "topic-1",
+        params: { namespaces: { eip155: { accounts: [] } } },
+      });
+      expect(accountsChanged).toHaveBeenCalledWith([]);
+
+      // Another page's session is none of this one's business
+      client.emit("session_event", { topic: "other", params: { event: { name: "chainChanged", data: 1 } } });
+      expect(chainChanged).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("disconnect", () => {
+    it("ends the session on both ends", async () => {
+      const wallet = connectWallet();
+      const disconnected = vi.fn();
+      wallet.on("disconnect", disconnected);
+      await wallet.connect([8453]);
+
+      await wallet.disconnect();
+      expect(client.disconnected).toEqual([{ topic: "topic-1", reason: { code: 6000, message: "User disconnected" } }]);
+      expect(disconnected).toHaveBeenCalledTimes(1);
+      expect(await wallet.getAccounts()).toEqual([]);
+      expect(await wallet.reconnect()).toEqual([]);
+    });
+
+    it("drops the session when the wallet ends it", async () => {
+      const wallet = connectWallet();
+      const disconnected = vi.fn();
+      wallet.on("disconnect", disconnected);
+      await wallet.connect([8453]);
+
+      client.emit("session_delete", { topic: "topic-1" });
+      expect(disconnected).toHaveBeenCalledTimes(1);
+      expect(await wallet.getAccounts()).toEqual([]);
+      await expect(wallet.signMessage(ADDRESS, "hello")).rejects.toMatchObject({ code: 4900 });
+    });
+  });
+});
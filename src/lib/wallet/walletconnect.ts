@@ -0,0 +1,276 @@
+import SignClient from "@walletconnect/sign-client";
+import { DEFAULT_CHAIN_ID, getProvider, toHexChainId } from "@/lib/chains";
+import type { EIP1193Provider } from "@/lib/eip6963";
+import { Eip1193Connector } from "./connector";
+
+// WalletConnect v2: the payer's wallet (usually on their phone) pairs with
+// this page through a relay server and answers the requests we forward.
+export const WALLETCONNECT_PROJECT_ID: string | undefined = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID;
+// Override for the relay, e.g. a local stand-in during development
+export const WALLETCONNECT_RELAY_URL: string | undefined = import.meta.env.VITE_WALLETCONNECT_RELAY_URL;
+
+// Requests only the wallet can answer; everything else is a plain read and
+// goes to the chain's public RPC instead of round-tripping through the relay.
+const WALLET_METHODS = [
+  "eth_sendTransaction",
+  "personal_sign",
+  "eth_signTypedData_v4",
+  "wallet_switchEthereumChain",
+  "wallet_addEthereumChain"
+];
+const WALLET_EVENTS = ["accountsChanged", "chainChanged"];
+
+// Pairing deep links for mobile wallets; each takes the URL-encoded pairing URI
+export const WALLETCONNECT_DEEP_LINKS = [
+  { name: "MetaMask", url: "https://metamask.app.link/wc?uri=" },
+  { name: "Rainbow", url: "https://rnbwapp.com/wc?uri=" },
+  { name: "Trust Wallet", url: "https://link.trustwallet.com/wc?uri=" }
+];
+
+// Link opening `wallet` on the payer's phone to approve the pairing
+export function walletConnectDeepLink(wallet: { url: string }, pairingUri: string) {
+  return `${wallet.url}${encodeURIComponent(pairingUri)}`;
+}
+
+export type WalletConnectClient = Awaited<ReturnType<typeof SignClient.init>>;
+type WalletConnectSession = ReturnType<WalletConnectClient["session"]["getAll"]>[number];
+type Listener = (...args: unknown[]) => void;
+
+export interface WalletConnectOptions {
+  projectId: string;
+  relayUrl?: string;
+  // Swaps in another client, e.g. one wired to a local relay stand-in
+  createClient?: () => Promise<WalletConnectClient>;
+}
+
+// "eip155:8453:0xabc…" → [8453, "0xabc…"]
+function parseAccount(account: string): [number, string] {
+  const [, chainId, address] = account.split(":");
+  return [Number(chainId), address];
+}
+
+// Exposes a WalletConnect session as an EIP-1193 provider, so the rest of the
+// checkout talks to it exactly like an injected wallet.
+export class WalletConnectProvider implements EIP1193Provider {
+  private client: WalletConnectClient | null = null;
+  private session: WalletConnectSession | null = null;
+  private chainId = DEFAULT_CHAIN_ID;
+  private listeners = new Map<string, Set<Listener>>();
+
+  constructor(private options: WalletConnectOptions) {}
+
+  get connected() {
+    return Boolean(this.session);
+  }
+
+  // Name of the paired wallet, as it describes itself
+  get peerName() {
+    return this.session?.peer.metadata.name ?? null;
+  }
+
+  private async getClient() {
+    if (this.client) return this.client;
+
+    const client = await (this.options.createClient ?? (() => SignClient.init({
+      projectId: this.options.projectId,
+      relayUrl: this.options.relayUrl,
+      metadata: {
+        name: document.title,
+        description: "Crypto checkout",
+        url: window.location.origin,
+        icons: [`${window.location.origin}/favicon.ico`]
+      }
+    })))();
+
+    client.on("session_event", ({ topic, params }) => {
+      if (topic !== this.session?.topic) return;
+
+      const { name, data } = params.event;
+      if (name === "chainChanged") {
+        this.chainId = Number(data);
+        this.emit("chainChanged", toHexChainId(this.chainId));
+      } else if (name === "accountsChanged") {
+        this.emit("accountsChanged", this.accounts);
+      }
+    });
+    client.on("session_update", ({ topic, params }) => {
+      if (topic !== this.session?.topic) return;
+
+      this.session = { ...this.session, namespaces: params.namespaces };
+      this.emit("accountsChanged", this.accounts);
+    });
+    const handleEnded = ({ topic }: { topic: string }) => {
+      if (topic !== this.session?.topic) return;
+
+      this.session = null;
+      this.emit("disconnect");
+    };
+    client.on("session_delete", handleEnded);
+    client.on("session_expire", handleEnded);
+
+    this.client = client;
+    return client;
+  }
+
+  // Chains the wallet approved for this session
+  get chainIds() {
+    const accounts = this.session?.namespaces.eip155?.accounts ?? [];
+    return [...new Set(accounts.map((account) => parseAccount(account)[0]))];
+  }
+
+  // Addresses approved on the current chain
+  get accounts() {
+    const accounts = this.session?.namespaces.eip155?.accounts ?? [];
+    return [...new Set(
+      accounts
+        .map(parseAccount)
+        .filter(([chainId]) => chainId === this.chainId)
+        .map(([, address]) => address)
+    )];
+  }
+
+  private useSession(session: WalletConnectSession) {
+    this.session = session;
+
+    const approved = this.chainIds;
+    if (approved.length > 0 && !approved.includes(this.chainId)) {
+      this.chainId = approved[0];
+    }
+  }
+
+  // Resumes the session a previous page load paired, if it is still alive.
+  // The client keeps sessions in browser storage, so they survive reloads.
+  async restore() {
+    const client = await this.getClient();
+    const session = client.session
+      .getAll()
+      .filter((known) => known.expiry * 1000 > Date.now())
+      .pop();
+    if (!session) return false;
+
+    this.useSession(session);
+    return true;
+  }
+
+  // Proposes a session on `chainIds`, the first being the one requests start
+  // on. The pairing URI to show as a QR code or deep link is emitted as
+  // "displayUri"; resolves once the wallet approves.
+  async connect(chainIds: number[]) {
+    const client = await this.getClient();
+    this.chainId = chainIds[0] ?? DEFAULT_CHAIN_ID;
+    const { uri, approval } = await client.connect({
+      optionalNamespaces: {
+        eip155: {
+          chains: chainIds.map((chainId) => `eip155:${chainId}`),
+          methods: WALLET_METHODS,
+          events: WALLET_EVENTS
+        }
+      }
+    });
+    if (uri) this.emit("displayUri", uri);
+
+    this.useSession(await approval());
+    this.emit("connect", { chainId: toHexChainId(this.chainId) });
+    return this.accounts;
+  }
+
+  // Ends the session on both ends, so the wallet drops it from its list too
+  async disconnect() {
+    const session = this.session;
+    if (!session) return;
+
+    this.session = null;
+    try {
+      const client = await this.getClient();
+      await client.disconnect({
+        topic: session.topic,
+        reason: { code: 6000, message: "User disconnected" }
+      });
+    } catch (error) {
+      // The wallet may already have dropped it; the local session is gone either way
+      console.error("WalletConnect disconnect error:", error);
+    }
+    this.emit("disconnect");
+  }
+
+  async request({ method, params }: { method: string; params?: unknown[] | Record<string, unknown> }) {
+    switch (method) {
+      case "eth_accounts":
+      case "eth_requestAccounts":
+        return this.accounts;
+      case "eth_chainId":
+        return toHexChainId(this.chainId);
+      case "wallet_switchEthereumChain": {
+        // Sessions span every approved chain; requests just carry a different chain id
+        const [{ chainId }] = params as [{ chainId: string }];
+        const targetChainId = Number(chainId);
+        if (this.chainIds.includes(targetChainId)) {
+          this.chainId = targetChainId;
+          this.emit("chainChanged", toHexChainId(targetChainId));
+          return null;
+        }
+        break;
+      }
+    }
+
+    if (!WALLET_METHODS.includes(method)) {
+      return getProvider(this.chainId).send(method, (params as unknown[]) ?? []);
+    }
+
+    if (!this.session) {
+      throw Object.assign(new Error("WalletConnect session is not connected"), { code: 4900 });
+    }
+
+    const client = await this.getClient();
+    return client.request({
+      topic: this.session.topic,
+      chainId: `eip155:${this.chainId}`,
+      request: { method, params }
+    });
+  }
+
+  on(event: string, listener: Listener) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event).add(listener);
+  }
+
+  removeListener(event: string, listener: Listener) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  private emit(event: string, ...args: unknown[]) {
+    this.listeners.get(event)?.forEach((listener) => listener(...args));
+  }
+}
+
+// Connector over a WalletConnect session. Besides connecting anew, it can
+// resume the session a previous page load paired.
+export class WalletConnectConnector extends Eip1193Connector {
+  private provider: WalletConnectProvider;
+
+  constructor(options: WalletConnectOptions) {
+    super("walletconnect", "WalletConnect", "🔗");
+    this.provider = new WalletConnectProvider(options);
+  }
+
+  protected getProvider() {
+    return this.provider;
+  }
+
+  // Name of the paired wallet, as it describes itself
+  get peerName() {
+    return this.provider.peerName;
+  }
+
+  async reconnect() {
+    return (await this.provider.restore()) ? this.getAccounts() : [];
+  }
+
+  connect(chainIds: number[]) {
+    return this.provider.connect(chainIds);
+  }
+
+  disconnect() {
+    return this.provider.disconnect();
+  }
+}
@@ -1,7 +1,8 @@
 import { CryptoPayment } from "../components/CryptoPayment";
+import { PREMIUM_RESOURCE_URL } from "@/lib/paywall";
 
 const Index = () => {
-  return <CryptoPayment />;
+  return <CryptoPayment resourceUrl={PREMIUM_RESOURCE_URL} productId="premium-resource" />;
 };
 
 export default Index;
@@ -0,0 +1,32 @@
+import { useMemo } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { CryptoPayment } from "../components/CryptoPayment";
+import { parsePaymentLink } from "@/lib/links";
+
+// Checkout for a shared payment link, /pay?amount=12.50&token=USDC&memo=INV-42
+const Pay = () => {
+  const [searchParams] = useSearchParams();
+  const query = searchParams.toString();
+  const link = useMemo(() => parsePaymentLink(new URLSearchParams(query)), [query]);
+
+  if (!link) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md p-8 text-center space-y-4 shadow-lg">
+          <h1 className="text-2xl font-bold text-foreground">Invalid payment link</h1>
+          <p className="text-muted-foreground">
+            This link is missing an amount or names a token that isn't supported. Ask the merchant for a new one.
+          </p>
+          <Link to="/" className="text-sm text-crypto-blue hover:text-crypto-blue-hover transition-colors">
+            Go to checkout
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  return <CryptoPayment key={query} link={link} />;
+};
+
+export default Pay;
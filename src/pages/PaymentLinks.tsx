@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Copy, ExternalLink, Link2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getPaymentConfig, PaymentApiError } from "@/lib/payments";
+import { paymentLinkUrl, signPaymentLink, type PaymentLink } from "@/lib/links";
+import type { TokenSymbol } from "@/lib/chains";
+
+// How long a new link stays payable, in seconds; 0 never expires
+const EXPIRY_OPTIONS = [
+  { label: "Never", seconds: 0 },
+  { label: "1 hour", seconds: 60 * 60 },
+  { label: "24 hours", seconds: 24 * 60 * 60 },
+  { label: "7 days", seconds: 7 * 24 * 60 * 60 },
+  { label: "30 days", seconds: 30 * 24 * 60 * 60 },
+];
+
+// Link generator at /pay/new. With the merchant API key the backend signs the
+// link, locking its amount, token and recipient; without it the link is only
+// a pre-filled checkout the payer's browser could edit.
+const PaymentLinks = () => {
+  const [amount, setAmount] = useState("");
+  const [token, setToken] = useState<TokenSymbol>("USDC");
+  const [memo, setMemo] = useState("");
+  const [recipient, setRecipient] = useState("");
+  const [expiresIn, setExpiresIn] = useState(0);
+  const [merchantKey, setMerchantKey] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { data: paymentConfig } = useQuery({ queryKey: ["payment-config"], queryFn: getPaymentConfig });
+
+  const handleCreate = async () => {
+    if (!/^\d+(\.\d+)?$/.test(amount) || Number(amount) <= 0) {
+      toast({ title: "Invalid amount", description: "Enter an amount greater than zero.", variant: "destructive" });
+      return;
+    }
+    if (recipient && !merchantKey) {
+      toast({
+        title: "Merchant key required",
+        description: "Only signed links can name a recipient.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const link: PaymentLink = merchantKey
+        ? await signPaymentLink(merchantKey, {
+          amount,
+          token,
+          memo: memo || undefined,
+          recipient: recipient || undefined,
+          expiresIn: expiresIn || undefined,
+        })
+        : {
+          amount,
+          token,
+          memo: memo || null,
+          recipient: null,
+          expires: expiresIn ? Math.floor(Date.now() / 1000) + expiresIn : null,
+          signature: null,
+        };
+      setUrl(paymentLinkUrl(link));
+    } catch (error) {
+      console.error('Error creating payment link:', error);
+      toast({
+        title: "Link not created",
+        description: error instanceof PaymentApiError ? error.message : "Unable to sign the link. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Link copied", description: "Send it to the payer." });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md p-8 space-y-6 shadow-lg animate-slide-down">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-sm font-medium text-crypto-blue">
+            <Link2 size={16} />
+            Payment links
+          </div>
+          <h1 className="text-2xl font-bold text-foreground">Request a payment</h1>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="link-amount">Amount</Label>
+              <Input
+                id="link-amount"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value.trim())}
+                placeholder="12.50"
+              />
+            </div>
+            <div className="w-28 space-y-1">
+              <Label>Token</Label>
+              <Select value={token} onValueChange={(value) => setToken(value as TokenSymbol)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(paymentConfig?.acceptedTokens ?? ["USDC"]).map((symbol) => (
+                    <SelectItem key={symbol} value={symbol}>
+                      {symbol}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="link-memo">Memo</Label>
+            <Input
+              id="link-memo"
+              maxLength={140}
+              value={memo}
+              onChange={(e) => setMemo(e.target.value)}
+              placeholder="INV-42"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="link-recipient">Recipient (signed links only)</Label>
+            <Input
+              id="link-recipient"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value.trim())}
+              placeholder="Merchant's default address"
+              className="font-mono"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Expires after</Label>
+            <Select value={String(expiresIn)} onValueChange={(value) => setExpiresIn(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.seconds} value={String(option.seconds)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="link-merchant-key">Merchant API key</Label>
+            <Input
+              id="link-merchant-key"
+              type="password"
+              autoComplete="off"
+              value={merchantKey}
+              onChange={(e) => setMerchantKey(e.target.value)}
+              placeholder="Leave empty for an unsigned link"
+            />
+          </div>
+
+          <Button
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="w-full bg-crypto-blue hover:bg-crypto-blue-hover text-white"
+          >
+            {isCreating ? "Signing..." : merchantKey ? "Create signed link" : "Create link"}
+          </Button>
+        </div>
+
+        {url && (
+          <div className="space-y-2 animate-slide-down">
+            <div className="flex gap-2">
+              <Input readOnly value={url} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={copyUrl} aria-label="Copy link">
+                <Copy size={14} />
+              </Button>
+            </div>
+            <a
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-crypto-blue hover:text-crypto-blue-hover inline-flex items-center gap-1 transition-colors"
+            >
+              Open checkout
+              <ExternalLink size={12} />
+            </a>
+          </div>
+        )}
+
+        <Link to="/" className="block text-sm text-crypto-blue hover:text-crypto-blue-hover transition-colors">
+          Back to checkout
+        </Link>
+      </Card>
+    </div>
+  );
+};
+
+export default PaymentLinks;
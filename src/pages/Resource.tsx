@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { CheckCircle2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { CryptoPayment } from "../components/CryptoPayment";
+import { getResourceUrl, type PremiumContent } from "@/lib/paywall";
+
+// Premium content at /resource/:id. Visitors with an entitlement see it right
+// away; everyone else gets the checkout for that resource, titled after its
+// catalog product, which swaps for the content as soon as the payment is
+// verified.
+const Resource = () => {
+  const { id } = useParams();
+  const [content, setContent] = useState<PremiumContent | null>(null);
+
+  useEffect(() => {
+    setContent(null);
+  }, [id]);
+
+  if (!content) {
+    return <CryptoPayment key={id} resourceUrl={getResourceUrl(id)} productId={id} onUnlock={setContent} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl p-8 space-y-4 shadow-lg animate-slide-down">
+        <div className="flex items-center gap-2 text-sm font-medium text-crypto-green">
+          <CheckCircle2 size={16} />
+          Premium access
+        </div>
+        <h1 className="text-2xl font-bold text-foreground">{content.title}</h1>
+        <p className="text-muted-foreground">{content.body}</p>
+        <Link to="/" className="text-sm text-crypto-blue hover:text-crypto-blue-hover transition-colors">
+          Back to checkout
+        </Link>
+      </Card>
+    </div>
+  );
+};
+
+export default Resource;
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { WalletModal } from "@/components/WalletModal";
+import { useToast } from "@/hooks/use-toast";
+import { useAuthSession } from "@/hooks/use-auth-session";
+import { getPaymentConfig, PaymentApiError } from "@/lib/payments";
+import { getToken, formatTokenAmount } from "@/lib/chains";
+import { sessionAddress, signInWithEthereum } from "@/lib/siwe";
+import { USER_REJECTED_REQUEST, type WalletConnector } from "@/lib/wallet";
+import {
+  cancelSubscription,
+  formatBillingInterval,
+  getPlans,
+  getSubscriptions,
+  resumeSubscription,
+  signSubscriptionPermit,
+  subscribe,
+  SUBSCRIPTION_STATUS_LABELS,
+  type Subscription,
+  type SubscriptionPlan
+} from "@/lib/subscriptions";
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+// Plans and the signed-in wallet's subscriptions at /subscriptions.
+// Subscribing signs one permit covering several periods; "Renew allowance"
+// signs a fresh one once those run out.
+const Subscriptions = () => {
+  const [wallet, setWallet] = useState<WalletConnector | null>(null);
+  const [address, setAddress] = useState<string | null>(null);
+  const [isWalletModalOpen, setIsWalletModalOpen] = useState(false);
+  const [pairingUri, setPairingUri] = useState<string | null>(null);
+  // Plan or subscription an action is running for
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const session = useAuthSession();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const signedIn = Boolean(address) && sessionAddress(session) === address?.toLowerCase();
+
+  const { data: paymentConfig } = useQuery({ queryKey: ["payment-config"], queryFn: getPaymentConfig });
+  const { data: plans = [] } = useQuery({ queryKey: ["subscription-plans"], queryFn: getPlans });
+  const { data: subscriptions = [] } = useQuery({
+    queryKey: ["subscriptions", session?.user.id],
+    queryFn: getSubscriptions,
+    enabled: Boolean(session),
+  });
+
+  // First accepted chain the plan's token can be permitted on
+  const planChainId = (plan: SubscriptionPlan) =>
+    paymentConfig?.acceptedChainIds.find((chainId) => getToken(chainId, plan.token)?.eip2612);
+
+  const refreshSubscriptions = () => queryClient.invalidateQueries({ queryKey: ["subscriptions"] });
+
+  const handleWalletSelect = async (connector: WalletConnector) => {
+    try {
+      connector.on("displayUri", setPairingUri);
+      const accounts = await connector.connect(paymentConfig?.acceptedChainIds ?? []).finally(() => {
+        connector.off("displayUri", setPairingUri);
+        setPairingUri(null);
+      });
+      if (accounts.length === 0) return;
+
+      setWallet(connector);
+      setAddress(accounts[0]);
+      if (sessionAddress(session) !== accounts[0].toLowerCase()) {
+        await signInWithEthereum(connector, accounts[0], await connector.getChainId());
+      }
+    } catch (error) {
+      console.error('Error connecting wallet:', error);
+      toast({
+        title: "Not signed in",
+        description: error?.code === USER_REJECTED_REQUEST
+          ? "Sign in with your wallet to manage subscriptions."
+          : "Unable to connect and sign in with your wallet.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Signs an allowance for the configured number of periods and hands it
+  // to the merchant, which charges the first period unless one is paid
+  const handleSubscribe = async (plan: SubscriptionPlan) => {
+    const chainId = planChainId(plan);
+    if (!wallet || !address || !paymentConfig?.subscriptionSpenderAddress || !chainId) return;
+
+    setBusyId(plan.id);
+    try {
+      if ((await wallet.getChainId()) !== chainId) {
+        await wallet.switchChain(chainId);
+      }
+      const { permit, signature } = await signSubscriptionPermit(
+        wallet,
+        plan,
+        chainId,
+        address,
+        paymentConfig.subscriptionSpenderAddress,
+        paymentConfig.subscriptionAllowancePeriods
+      );
+      await subscribe(plan.id, chainId, permit, signature);
+      toast({
+        title: "Subscribed",
+        description: `${plan.name} renews ${formatBillingInterval(plan)}.`,
+      });
+    } catch (error) {
+      console.error('Subscribe error:', error);
+      toast({
+        title: "Subscription failed",
+        description: error?.code === USER_REJECTED_REQUEST
+          ? "The permit was not signed."
+          : error instanceof PaymentApiError ? error.message : "Unable to subscribe. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setBusyId(null);
+      refreshSubscriptions();
+    }
+  };
+
+  const handleManage = async (subscription: Subscription, action: "cancel" | "resume") => {
+    setBusyId(subscription.id);
+    try {
+      await (action === "cancel" ? cancelSubscription : resumeSubscription)(subscription.id);
+    } catch (error) {
+      console.error(`Subscription ${action} error:`, error);
+      toast({
+        title: action === "cancel" ? "Cancel failed" : "Resume failed",
+        description: error instanceof PaymentApiError ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setBusyId(null);
+      refreshSubscriptions();
+    }
+  };
+
+  const planFor = (subscription: Subscription) => plans.find((plan) => plan.id === subscription.plan_id);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl p-8 space-y-6 shadow-lg animate-slide-down">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-sm font-medium text-crypto-blue">
+            <Repeat size={16} />
+            Subscriptions
+          </div>
+          <h1 className="text-2xl font-bold text-foreground">Pay as you go, per period</h1>
+          <p className="text-sm text-muted-foreground">
+            One signature allows up to {paymentConfig?.subscriptionAllowancePeriods ?? "several"} periods to be
+            charged from your wallet. Cancel any time; access lasts until the paid period ends.
+          </p>
+        </div>
+
+        {!signedIn && (
+          <Button
+            onClick={() => setIsWalletModalOpen(true)}
+            className="w-full bg-crypto-blue hover:bg-crypto-blue-hover text-white"
+          >
+            Connect wallet and sign in
+          </Button>
+        )}
+
+        <div className="space-y-3">
+          {plans.map((plan) => (
+            <div key={plan.id} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+              <div>
+                <div className="font-medium text-foreground">{plan.name}</div>
+                {plan.description && <div className="text-sm text-muted-foreground">{plan.description}</div>}
+                <div className="text-sm text-foreground">
+                  {formatTokenAmount(plan.price_amount, plan.token)} {formatBillingInterval(plan)}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                disabled={!signedIn || !planChainId(plan) || busyId !== null}
+                onClick={() => handleSubscribe(plan)}
+              >
+                {busyId === plan.id ? "Signing..." : "Subscribe"}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {signedIn && subscriptions.length > 0 && (
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold text-foreground">Your subscriptions</h2>
+            {subscriptions.map((subscription) => {
+              const plan = planFor(subscription);
+              const ending = subscription.cancel_at_period_end || subscription.status === "canceled";
+              return (
+                <div key={subscription.id} className="space-y-2 rounded-lg border p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="font-medium text-foreground">{plan?.name ?? subscription.plan_id}</span>
+                    <Badge variant={subscription.status === "active" ? "secondary" : "destructive"}>
+                      {SUBSCRIPTION_STATUS_LABELS[subscription.status]}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {ending ? "Access ends" : "Renews"} {formatDate(subscription.current_period_end)}
+                  </p>
+                  {subscription.failure_reason && (
+                    <p className="text-sm text-destructive">{subscription.failure_reason}</p>
+                  )}
+                  <div className="flex gap-2">
+                    {subscription.status === "active" && !subscription.cancel_at_period_end && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId !== null}
+                        onClick={() => handleManage(subscription, "cancel")}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                    {subscription.status === "active" && subscription.cancel_at_period_end && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId !== null}
+                        onClick={() => handleManage(subscription, "resume")}
+                      >
+                        Resume
+                      </Button>
+                    )}
+                    {plan && (subscription.status === "active" || subscription.status === "past_due") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId !== null}
+                        onClick={() => handleSubscribe(plan)}
+                      >
+                        Renew allowance
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <Link to="/" className="block text-sm text-crypto-blue hover:text-crypto-blue-hover transition-colors">
+          Back to checkout
+        </Link>
+      </Card>
+
+      <WalletModal
+        isOpen={isWalletModalOpen}
+        onClose={() => {
+          setIsWalletModalOpen(false);
+          setPairingUri(null);
+        }}
+        onWalletSelect={handleWalletSelect}
+        pairingUri={pairingUri}
+      />
+    </div>
+  );
+};
+
+export default Subscriptions;
@@ -0,0 +1,64 @@
+import type { SupabaseClient, User } from "npm:@supabase/supabase-js@2.50.5";
+
+// Wallet users have no real mailbox; auth still keys users by email, so each
+// address gets a placeholder one that never receives mail.
+const WALLET_EMAIL_DOMAIN = "wallet.invalid";
+
+// User behind the request's bearer token, or null for anonymous requests
+// (which carry the anon key instead of a user session).
+export async function getRequestUser(supabase: SupabaseClient, req: Request): Promise<User | null> {
+  const token = req.headers.get("authorization")?.replace(/^Bearer /i, "");
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  return error ? null : data.user;
+}
+
+async function findOrCreateWalletUser(supabase: SupabaseClient, address: string) {
+  const { data: account, error } = await supabase
+    .from("wallet_accounts")
+    .select("user_id")
+    .eq("address", address)
+    .maybeSingle();
+  if (error) throw error;
+  if (account) return account.user_id as string;
+
+  const { data: created, error: createError } = await supabase.auth.admin.createUser({
+    email: `${address}@${WALLET_EMAIL_DOMAIN}`,
+    email_confirm: true,
+    user_metadata: { wallet_address: address },
+  });
+  if (createError) throw createError;
+
+  const { error: linkError } = await supabase
+    .from("wallet_accounts")
+    .insert({ address, user_id: created.user.id });
+  if (linkError) throw linkError;
+
+  return created.user.id;
+}
+
+// Starts a Supabase session for the wallet, creating its user on first
+// sign-in. Sessions can't be minted directly, so a one-time magic link token
+// is generated and redeemed right here instead of being mailed.
+export async function signInWallet(supabase: SupabaseClient, address: string) {
+  const wallet = address.toLowerCase();
+  const userId = await findOrCreateWalletUser(supabase, wallet);
+
+  const { data: user, error: userError } = await supabase.auth.admin.getUserById(userId);
+  if (userError) throw userError;
+
+  const { data: link, error: linkError } = await supabase.auth.admin.generateLink({
+    type: "magiclink",
+    email: user.user.email,
+  });
+  if (linkError) throw linkError;
+
+  const { data, error } = await supabase.auth.verifyOtp({
+    type: "magiclink",
+    token_hash: link.properties.hashed_token,
+  });
+  if (error) throw error;
+
+  return data.session;
+}
@@ -0,0 +1,90 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { IntentError } from "./intents.ts";
+
+export type PaymentAuthorizationStatus =
+  | "authorized"
+  | "partially_captured"
+  // While capture-payment pulls funds (see transitionAuthorization)
+  | "capturing"
+  | "captured"
+  | "voided"
+  | "expired";
+
+export interface PaymentAuthorization {
+  id: string;
+  intent_id: string;
+  chain_id: number;
+  token_address: string;
+  owner_address: string;
+  spender_address: string;
+  // Written as exact decimal strings (formatUnits), which the NUMERIC
+  // columns keep as sent
+  authorized_amount: number | string;
+  captured_amount: number | string;
+  permit_nonce: string;
+  permit_deadline: string;
+  permit_signature: string;
+  permit_tx_hash: string | null;
+  status: PaymentAuthorizationStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// What callers outside the backend get to see: never the payer's signature.
+export function authorizationSummary(authorization: PaymentAuthorization) {
+  const { permit_signature: _signature, ...summary } = authorization;
+  return summary;
+}
+
+export async function loadAuthorization(supabase: SupabaseClient, authorizationId: unknown) {
+  if (typeof authorizationId !== "string") {
+    throw new IntentError("Invalid authorization id");
+  }
+
+  const { data, error } = await supabase
+    .from("payment_authorizations")
+    .select("*")
+    .eq("id", authorizationId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new IntentError("Authorization not found", 404);
+
+  return data as PaymentAuthorization;
+}
+
+export async function updateAuthorization(
+  supabase: SupabaseClient,
+  authorizationId: string,
+  changes: Partial<PaymentAuthorization>
+) {
+  const { data, error } = await supabase
+    .from("payment_authorizations")
+    .update(changes)
+    .eq("id", authorizationId)
+    .select()
+    .single();
+  if (error) throw error;
+
+  return data as PaymentAuthorization;
+}
+
+// Applies `changes` only if the authorization still has the status it was
+// loaded with. Captures move it to `capturing` this way before sending
+// anything, so only one runs at a time and a void can't slip in meanwhile.
+export async function transitionAuthorization(
+  supabase: SupabaseClient,
+  authorization: PaymentAuthorization,
+  changes: Partial<PaymentAuthorization>
+) {
+  const { data, error } = await supabase
+    .from("payment_authorizations")
+    .update(changes)
+    .eq("id", authorization.id)
+    .eq("status", authorization.status)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new IntentError("Authorization was changed by another request; try again", 409);
+
+  return data as PaymentAuthorization;
+}
@@ -0,0 +1,212 @@
+import { ethers } from "npm:ethers@6.15.0";
+
+// Server-side counterpart of src/lib/chains.ts: the chains and tokens the
+// functions can verify payments on. RPC endpoints can be overridden per chain
+// with RPC_URL_<chainId>, e.g. RPC_URL_31337 for the local dev chain.
+export type TokenSymbol = "USDC" | "USDT" | "DAI" | "EURC" | "ETH";
+
+export interface TokenInfo {
+  symbol: TokenSymbol;
+  // Fiat currency the token is pegged to. Intents may move between tokens
+  // with the same peg; unpegged tokens (ETH) stay in the token they were quoted in.
+  currency: "USD" | "EUR" | null;
+  // Decimal places amounts are quoted in
+  precision: number;
+  native?: boolean;
+  // Supports EIP-3009 transferWithAuthorization (gasless payments)
+  eip3009?: boolean;
+  // Supports EIP-2612 permit (authorize now, capture later)
+  eip2612?: boolean;
+}
+
+export interface TokenConfig extends TokenInfo {
+  address: string;
+}
+
+export interface ChainConfig {
+  id: number;
+  network: string;
+  rpcUrl: string;
+  // Token contract addresses on this chain; native ETH is listed with
+  // NATIVE_TOKEN_ADDRESS where it is the chain's gas token
+  tokens: Partial<Record<TokenSymbol, string>>;
+}
+
+export const TOKENS: Record<TokenSymbol, TokenInfo> = {
+  USDC: { symbol: "USDC", currency: "USD", precision: 2, eip3009: true, eip2612: true },
+  USDT: { symbol: "USDT", currency: "USD", precision: 2 },
+  // DAI's permit predates EIP-2612 and uses a different signature
+  DAI: { symbol: "DAI", currency: "USD", precision: 2 },
+  EURC: { symbol: "EURC", currency: "EUR", precision: 2, eip3009: true, eip2612: true },
+  ETH: { symbol: "ETH", currency: null, precision: 6, native: true },
+};
+
+// EIP-7528 placeholder address for a chain's native currency
+export const NATIVE_TOKEN_ADDRESS = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+const CHAINS: ChainConfig[] = [
+  {
+    id: 1,
+    network: "ethereum",
+    rpcUrl: "https://ethereum-rpc.publicnode.com",
+    tokens: {
+      USDC: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      USDT: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+      DAI: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
+      EURC: "0x1aBaEA1f7C830bD89Acc67eC4af516284b1bC33c",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 11155111,
+    network: "sepolia",
+    rpcUrl: "https://ethereum-sepolia-rpc.publicnode.com",
+    tokens: {
+      USDC: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+      EURC: "0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 8453,
+    network: "base",
+    rpcUrl: "https://mainnet.base.org",
+    tokens: {
+      USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      USDT: "0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2",
+      DAI: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
+      EURC: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 84532,
+    network: "base-sepolia",
+    rpcUrl: "https://sepolia.base.org",
+    tokens: {
+      USDC: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      EURC: "0x808456652fdb597867f38412077A9182bf77359F",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 10,
+    network: "optimism",
+    rpcUrl: "https://mainnet.optimism.io",
+    tokens: {
+      USDC: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+      USDT: "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58",
+      DAI: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 11155420,
+    network: "optimism-sepolia",
+    rpcUrl: "https://sepolia.optimism.io",
+    tokens: {
+      USDC: "0x5fd84259d66Cd46123540766Be93DFE6D43130D7",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 42161,
+    network: "arbitrum",
+    rpcUrl: "https://arb1.arbitrum.io/rpc",
+    tokens: {
+      USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+      USDT: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
+      DAI: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 421614,
+    network: "arbitrum-sepolia",
+    rpcUrl: "https://sepolia-rollup.arbitrum.io/rpc",
+    tokens: {
+      USDC: "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+  {
+    id: 137,
+    network: "polygon",
+    rpcUrl: "https://polygon-rpc.com",
+    tokens: {
+      USDC: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+      USDT: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
+      DAI: "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063",
+    },
+  },
+  {
+    id: 80002,
+    network: "polygon-amoy",
+    rpcUrl: "https://rpc-amoy.polygon.technology",
+    tokens: {
+      USDC: "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582",
+    },
+  },
+  {
+    // Anvil, usually forking Base Sepolia so the real USDC and EURC contracts exist
+    id: 31337,
+    network: "localhost",
+    rpcUrl: "http://host.docker.internal:8545",
+    tokens: {
+      USDC: Deno.env.get("LOCAL_USDC_ADDRESS") ?? "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      EURC: Deno.env.get("LOCAL_EURC_ADDRESS") ?? "0x808456652fdb597867f38412077A9182bf77359F",
+      ETH: NATIVE_TOKEN_ADDRESS,
+    },
+  },
+];
+
+export function getChain(chainId: number) {
+  const chain = CHAINS.find((candidate) => candidate.id === chainId);
+  if (!chain) return undefined;
+
+  return { ...chain, rpcUrl: Deno.env.get(`RPC_URL_${chainId}`) ?? chain.rpcUrl };
+}
+
+export function getToken(chainId: number, symbol: string): TokenConfig | undefined {
+  const address = getChain(chainId)?.tokens[symbol as TokenSymbol];
+  if (!address) return undefined;
+
+  return { ...TOKENS[symbol as TokenSymbol], address };
+}
+
+// Finds the token a payer paid with from its contract address.
+export function findTokenByAddress(chainId: number, address: string) {
+  const tokens = getChain(chainId)?.tokens ?? {};
+  const symbol = Object.keys(tokens).find(
+    (candidate) => tokens[candidate as TokenSymbol]!.toLowerCase() === address.toLowerCase()
+  );
+  return symbol ? getToken(chainId, symbol) : undefined;
+}
+
+export function getProvider(chainId: number) {
+  const chain = getChain(chainId);
+  if (!chain) throw new Error(`Unsupported chain ${chainId}`);
+
+  return new ethers.JsonRpcProvider(chain.rpcUrl, chainId, { staticNetwork: true });
+}
+
+const decimalsCache = new Map<string, number>();
+
+// Token decimals are read from the contract (USDC has 6, DAI 18) and cached
+// per chain; native ETH always has 18.
+export async function getTokenDecimals(chainId: number, token: TokenConfig) {
+  if (token.native) return 18;
+
+  const key = `${chainId}:${token.address.toLowerCase()}`;
+  let decimals = decimalsCache.get(key);
+  if (decimals === undefined) {
+    const contract = new ethers.Contract(
+      token.address,
+      ["function decimals() view returns (uint8)"],
+      getProvider(chainId)
+    );
+    decimals = Number(await contract.decimals());
+    decimalsCache.set(key, decimals);
+  }
+  return decimals;
+}
@@ -0,0 +1,127 @@
+import { getChain, TOKENS, type TokenSymbol } from "./chains.ts";
+
+// Merchant settings shared by the payment functions. Every value can be
+// overridden through the function environment, which is how the functions
+// are pointed at a local dev chain.
+
+// Chains the merchant accepts payments on (see chains.ts); the first one is
+// the default for new payment intents.
+export const ACCEPTED_CHAIN_IDS = (Deno.env.get("ACCEPTED_CHAIN_IDS") ?? "84532")
+  .split(",")
+  .map((id) => Number(id.trim()))
+  .filter((id) => getChain(id) !== undefined);
+export const DEFAULT_CHAIN_ID = ACCEPTED_CHAIN_IDS[0];
+
+export function isAcceptedChain(chainId: unknown): chainId is number {
+  return typeof chainId === "number" && ACCEPTED_CHAIN_IDS.includes(chainId);
+}
+
+// Tokens the merchant accepts; the first one is the default for new intents.
+// Each chain only offers the ones it has a contract for (see chains.ts).
+export const ACCEPTED_TOKENS = (Deno.env.get("ACCEPTED_TOKENS") ?? "USDC,USDT,DAI,EURC,ETH")
+  .split(",")
+  .map((symbol) => symbol.trim().toUpperCase())
+  .filter((symbol): symbol is TokenSymbol => symbol in TOKENS);
+export const DEFAULT_TOKEN = ACCEPTED_TOKENS[0];
+
+export function isAcceptedToken(symbol: unknown): symbol is TokenSymbol {
+  return typeof symbol === "string" && ACCEPTED_TOKENS.includes(symbol as TokenSymbol);
+}
+
+export const RECIPIENT_ADDRESS =
+  Deno.env.get("RECIPIENT_ADDRESS") ?? "0x75bB73a75EeCc43ffeAa3B48733292437C405f25";
+
+// Confirmations a payment needs before it counts (see finality.ts):
+// MIN_CONFIRMATIONS, or the chain's entry in CHAIN_CONFIRMATIONS, e.g.
+// "1:12,8453:3", raised for large amounts by CONFIRMATION_TIERS entries of
+// token, least amount and confirmations, e.g. "USDC:1000:12,ETH:0.5:24".
+// Confirmed payments are re-checked for reorgs while they are less than
+// REORG_WATCH_BLOCKS deep.
+export const MIN_CONFIRMATIONS = Number(Deno.env.get("MIN_CONFIRMATIONS") ?? 1);
+export const CHAIN_CONFIRMATIONS = new Map(
+  (Deno.env.get("CHAIN_CONFIRMATIONS") ?? "")
+    .split(",")
+    .filter(Boolean)
+    .map((entry) => entry.split(":").map((part) => Number(part.trim())) as [number, number])
+);
+export const CONFIRMATION_TIERS = (Deno.env.get("CONFIRMATION_TIERS") ?? "")
+  .split(",")
+  .filter(Boolean)
+  .map((entry) => {
+    const [token, amount, confirmations] = entry.split(":").map((part) => part.trim());
+    return { token: token.toUpperCase(), amount: Number(amount), confirmations: Number(confirmations) };
+  });
+export const REORG_WATCH_BLOCKS = Number(Deno.env.get("REORG_WATCH_BLOCKS") ?? 128);
+
+// Checkout limits in token units and how long a quoted intent stays payable.
+export const PAYMENT_LIMITS: Record<TokenSymbol, { min: number; max: number }> = {
+  USDC: { min: 0.25, max: 1000 },
+  USDT: { min: 0.25, max: 1000 },
+  DAI: { min: 0.25, max: 1000 },
+  EURC: { min: 0.25, max: 1000 },
+  ETH: { min: 0.0001, max: 0.5 },
+};
+export const INTENT_TTL_SECONDS = Number(Deno.env.get("INTENT_TTL_SECONDS") ?? 15 * 60);
+
+// Fiat pricing (see pricing.ts). A converted quote stays locked for
+// QUOTE_LOCK_SECONDS; a payment re-priced into another token may fall short
+// of the quote by at most PRICE_SLIPPAGE_BPS basis points.
+export const QUOTE_LOCK_SECONDS = Number(Deno.env.get("QUOTE_LOCK_SECONDS") ?? 5 * 60);
+export const PRICE_SLIPPAGE_BPS = Number(Deno.env.get("PRICE_SLIPPAGE_BPS") ?? 50);
+// "chainlink" reads on-chain price feeds; "static" takes USD prices from
+// STATIC_USD_RATES, e.g. "ETH:3000,EUR:1.08", for local development.
+export const RATE_PROVIDER = Deno.env.get("RATE_PROVIDER") ?? "chainlink";
+export const STATIC_USD_RATES = Deno.env.get("STATIC_USD_RATES") ?? "";
+
+// Wallet that submits gasless (EIP-3009) transfers on the payer's behalf.
+// Gasless payments are disabled when it is not configured.
+export const RELAYER_PRIVATE_KEY = Deno.env.get("RELAYER_PRIVATE_KEY");
+
+// Shared secret the merchant backend sends (x-merchant-key) to capture
+// or void authorized payments.
+export const MERCHANT_API_KEY = Deno.env.get("MERCHANT_API_KEY");
+
+// Sign-In With Ethereum (see siwe.ts). Messages must be for one of
+// SIWE_DOMAINS, e.g. "shop.example.com,localhost:8080", or else for the host
+// of SITE_URL. Sign-in is disabled with neither: the request's Origin can't
+// stand in, as any client outside a browser sets it freely. Nonces are
+// single-use and expire after SIWE_NONCE_TTL_SECONDS.
+const SITE_URL = Deno.env.get("SITE_URL");
+export const SIWE_DOMAINS = (Deno.env.get("SIWE_DOMAINS") ?? (SITE_URL ? new URL(SITE_URL).host : ""))
+  .split(",")
+  .map((domain) => domain.trim())
+  .filter(Boolean);
+export const SIWE_NONCE_TTL_SECONDS = Number(Deno.env.get("SIWE_NONCE_TTL_SECONDS") ?? 5 * 60);
+
+// Entitlements (see entitlements.ts). A verified payment grants access for
+// ENTITLEMENT_TTL_SECONDS (0 for good); access tokens signed with
+// ACCESS_TOKEN_SECRET prove it for ACCESS_TOKEN_TTL_SECONDS at a time.
+export const ENTITLEMENT_TTL_SECONDS = Number(Deno.env.get("ENTITLEMENT_TTL_SECONDS") ?? 30 * 24 * 60 * 60);
+export const ACCESS_TOKEN_SECRET = Deno.env.get("ACCESS_TOKEN_SECRET");
+export const ACCESS_TOKEN_TTL_SECONDS = Number(Deno.env.get("ACCESS_TOKEN_TTL_SECONDS") ?? 15 * 60);
+
+// Subscriptions (see subscriptions.ts). Subscribers' permits allow the spender
+// to pull this many periods before they're asked to renew the allowance.
+export const SUBSCRIPTION_ALLOWANCE_PERIODS = Number(Deno.env.get("SUBSCRIPTION_ALLOWANCE_PERIODS") ?? 12);
+// Wallet subscribers' permits name as spender, which pulls their charges.
+// It can't be the relayer: a permit sets the allowance rather than adding to
+// it, so a one-off authorization would wipe a subscription's and vice versa.
+// Subscriptions are disabled when it is not configured.
+export const SUBSCRIPTION_SPENDER_PRIVATE_KEY = Deno.env.get("SUBSCRIPTION_SPENDER_PRIVATE_KEY");
+
+// Payment links (see links.ts). Links signed with PAYMENT_LINK_SECRET lock
+// their amount, token and recipient; signing is disabled when it is unset.
+export const PAYMENT_LINK_SECRET = Deno.env.get("PAYMENT_LINK_SECRET");
+
+// Transfer indexer (see indexer.ts). Besides RECIPIENT_ADDRESS it follows
+// MERCHANT_ADDRESSES (comma-separated). Transfers count once
+// INDEXER_CONFIRMATIONS blocks deep; a run reads at most
+// INDEXER_MAX_BLOCK_RANGE blocks per chain.
+export const MERCHANT_ADDRESSES = [
+  RECIPIENT_ADDRESS,
+  ...(Deno.env.get("MERCHANT_ADDRESSES") ?? "").split(","),
+]
+  .map((address) => address.trim().toLowerCase())
+  .filter((address, index, all) => address && all.indexOf(address) === index);
+export const INDEXER_CONFIRMATIONS = Number(Deno.env.get("INDEXER_CONFIRMATIONS") ?? 6);
+export const INDEXER_MAX_BLOCK_RANGE = Number(Deno.env.get("INDEXER_MAX_BLOCK_RANGE") ?? 2000);
@@ -0,0 +1,56 @@
+import { ethers } from "npm:ethers@6.15.0";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { getProvider } from "./chains.ts";
+import { IntentError, intentToken, minimumBaseUnits, updateIntent, type PaymentIntent } from "./intents.ts";
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+// Blocks before the first check that still count, for a payer who scanned
+// the code just before the checkout asked the backend to watch
+const WATCH_MARGIN_BLOCKS = 2;
+
+// Starts watching an intent for a wallet-less payment, e.g. from a phone
+// wallet that scanned its EIP-681 QR code. Only token transfers can be told
+// apart by their Transfer event; native ETH would need every block scanned.
+export async function watchIntent(supabase: SupabaseClient, intent: PaymentIntent) {
+  if (intentToken(intent).native) {
+    throw new IntentError(`${intent.token} payments can't be detected; pay from a connected wallet`);
+  }
+  if (intent.watch_from_block !== null) return intent;
+
+  const latest = await getProvider(intent.chain_id).getBlockNumber();
+  return updateIntent(supabase, intent.id, {
+    watch_from_block: Math.max(latest - WATCH_MARGIN_BLOCKS, 0),
+  });
+}
+
+// Looks for a transfer of the intent's token to its recipient, of at least
+// the amount due, mined since watching started and not claimed by another
+// intent. The earliest one wins: two payers sending the same amount to the
+// same recipient at once can't be told apart, which is why the QR code is
+// only shown for a quote that is about to be paid.
+export async function findIncomingTransfer(supabase: SupabaseClient, intent: PaymentIntent) {
+  if (intent.watch_from_block === null) return null;
+
+  const logs = await getProvider(intent.chain_id).getLogs({
+    address: intent.token_address,
+    topics: [TRANSFER_TOPIC, null, ethers.zeroPadValue(intent.recipient_address, 32)],
+    fromBlock: intent.watch_from_block,
+    toBlock: "latest",
+  });
+
+  const minValue = await minimumBaseUnits(intent);
+  const candidates = logs
+    .filter((log) => BigInt(log.data) >= minValue)
+    .map((log) => log.transactionHash.toLowerCase());
+  if (candidates.length === 0) return null;
+
+  const { data: claimed, error } = await supabase
+    .from("payment_intents")
+    .select("tx_hash")
+    .in("tx_hash", candidates);
+  if (error) throw error;
+
+  const used = new Set((claimed ?? []).map((row) => row.tx_hash));
+  return candidates.find((txHash) => !used.has(txHash)) ?? null;
+}
@@ -0,0 +1,43 @@
+import { ethers } from "npm:ethers@6.15.0";
+
+// EIP-2612 permit plus the ERC-20 calls used to pull funds afterwards.
+export const EIP2612_ABI = [
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function nonces(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function transferFrom(address from, address to, uint256 value) returns (bool)",
+];
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface Permit {
+  owner: string;
+  spender: string;
+  value: string;
+  nonce: string;
+  deadline: string;
+}
+
+export function isPermit(value: unknown): value is Permit {
+  if (!value || typeof value !== "object") return false;
+
+  const permit = value as Record<string, unknown>;
+  return (
+    ethers.isAddress(permit.owner) &&
+    ethers.isAddress(permit.spender) &&
+    ["value", "nonce", "deadline"].every(
+      (key) => typeof permit[key] === "string" && /^\d+$/.test(permit[key] as string)
+    )
+  );
+}
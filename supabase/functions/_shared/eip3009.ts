@@ -0,0 +1,45 @@
+import { ethers } from "npm:ethers@6.15.0";
+
+// EIP-3009 as implemented by USDC (FiatTokenV2).
+export const EIP3009_ABI = [
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function authorizationState(address authorizer, bytes32 nonce) view returns (bool)",
+  "function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)",
+];
+
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+export interface TransferAuthorization {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: string;
+}
+
+export function isTransferAuthorization(value: unknown): value is TransferAuthorization {
+  if (!value || typeof value !== "object") return false;
+
+  const auth = value as Record<string, unknown>;
+  return (
+    ethers.isAddress(auth.from) &&
+    ethers.isAddress(auth.to) &&
+    ["value", "validAfter", "validBefore"].every(
+      (key) => typeof auth[key] === "string" && /^\d+$/.test(auth[key] as string)
+    ) &&
+    typeof auth.nonce === "string" &&
+    ethers.isHexString(auth.nonce, 32)
+  );
+}
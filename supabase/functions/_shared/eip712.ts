@@ -0,0 +1,13 @@
+import { ethers } from "npm:ethers@6.15.0";
+
+// EIP-712 domain of a token that implements permit / transferWithAuthorization
+// (name and version are read from the contract, as USDC differs per chain).
+export async function tokenDomain(token: ethers.Contract, chainId: number) {
+  const [name, version] = await Promise.all([token.name(), token.version()]);
+  return {
+    name,
+    version,
+    chainId,
+    verifyingContract: await token.getAddress(),
+  };
+}
@@ -0,0 +1,125 @@
+import { jwtVerify, SignJWT } from "npm:jose@5.9.5";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { ACCESS_TOKEN_SECRET, ACCESS_TOKEN_TTL_SECONDS, ENTITLEMENT_TTL_SECONDS } from "./config.ts";
+import type { PaymentIntent } from "./intents.ts";
+
+export interface Entitlement {
+  id: string;
+  resource: string;
+  wallet_address: string;
+  user_id: string | null;
+  payment_id: string;
+  expires_at: string | null;
+  created_at: string;
+}
+
+// Bearer proof of an entitlement, handed to the client after payment
+export interface AccessToken {
+  token: string;
+  expiresAt: string;
+}
+
+export interface AccessClaims {
+  entitlementId: string;
+  resource: string;
+  wallet: string;
+}
+
+const ISSUER = "crypto-payment";
+
+function accessKey() {
+  if (!ACCESS_TOKEN_SECRET) throw new Error("ACCESS_TOKEN_SECRET is not configured");
+  return new TextEncoder().encode(ACCESS_TOKEN_SECRET);
+}
+
+export function isEntitlementActive(entitlement: Pick<Entitlement, "expires_at">) {
+  return !entitlement.expires_at || new Date(entitlement.expires_at).getTime() > Date.now();
+}
+
+// Grants the resource an intent paid for to the payer, for
+// ENTITLEMENT_TTL_SECONDS unless `expiresAt` says otherwise (subscriptions
+// grant one period at a time). One entitlement per payment, so verifying the
+// same payment again returns the existing grant.
+export async function grantEntitlement(
+  supabase: SupabaseClient,
+  intent: Pick<PaymentIntent, "resource" | "user_id">,
+  payment: { id: string; payer_address: string },
+  expiresAt: Date | null = ENTITLEMENT_TTL_SECONDS > 0
+    ? new Date(Date.now() + ENTITLEMENT_TTL_SECONDS * 1000)
+    : null
+) {
+  if (!intent.resource) return null;
+
+  const { data: existing, error: findError } = await supabase
+    .from("entitlements")
+    .select("*")
+    .eq("payment_id", payment.id)
+    .maybeSingle();
+  if (findError) throw findError;
+  if (existing) return existing as Entitlement;
+
+  const { data, error } = await supabase
+    .from("entitlements")
+    .insert({
+      resource: intent.resource,
+      wallet_address: payment.payer_address.toLowerCase(),
+      user_id: intent.user_id,
+      payment_id: payment.id,
+      expires_at: expiresAt?.toISOString() ?? null,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  return data as Entitlement;
+}
+
+// Latest unexpired entitlement of a signed-in user to `resource`, so access
+// outlives the short-lived token on any device they sign in from.
+export async function findActiveEntitlement(supabase: SupabaseClient, resource: string, userId: string) {
+  const { data, error } = await supabase
+    .from("entitlements")
+    .select("*")
+    .eq("resource", resource)
+    .eq("user_id", userId)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data as Entitlement | null;
+}
+
+// Signs a token for the entitlement that lapses after ACCESS_TOKEN_TTL_SECONDS,
+// or with the entitlement itself if that comes first.
+export async function issueAccessToken(entitlement: Entitlement): Promise<AccessToken> {
+  let expiresAt = Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000;
+  if (entitlement.expires_at) {
+    expiresAt = Math.min(expiresAt, new Date(entitlement.expires_at).getTime());
+  }
+
+  const token = await new SignJWT({ resource: entitlement.resource, wallet: entitlement.wallet_address })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuer(ISSUER)
+    .setSubject(entitlement.id)
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(expiresAt / 1000))
+    .sign(accessKey());
+
+  return { token, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+// Claims of a valid, unexpired token for `resource`; null for anything else.
+export async function verifyAccessToken(token: string | null, resource: string): Promise<AccessClaims | null> {
+  if (!token) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, accessKey(), { issuer: ISSUER, algorithms: ["HS256"] });
+    if (payload.resource !== resource || typeof payload.sub !== "string") return null;
+
+    return { entitlementId: payload.sub, resource, wallet: String(payload.wallet) };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,84 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { getProvider } from "./chains.ts";
+import { CHAIN_CONFIRMATIONS, CONFIRMATION_TIERS, MIN_CONFIRMATIONS, REORG_WATCH_BLOCKS } from "./config.ts";
+import { updateIntent, type PaymentIntent } from "./intents.ts";
+
+// Confirmations the intent's payment needs: the chain's depth, raised by
+// the largest CONFIRMATION_TIERS entry its token and amount reach.
+export function requiredConfirmations(intent: Pick<PaymentIntent, "chain_id" | "token" | "amount">) {
+  return CONFIRMATION_TIERS
+    .filter((tier) => tier.token === intent.token && Number(intent.amount) >= tier.amount)
+    .reduce(
+      (required, tier) => Math.max(required, tier.confirmations),
+      CHAIN_CONFIRMATIONS.get(intent.chain_id) ?? MIN_CONFIRMATIONS
+    );
+}
+
+interface RecordedPayment {
+  id: string;
+  intent_id: string;
+  tx_hash: string;
+  block_number: number;
+  block_hash: string;
+}
+
+// Undoes a payment whose block left the canonical chain: the access it
+// granted is withdrawn and its intent goes back to `submitted`, so it is
+// confirmed again, as deep as before, if the transaction is mined anew.
+async function revertPayment(supabase: SupabaseClient, payment: RecordedPayment) {
+  const { error } = await supabase
+    .from("payments")
+    .update({ reverted_at: new Date().toISOString() })
+    .eq("id", payment.id);
+  if (error) throw error;
+
+  const { error: entitlementError } = await supabase
+    .from("entitlements")
+    .delete()
+    .eq("payment_id", payment.id);
+  if (entitlementError) throw entitlementError;
+
+  const { error: transferError } = await supabase
+    .from("incoming_transfers")
+    .update({ status: "reorged" })
+    .eq("tx_hash", payment.tx_hash)
+    .eq("block_hash", payment.block_hash);
+  if (transferError) throw transferError;
+
+  await updateIntent(supabase, payment.intent_id, {
+    status: "submitted",
+    failure_reason: "Payment block was reorged out; waiting for the transaction to be mined again",
+  });
+}
+
+// Re-checks payments less than REORG_WATCH_BLOCKS deep against the chain and
+// reverts the ones whose block was replaced. Returns how many were reverted.
+export async function recheckPayments(supabase: SupabaseClient, chainId: number, latest: number) {
+  const { data, error } = await supabase
+    .from("payments")
+    .select("id, intent_id, tx_hash, block_number, block_hash")
+    .eq("chain_id", chainId)
+    .is("reverted_at", null)
+    .not("intent_id", "is", null)
+    .not("block_hash", "is", null)
+    .gt("block_number", latest - REORG_WATCH_BLOCKS);
+  if (error) throw error;
+
+  const provider = getProvider(chainId);
+  let reverted = 0;
+  for (const payment of data as RecordedPayment[]) {
+    const receipt = await provider.getTransactionReceipt(payment.tx_hash);
+    if (receipt && receipt.blockHash.toLowerCase() === payment.block_hash) continue;
+
+    // A missing receipt may only mean the node answering is behind the one
+    // that served it before; another block at its height is what proves the
+    // reorg
+    const block = await provider.getBlock(payment.block_number);
+    if (!block || block.hash?.toLowerCase() === payment.block_hash) continue;
+
+    await revertPayment(supabase, payment);
+    reverted++;
+  }
+
+  return reverted;
+}
@@ -0,0 +1,337 @@
+import { ethers } from "npm:ethers@6.15.0";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { findTokenByAddress, getProvider, getToken, getTokenDecimals } from "./chains.ts";
+import {
+  ACCEPTED_CHAIN_IDS,
+  ACCEPTED_TOKENS,
+  INDEXER_CONFIRMATIONS,
+  INDEXER_MAX_BLOCK_RANGE,
+  MERCHANT_ADDRESSES,
+} from "./config.ts";
+import { grantEntitlement } from "./entitlements.ts";
+import { recheckPayments } from "./finality.ts";
+import {
+  IntentError,
+  settleIntent,
+  submitIntent,
+  toBaseUnits,
+  type PaymentIntent,
+} from "./intents.ts";
+import { followTransaction } from "./replacement.ts";
+
+// Watcher for payments made outside the checkout: follows token Transfer
+// logs to the merchant's addresses on every accepted chain, keeps them in
+// incoming_transfers and, once they are INDEXER_CONFIRMATIONS blocks deep,
+// settles the open intent they pay. Run one pass per call of index-transfers.
+
+export type IncomingTransferStatus = "pending" | "confirmed" | "reorged";
+
+export interface IncomingTransfer {
+  id: string;
+  chain_id: number;
+  block_number: number;
+  block_hash: string;
+  tx_hash: string;
+  log_index: number;
+  token_address: string;
+  from_address: string;
+  to_address: string;
+  amount: number;
+  status: IncomingTransferStatus;
+  intent_id: string | null;
+  payment_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChainIndexResult {
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  found: number;
+  confirmed: number;
+  reorged: number;
+  matched: number;
+  // Confirmed payments whose block was reorged out (see finality.ts)
+  reverted: number;
+}
+
+const TRANSFER_EVENT = new ethers.Interface([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+const TRANSFER_TOPIC = TRANSFER_EVENT.getEvent("Transfer")!.topicHash;
+
+// ERC-20 tokens the merchant accepts on the chain; native ETH has no logs
+function watchedTokens(chainId: number) {
+  return ACCEPTED_TOKENS
+    .map((symbol) => getToken(chainId, symbol))
+    .filter((token) => token && !token.native)
+    .map((token) => token!.address.toLowerCase());
+}
+
+async function loadCursor(supabase: SupabaseClient, chainId: number) {
+  const { data, error } = await supabase
+    .from("transfer_index_cursors")
+    .select("last_block")
+    .eq("chain_id", chainId)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data ? Number(data.last_block) : null;
+}
+
+async function saveCursor(supabase: SupabaseClient, chainId: number, lastBlock: number) {
+  const { error } = await supabase
+    .from("transfer_index_cursors")
+    .upsert({ chain_id: chainId, last_block: lastBlock });
+  if (error) throw error;
+}
+
+async function updateTransfer(supabase: SupabaseClient, transferId: string, changes: Partial<IncomingTransfer>) {
+  const { data, error } = await supabase
+    .from("incoming_transfers")
+    .update(changes)
+    .eq("id", transferId)
+    .select()
+    .single();
+  if (error) throw error;
+
+  return data as IncomingTransfer;
+}
+
+// Reads the next block range's Transfer logs to the merchant into
+// incoming_transfers, starting INDEXER_CONFIRMATIONS blocks before the last
+// indexed one so logs re-mined after a reorg are seen again.
+async function indexLogs(supabase: SupabaseClient, chainId: number, latest: number, tokens: string[]) {
+  const cursor = await loadCursor(supabase, chainId);
+  const fromBlock = Math.max(
+    cursor === null ? latest - INDEXER_MAX_BLOCK_RANGE + 1 : cursor - INDEXER_CONFIRMATIONS + 1,
+    0
+  );
+  const toBlock = Math.min(latest, fromBlock + INDEXER_MAX_BLOCK_RANGE - 1);
+
+  const logs = await getProvider(chainId).getLogs({
+    address: tokens,
+    topics: [TRANSFER_TOPIC, null, MERCHANT_ADDRESSES.map((address) => ethers.zeroPadValue(address, 32))],
+    fromBlock,
+    toBlock,
+  });
+
+  const rows = await Promise.all(logs.map(async (log) => {
+    const { from, to, value } = TRANSFER_EVENT.parseLog(log)!.args;
+    const decimals = await getTokenDecimals(chainId, findTokenByAddress(chainId, log.address)!);
+    return {
+      chain_id: chainId,
+      block_number: log.blockNumber,
+      block_hash: log.blockHash.toLowerCase(),
+      tx_hash: log.transactionHash.toLowerCase(),
+      log_index: log.index,
+      token_address: log.address.toLowerCase(),
+      from_address: from.toLowerCase(),
+      to_address: to.toLowerCase(),
+      amount: ethers.formatUnits(value, decimals),
+    };
+  }));
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from("incoming_transfers")
+      .upsert(rows, { onConflict: "chain_id,block_hash,log_index", ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  await saveCursor(supabase, chainId, toBlock);
+  return { fromBlock, toBlock, found: rows.length };
+}
+
+// The open intent a confirmed transfer pays: the one already submitted with
+// its transaction (e.g. from a tab closed before verifying) or with one it
+// replaced (a payment sped up in the wallet, see replacement.ts), or else the
+// unpaid quote on the same chain, token and recipient, open when the block
+// was mined, for exactly the amount sent. Transfers carry no reference and
+// anyone can ask for a quote, so nothing less certain is matched: when
+// several quotes are for the amount, only one being watched for a QR payment
+// (see detect.ts) settles it, and other amounts never do. Whatever isn't
+// matched stays in incoming_transfers for reconciliation.
+async function findIntent(supabase: SupabaseClient, transfer: IncomingTransfer, blockTime: Date) {
+  const { data: submitted, error: submittedError } = await supabase
+    .from("payment_intents")
+    .select("*")
+    .eq("tx_hash", transfer.tx_hash)
+    .maybeSingle();
+  if (submittedError) throw submittedError;
+  if (submitted) return submitted as PaymentIntent;
+
+  const tx = await getProvider(transfer.chain_id).getTransaction(transfer.tx_hash);
+  if (tx) {
+    const { data: replaced, error: replacedError } = await supabase
+      .from("payment_intents")
+      .select("*")
+      .eq("status", "submitted")
+      .eq("chain_id", transfer.chain_id)
+      .eq("payer_address", tx.from.toLowerCase())
+      .eq("tx_nonce", tx.nonce)
+      .maybeSingle();
+    if (replacedError) throw replacedError;
+    if (replaced) return followTransaction(supabase, replaced as PaymentIntent);
+  }
+
+  const { data, error } = await supabase
+    .from("payment_intents")
+    .select("*")
+    .eq("status", "created")
+    .eq("chain_id", transfer.chain_id)
+    .eq("token_address", transfer.token_address)
+    .eq("recipient_address", transfer.to_address)
+    .lte("created_at", blockTime.toISOString())
+    .gte("expires_at", blockTime.toISOString())
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  const token = findTokenByAddress(transfer.chain_id, transfer.token_address)!;
+  const value = ethers.parseUnits(String(transfer.amount), await getTokenDecimals(transfer.chain_id, token));
+  const exact: PaymentIntent[] = [];
+  for (const intent of data as PaymentIntent[]) {
+    if (value === await toBaseUnits(intent)) exact.push(intent);
+  }
+  if (exact.length === 1) return exact[0];
+
+  const watched = exact.filter((intent) =>
+    intent.watch_from_block !== null && intent.watch_from_block <= transfer.block_number
+  );
+  return watched.length === 1 ? watched[0] : null;
+}
+
+// Accounts a final transfer: transfers the backend already recorded as a
+// payment (checkout verifications, subscription charges) are linked to it;
+// others settle the intent they pay. A payment reverted by a reorg isn't
+// linked as is: its intent is `submitted` again and is settled anew.
+async function matchTransfer(supabase: SupabaseClient, transfer: IncomingTransfer, blockTime: Date) {
+  const { data: payment, error } = await supabase
+    .from("payments")
+    .select("id, intent_id")
+    .eq("tx_hash", transfer.tx_hash)
+    .is("reverted_at", null)
+    .maybeSingle();
+  if (error) throw error;
+  if (payment) {
+    return updateTransfer(supabase, transfer.id, { payment_id: payment.id, intent_id: payment.intent_id });
+  }
+
+  let intent = await findIntent(supabase, transfer, blockTime);
+  if (!intent) return transfer;
+
+  try {
+    if (intent.status === "created") {
+      intent = await submitIntent(supabase, intent, transfer.tx_hash, null);
+    }
+  } catch (error) {
+    // Claimed for another intent in the meantime, e.g. by detect-payment
+    if (error instanceof IntentError) return transfer;
+    throw error;
+  }
+
+  const settled = await settleIntent(supabase, intent);
+  if (!settled.payment) {
+    return updateTransfer(supabase, transfer.id, { intent_id: intent.id });
+  }
+  await grantEntitlement(supabase, settled.intent, settled.payment);
+  return updateTransfer(supabase, transfer.id, { intent_id: intent.id, payment_id: settled.payment.id });
+}
+
+// Re-checks pending transfers against the canonical chain: a block whose
+// hash changed was reorged out, and one INDEXER_CONFIRMATIONS deep is final.
+async function confirmTransfers(supabase: SupabaseClient, chainId: number, latest: number) {
+  const { data, error } = await supabase
+    .from("incoming_transfers")
+    .select("*")
+    .eq("chain_id", chainId)
+    .eq("status", "pending")
+    .order("block_number", { ascending: true });
+  if (error) throw error;
+
+  const provider = getProvider(chainId);
+  const blocks = new Map<number, ethers.Block | null>();
+  let confirmed = 0;
+  let reorged = 0;
+  let matched = 0;
+
+  for (const pending of data as IncomingTransfer[]) {
+    if (!blocks.has(pending.block_number)) {
+      blocks.set(pending.block_number, await provider.getBlock(pending.block_number));
+    }
+    const block = blocks.get(pending.block_number);
+
+    if (!block || block.hash?.toLowerCase() !== pending.block_hash) {
+      await updateTransfer(supabase, pending.id, { status: "reorged" });
+      reorged++;
+      continue;
+    }
+    if (latest - pending.block_number + 1 < INDEXER_CONFIRMATIONS) continue;
+
+    // Confirmed once matched: one whose matching fails stays pending and is
+    // matched again on the next run
+    let transfer: IncomingTransfer;
+    try {
+      transfer = await matchTransfer(supabase, pending, new Date(block.timestamp * 1000));
+    } catch (error) {
+      console.error(`Transfer ${pending.tx_hash} matching error:`, error);
+      continue;
+    }
+    await updateTransfer(supabase, transfer.id, { status: "confirmed" });
+    confirmed++;
+    if (transfer.payment_id) matched++;
+  }
+
+  return { confirmed, reorged, matched: matched + await settleMatchedTransfers(supabase, chainId) };
+}
+
+// Intents whose amount needs more confirmations than INDEXER_CONFIRMATIONS,
+// or whose payment a reorg reverted, stay `submitted` after their transfer
+// is matched; they are settled on a later run.
+async function settleMatchedTransfers(supabase: SupabaseClient, chainId: number) {
+  const { data, error } = await supabase
+    .from("incoming_transfers")
+    .select("*, payment_intents!inner(*)")
+    .eq("chain_id", chainId)
+    .eq("status", "confirmed")
+    .is("payment_id", null)
+    .eq("payment_intents.status", "submitted");
+  if (error) throw error;
+
+  let settled = 0;
+  for (const { payment_intents: intent, ...transfer } of data as (IncomingTransfer & { payment_intents: PaymentIntent })[]) {
+    try {
+      const result = await settleIntent(supabase, intent);
+      if (!result.payment) continue;
+
+      await grantEntitlement(supabase, result.intent, result.payment);
+      await updateTransfer(supabase, transfer.id, { payment_id: result.payment.id });
+      settled++;
+    } catch (error) {
+      console.error(`Transfer ${transfer.tx_hash} settling error:`, error);
+    }
+  }
+  return settled;
+}
+
+// One indexing pass over every accepted chain
+export async function indexTransfers(supabase: SupabaseClient) {
+  const results: ChainIndexResult[] = [];
+
+  for (const chainId of ACCEPTED_CHAIN_IDS) {
+    const tokens = watchedTokens(chainId);
+    if (tokens.length === 0) continue;
+
+    try {
+      const latest = await getProvider(chainId).getBlockNumber();
+      const indexed = await indexLogs(supabase, chainId, latest, tokens);
+      const reverted = await recheckPayments(supabase, chainId, latest);
+      const checked = await confirmTransfers(supabase, chainId, latest);
+      results.push({ chainId, ...indexed, ...checked, reverted });
+    } catch (error) {
+      console.error(`Chain ${chainId} indexing error:`, error);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,579 @@
+import { ethers } from "npm:ethers@6.15.0";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { getToken, getTokenDecimals, type TokenConfig } from "./chains.ts";
+import {
+  DEFAULT_CHAIN_ID,
+  DEFAULT_TOKEN,
+  INTENT_TTL_SECONDS,
+  isAcceptedChain,
+  isAcceptedToken,
+  PAYMENT_LIMITS,
+  PRICE_SLIPPAGE_BPS,
+  QUOTE_LOCK_SECONDS,
+  RECIPIENT_ADDRESS,
+} from "./config.ts";
+import { requiredConfirmations } from "./finality.ts";
+import { isFiatCurrency, PricingError, quotePrice, type FiatPrice } from "./pricing.ts";
+import { followTransaction } from "./replacement.ts";
+import { verifyTransfer } from "./verify.ts";
+
+export type PaymentIntentStatus = "created" | "submitted" | "confirmed" | "failed" | "expired";
+
+export interface PaymentIntent {
+  id: string;
+  amount: number;
+  token: string;
+  token_address: string;
+  chain_id: number;
+  recipient_address: string;
+  status: PaymentIntentStatus;
+  tx_hash: string | null;
+  failure_reason: string | null;
+  resource: string | null;
+  // Set for intents priced in fiat; `amount` was converted at `exchange_rate`
+  price_amount: number | null;
+  price_currency: string | null;
+  exchange_rate: number | null;
+  slippage_bps: number;
+  // Signed-in user the payment belongs to (see auth.ts), and when it was
+  // claimed by one if it was opened anonymously
+  user_id: string | null;
+  claimed_at: string | null;
+  // Catalog product it was quoted for (see products.ts)
+  product_id: string | null;
+  // Set for intents opened from a payment link (see links.ts)
+  memo: string | null;
+  link_signature: string | null;
+  // First block detect-payment scans for a wallet-less transfer (see detect.ts)
+  watch_from_block: number | null;
+  // Client a paywall quote was given to (see paywall.ts)
+  client_key: string | null;
+  // Wallet the payment must come from (see payers.ts), the nonce of the
+  // submitted transaction when that wallet sent it, and the hash first
+  // submitted if it was replaced (see replacement.ts)
+  payer_address: string | null;
+  tx_nonce: number | null;
+  replaced_tx_hash: string | null;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export class IntentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// Token the intent is paid in, resolved against the chain registry.
+export function intentToken(intent: Pick<PaymentIntent, "chain_id" | "token">) {
+  const token = getToken(intent.chain_id, intent.token);
+  if (!token) {
+    throw new IntentError(`${intent.token} is not supported on chain ${intent.chain_id}`);
+  }
+  return token;
+}
+
+export function intentDecimals(intent: Pick<PaymentIntent, "chain_id" | "token">) {
+  return getTokenDecimals(intent.chain_id, intentToken(intent));
+}
+
+export async function toBaseUnits(intent: PaymentIntent) {
+  return ethers.parseUnits(String(intent.amount), await intentDecimals(intent));
+}
+
+// Least a payment may carry and still settle the intent: the quoted amount,
+// less the slippage tolerance of a quote converted at an exchange rate.
+export async function minimumBaseUnits(intent: PaymentIntent) {
+  const quoted = await toBaseUnits(intent);
+  return quoted - (quoted * BigInt(intent.slippage_bps)) / 10000n;
+}
+
+function checkLimits(token: string, amount: number) {
+  const limits = PAYMENT_LIMITS[token as keyof typeof PAYMENT_LIMITS];
+  if (!Number.isFinite(amount) || amount < limits.min || amount > limits.max) {
+    throw new IntentError(`Amount must be between ${limits.min} and ${limits.max} ${token}`);
+  }
+}
+
+function acceptedTarget(chainId: unknown, token: unknown) {
+  if (!isAcceptedChain(chainId)) {
+    throw new IntentError("Payments are not accepted on this chain");
+  }
+  if (!isAcceptedToken(token)) {
+    throw new IntentError("Payments are not accepted in this token");
+  }
+  return { chainId, token: intentToken({ chain_id: chainId, token }) };
+}
+
+// Only a quote that goes through a rate may land short of the price; a token
+// pegged to the price currency is paid in full.
+async function quote(price: FiatPrice, token: TokenConfig) {
+  try {
+    const converted = await quotePrice(price, token);
+    const slippageBps = token.currency === price.currency ? 0 : PRICE_SLIPPAGE_BPS;
+    return { ...converted, slippageBps };
+  } catch (error) {
+    if (error instanceof PricingError) throw new IntentError(error.message, 503);
+    throw error;
+  }
+}
+
+// Where and for whom an intent is quoted. Chain and token default to the
+// first accepted ones.
+export interface IntentOptions {
+  chainId?: unknown;
+  token?: unknown;
+  // Protected resource the intent unlocks
+  resource?: string | null;
+  // Signed-in payer
+  userId?: string | null;
+  // Catalog product bought
+  productId?: string | null;
+  // Overrides the remaining columns, e.g. a payment link's recipient
+  details?: Partial<Pick<PaymentIntent, "recipient_address" | "memo" | "link_signature" | "expires_at" | "client_key">>;
+}
+
+// Quotes an amount of `token` to the merchant and locks it for
+// INTENT_TTL_SECONDS.
+export async function createIntent(
+  supabase: SupabaseClient,
+  amount: unknown,
+  {
+    chainId = DEFAULT_CHAIN_ID,
+    token = DEFAULT_TOKEN,
+    resource = null,
+    userId = null,
+    productId = null,
+    details = {},
+  }: IntentOptions = {}
+) {
+  const target = acceptedTarget(chainId, token);
+
+  const value = Number(amount);
+  checkLimits(target.token.symbol, value);
+
+  const { data, error } = await supabase
+    .from("payment_intents")
+    .insert({
+      amount: value.toFixed(target.token.precision),
+      token: target.token.symbol,
+      token_address: target.token.address.toLowerCase(),
+      chain_id: target.chainId,
+      recipient_address: RECIPIENT_ADDRESS.toLowerCase(),
+      resource,
+      user_id: userId,
+      product_id: productId,
+      expires_at: new Date(Date.now() + INTENT_TTL_SECONDS * 1000).toISOString(),
+      ...details,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  return data as PaymentIntent;
+}
+
+// Quotes a fiat price as an amount of `token` at the current rate and locks
+// it for QUOTE_LOCK_SECONDS.
+export async function createPricedIntent(
+  supabase: SupabaseClient,
+  price: { amount: unknown; currency: unknown },
+  {
+    chainId = DEFAULT_CHAIN_ID,
+    token = DEFAULT_TOKEN,
+    resource = null,
+    userId = null,
+    productId = null,
+    details = {},
+  }: IntentOptions = {}
+) {
+  const target = acceptedTarget(chainId, token);
+
+  const priceAmount = Number(price.amount);
+  if (!isFiatCurrency(price.currency) || !Number.isFinite(priceAmount) || priceAmount <= 0) {
+    throw new IntentError("Invalid price");
+  }
+  const fiatPrice = { amount: priceAmount, currency: price.currency };
+
+  const converted = await quote(fiatPrice, target.token);
+  checkLimits(target.token.symbol, Number(converted.amount));
+
+  const { data, error } = await supabase
+    .from("payment_intents")
+    .insert({
+      amount: converted.amount,
+      token: target.token.symbol,
+      token_address: target.token.address.toLowerCase(),
+      chain_id: target.chainId,
+      recipient_address: RECIPIENT_ADDRESS.toLowerCase(),
+      resource,
+      user_id: userId,
+      product_id: productId,
+      price_amount: priceAmount,
+      price_currency: fiatPrice.currency,
+      exchange_rate: converted.rate,
+      slippage_bps: converted.slippageBps,
+      expires_at: new Date(Date.now() + QUOTE_LOCK_SECONDS * 1000).toISOString(),
+      ...details,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  return data as PaymentIntent;
+}
+
+// Unpaid quote for `resource` the client was already given, if it stays
+// payable for at least `minRemainingSeconds`; the newest when there are several
+export async function findOpenQuote(
+  supabase: SupabaseClient,
+  resource: string,
+  clientKey: string,
+  minRemainingSeconds: number
+) {
+  const { data, error } = await supabase
+    .from("payment_intents")
+    .select("*")
+    .eq("resource", resource)
+    .eq("client_key", clientKey)
+    .eq("status", "created")
+    .gt("expires_at", new Date(Date.now() + minRemainingSeconds * 1000).toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data as PaymentIntent | null;
+}
+
+// Loads an intent, moving it to `expired` if its quote ran out unpaid.
+export async function loadIntent(supabase: SupabaseClient, intentId: unknown) {
+  if (typeof intentId !== "string") {
+    throw new IntentError("Invalid payment intent id");
+  }
+
+  const { data, error } = await supabase
+    .from("payment_intents")
+    .select("*")
+    .eq("id", intentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new IntentError("Payment intent not found", 404);
+
+  const intent = data as PaymentIntent;
+  if (intent.status === "created" && new Date(intent.expires_at).getTime() <= Date.now()) {
+    return updateIntent(supabase, intent.id, { status: "expired" });
+  }
+
+  return intent;
+}
+
+export async function updateIntent(
+  supabase: SupabaseClient,
+  intentId: string,
+  changes: Partial<PaymentIntent>
+) {
+  const { data, error } = await supabase
+    .from("payment_intents")
+    .update(changes)
+    .eq("id", intentId)
+    .select()
+    .single();
+  if (error) throw error;
+
+  return data as PaymentIntent;
+}
+
+// Applies `changes` only if the intent still has the status it was loaded
+// with. The facilitator claims an intent this way before relaying a payment
+// for it, so concurrent relays can't both send one.
+export async function transitionIntent(
+  supabase: SupabaseClient,
+  intent: PaymentIntent,
+  changes: Partial<PaymentIntent>
+) {
+  const { data, error } = await supabase
+    .from("payment_intents")
+    .update(changes)
+    .eq("id", intent.id)
+    .eq("status", intent.status)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new IntentError("Payment intent was changed by another request; try again", 409);
+
+  return data as PaymentIntent;
+}
+
+// Products limited to some tokens can't be retargeted to any other
+async function checkProductToken(supabase: SupabaseClient, productId: string, token: string) {
+  const { data, error } = await supabase
+    .from("products")
+    .select("name, accepted_tokens")
+    .eq("id", productId)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (data?.accepted_tokens && !data.accepted_tokens.includes(token)) {
+    throw new IntentError(`${data.name} can't be paid in ${token}`);
+  }
+}
+
+// Moves an unpaid intent to another accepted chain or token the payer
+// picked. Tokens pegged to the same currency keep the amount; a fiat-priced
+// intent may also move to any other token, which re-prices it at the current
+// rate within the same quote lock.
+export async function retargetIntent(
+  supabase: SupabaseClient,
+  intent: PaymentIntent,
+  chainId: unknown,
+  token: unknown = intent.token
+) {
+  chainId = chainId ?? intent.chain_id;
+  token = token ?? intent.token;
+  if (chainId === intent.chain_id && token === intent.token) return intent;
+
+  const target = acceptedTarget(chainId, token);
+  if (intent.status !== "created") {
+    throw new IntentError(`Payment intent is already ${intent.status}`, 409);
+  }
+  if (intent.link_signature && target.token.symbol !== intent.token) {
+    throw new IntentError(`This payment link can only be paid in ${intent.token}`);
+  }
+  if (intent.product_id) {
+    await checkProductToken(supabase, intent.product_id, target.token.symbol);
+  }
+
+  const changes: Partial<PaymentIntent> = {
+    chain_id: target.chainId,
+    token: target.token.symbol,
+    token_address: target.token.address.toLowerCase(),
+    // A QR code for the old target is stale; watching restarts with the new one
+    watch_from_block: null,
+  };
+
+  const quoted = intentToken(intent);
+  const samePeg = target.token.symbol === quoted.symbol ||
+    (quoted.currency !== null && target.token.currency === quoted.currency);
+  if (!samePeg) {
+    if (!isFiatCurrency(intent.price_currency)) {
+      throw new IntentError(`Payment intent is quoted in ${quoted.symbol} and can't be paid in ${target.token.symbol}`);
+    }
+
+    const converted = await quote(
+      { amount: Number(intent.price_amount), currency: intent.price_currency },
+      target.token
+    );
+    changes.amount = Number(converted.amount);
+    changes.exchange_rate = converted.rate;
+    changes.slippage_bps = converted.slippageBps;
+  }
+
+  return updateIntent(supabase, intent.id, changes);
+}
+
+// Gives an anonymous intent to the user paying it, e.g. a paywall quote
+// fetched before the payer signed in.
+export async function claimIntent(supabase: SupabaseClient, intent: PaymentIntent, userId: string | null) {
+  if (!userId || intent.user_id) return intent;
+
+  return updateIntent(supabase, intent.id, { user_id: userId, claimed_at: new Date().toISOString() });
+}
+
+// Records the transaction that is meant to pay the intent and, when known,
+// the wallet it must come from (see payers.ts); settling checks the transfer
+// against it. Without one, e.g. for a transfer detected on-chain, the sender
+// is recorded once the chain has seen the transaction.
+export async function submitIntent(
+  supabase: SupabaseClient,
+  intent: PaymentIntent,
+  txHash: string,
+  payer: string | null
+) {
+  // Submitted again, e.g. by a checkout resumed after its transaction was
+  // sped up
+  if (intent.status !== "created" && [intent.tx_hash, intent.replaced_tx_hash].includes(txHash.toLowerCase())) {
+    return intent;
+  }
+  if (intent.status !== "created") {
+    throw new IntentError(`Payment intent is already ${intent.status}`, 409);
+  }
+
+  const { data: reused, error } = await supabase
+    .from("payment_intents")
+    .select("id")
+    .eq("tx_hash", txHash.toLowerCase())
+    .maybeSingle();
+  if (error) throw error;
+  // Payments outside intents count too, e.g. subscription charges
+  const { data: recorded, error: paymentError } = await supabase
+    .from("payments")
+    .select("id")
+    .eq("tx_hash", txHash.toLowerCase())
+    .maybeSingle();
+  if (paymentError) throw paymentError;
+  if (reused || recorded) {
+    throw new IntentError("Transaction already used for another payment", 409);
+  }
+
+  return updateIntent(supabase, intent.id, {
+    status: "submitted",
+    tx_hash: txHash.toLowerCase(),
+    ...(payer ? { payer_address: payer.toLowerCase() } : {}),
+  });
+}
+
+// Checks the submitted transaction on-chain and settles the intent as
+// `confirmed` (with a payment row) once it is as deep as its chain and
+// amount require (see finality.ts), or `failed`. A transfer from another
+// wallet than the one that submitted it reopens the intent instead. A
+// transaction the payer sped up or cancelled is followed to its replacement
+// first. Retryable failures leave the intent `submitted` so the caller can
+// try again later; `pending` says so, with the confirmations counted so far.
+// `confirmedNow` is only set for the one call that confirmed the intent.
+export async function settleIntent(supabase: SupabaseClient, intent: PaymentIntent) {
+  const required = requiredConfirmations(intent);
+  if (intent.status === "confirmed") {
+    const { data: payment, error } = await supabase
+      .from("payments")
+      .select("*")
+      .eq("intent_id", intent.id)
+      .single();
+    if (error) throw error;
+    return {
+      intent,
+      payment,
+      reason: null,
+      pending: false,
+      confirmations: null,
+      requiredConfirmations: required,
+      confirmedNow: false,
+    };
+  }
+  if (intent.status === "submitted" && intent.tx_hash) {
+    intent = await followTransaction(supabase, intent);
+  }
+  if (intent.status !== "submitted" || !intent.tx_hash) {
+    return {
+      intent,
+      payment: null,
+      reason: intent.failure_reason ?? `Payment intent is ${intent.status}`,
+      pending: false,
+      confirmations: null,
+      requiredConfirmations: required,
+      confirmedNow: false,
+    };
+  }
+
+  const token = intentToken(intent);
+  const decimals = await getTokenDecimals(intent.chain_id, token);
+  const result = await verifyTransfer(intent.tx_hash, {
+    chainId: intent.chain_id,
+    tokenAddress: intent.token_address,
+    native: token.native,
+    recipient: intent.recipient_address,
+    minValue: await minimumBaseUnits(intent),
+    minConfirmations: required,
+    payer: intent.payer_address,
+  });
+  if (!result.ok) {
+    if (result.wrongPayer) {
+      // Submitted by a wallet that didn't send it: the intent is open again
+      // for its actual payer, without the submitter's claim. A user it was
+      // opened for keeps it.
+      intent = await updateIntent(supabase, intent.id, {
+        status: "created",
+        tx_hash: null,
+        payer_address: null,
+        tx_nonce: null,
+        ...(intent.claimed_at ? { user_id: null, claimed_at: null } : {}),
+        failure_reason: result.reason,
+      });
+    } else if (!result.retryable) {
+      intent = await updateIntent(supabase, intent.id, {
+        status: "failed",
+        failure_reason: result.reason,
+      });
+    }
+    return {
+      intent,
+      payment: null,
+      reason: result.reason,
+      pending: Boolean(result.retryable),
+      confirmations: result.confirmations ?? 0,
+      requiredConfirmations: required,
+      confirmedNow: false,
+    };
+  }
+
+  // The transaction may have been recorded since it was submitted, e.g. as a
+  // capture or a subscription charge: it pays that, not this intent
+  const { data: recorded, error: recordedError } = await supabase
+    .from("payments")
+    .select("id, intent_id")
+    .or(`tx_hash.eq.${intent.tx_hash},intent_id.eq.${intent.id}`);
+  if (recordedError) throw recordedError;
+  if (recorded.some((payment) => payment.intent_id !== intent.id)) {
+    const reason = "Transaction already used for another payment";
+    intent = await updateIntent(supabase, intent.id, { status: "failed", failure_reason: reason });
+    return {
+      intent,
+      payment: null,
+      reason,
+      pending: false,
+      confirmations: result.confirmations,
+      requiredConfirmations: required,
+      confirmedNow: false,
+    };
+  }
+
+  // The intent's own payment, reverted by a reorg (see finality.ts), is the
+  // same row, confirmed again
+  const values = {
+    intent_id: intent.id,
+    tx_hash: intent.tx_hash,
+    chain_id: intent.chain_id,
+    token_address: intent.token_address,
+    payer_address: result.payer.toLowerCase(),
+    recipient_address: result.recipient.toLowerCase(),
+    amount: ethers.formatUnits(result.value, decimals),
+    block_number: result.blockNumber,
+    block_hash: result.blockHash.toLowerCase(),
+    reverted_at: null,
+    verified_at: new Date().toISOString(),
+  };
+  let { data: payment, error } = recorded.length > 0
+    ? await supabase.from("payments").update(values).eq("id", recorded[0].id).select().single()
+    : await supabase.from("payments").insert(values).select().single();
+  if (error?.code === "23505") {
+    // Inserted by a concurrent call for the same intent
+    ({ data: payment, error } = await supabase
+      .from("payments")
+      .select("*")
+      .eq("tx_hash", intent.tx_hash)
+      .eq("intent_id", intent.id)
+      .single());
+  }
+  if (error) throw error;
+
+  // Concurrent calls may all get this far; only one confirms the intent
+  const { data: confirmed, error: confirmError } = await supabase
+    .from("payment_intents")
+    .update({ status: "confirmed", failure_reason: null })
+    .eq("id", intent.id)
+    .eq("status", "submitted")
+    .select()
+    .maybeSingle();
+  if (confirmError) throw confirmError;
+
+  return {
+    intent: confirmed ? confirmed as PaymentIntent : await loadIntent(supabase, intent.id),
+    payment,
+    reason: null,
+    pending: false,
+    confirmations: result.confirmations,
+    requiredConfirmations: required,
+    confirmedNow: Boolean(confirmed),
+  };
+}
@@ -0,0 +1,134 @@
+import { ethers } from "npm:ethers@6.15.0";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { DEFAULT_CHAIN_ID, INTENT_TTL_SECONDS, PAYMENT_LINK_SECRET } from "./config.ts";
+import { createIntent, IntentError } from "./intents.ts";
+
+// Shareable payment link, e.g. /pay?amount=12.50&token=USDC&memo=INV-42.
+// Anyone can write an unsigned link, so it only pre-fills the checkout; a
+// link signed by the merchant (HMAC-SHA256 over every field) can also name
+// the recipient, and the amount, token and recipient it carries are the ones
+// charged.
+export interface PaymentLink {
+  // Token units, as written in the link
+  amount: string;
+  token: string;
+  memo: string | null;
+  recipient: string | null;
+  // Unix seconds after which the link can't be paid
+  expires: number | null;
+  signature: string | null;
+}
+
+const MAX_MEMO_LENGTH = 140;
+
+const LINK_FIELDS = ["amount", "token", "memo", "recipient", "expires"] as const;
+
+// Every field in a fixed order, so the same link always signs the same
+function signedMessage(link: PaymentLink) {
+  return new TextEncoder().encode(
+    LINK_FIELDS.map((field) => `${field}=${link[field] ?? ""}`).join("&")
+  );
+}
+
+function linkKey() {
+  if (!PAYMENT_LINK_SECRET) {
+    throw new IntentError("Signed payment links are not enabled", 503);
+  }
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(PAYMENT_LINK_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+// Validates a link as sent by the checkout or the link generator
+export function parsePaymentLink(input: unknown): PaymentLink {
+  const link = (input ?? {}) as Record<string, unknown>;
+
+  const amount = typeof link.amount === "number" ? String(link.amount) : link.amount;
+  if (typeof amount !== "string" || !/^\d+(\.\d+)?$/.test(amount) || Number(amount) <= 0) {
+    throw new IntentError("Invalid payment link amount");
+  }
+  if (typeof link.token !== "string") {
+    throw new IntentError("Invalid payment link token");
+  }
+  if (link.memo != null && (typeof link.memo !== "string" || link.memo.length > MAX_MEMO_LENGTH)) {
+    throw new IntentError(`Memos are at most ${MAX_MEMO_LENGTH} characters`);
+  }
+  if (link.recipient != null && (typeof link.recipient !== "string" || !ethers.isAddress(link.recipient))) {
+    throw new IntentError("Invalid payment link recipient");
+  }
+  if (link.expires != null && !Number.isInteger(Number(link.expires))) {
+    throw new IntentError("Invalid payment link expiry");
+  }
+  if (link.signature != null && (typeof link.signature !== "string" || !ethers.isHexString(link.signature, 32))) {
+    throw new IntentError("Invalid payment link signature");
+  }
+
+  return {
+    amount,
+    token: link.token.toUpperCase(),
+    memo: (link.memo as string) || null,
+    recipient: link.recipient ? (link.recipient as string).toLowerCase() : null,
+    expires: link.expires == null ? null : Number(link.expires),
+    signature: (link.signature as string) ?? null,
+  };
+}
+
+export async function signPaymentLink(link: PaymentLink): Promise<PaymentLink> {
+  const signature = await crypto.subtle.sign("HMAC", await linkKey(), signedMessage(link));
+  return { ...link, signature: ethers.hexlify(new Uint8Array(signature)) };
+}
+
+// Rejects expired links, links edited after signing, and unsigned links that
+// try to redirect the payment.
+export async function checkPaymentLink(link: PaymentLink) {
+  if (link.expires !== null && link.expires * 1000 <= Date.now()) {
+    throw new IntentError("Payment link has expired", 410);
+  }
+
+  if (!link.signature) {
+    if (link.recipient) {
+      throw new IntentError("Only signed payment links can name a recipient");
+    }
+    return;
+  }
+
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    await linkKey(),
+    ethers.getBytes(link.signature),
+    signedMessage(link)
+  );
+  if (!valid) {
+    throw new IntentError("Payment link signature is invalid", 403);
+  }
+}
+
+// Quotes the link's amount of its token, recording the memo, the recipient a
+// signed link names and its signature. The quote never outlives the link.
+export async function createLinkIntent(
+  supabase: SupabaseClient,
+  link: PaymentLink,
+  chainId: unknown = DEFAULT_CHAIN_ID,
+  userId: string | null = null
+) {
+  await checkPaymentLink(link);
+
+  const quoteEnds = Date.now() + INTENT_TTL_SECONDS * 1000;
+  return createIntent(supabase, link.amount, {
+    chainId,
+    token: link.token,
+    userId,
+    details: {
+      memo: link.memo,
+      link_signature: link.signature,
+      ...(link.recipient && { recipient_address: link.recipient }),
+      ...(link.expires !== null && link.expires * 1000 < quoteEnds && {
+        expires_at: new Date(link.expires * 1000).toISOString(),
+      }),
+    },
+  });
+}
@@ -0,0 +1,58 @@
+import { ethers } from "npm:ethers@6.15.0";
+import type { SupabaseClient, User } from "npm:@supabase/supabase-js@2.50.5";
+import { IntentError } from "./intents.ts";
+
+// A transaction to the merchant is public once it is broadcast, so whoever
+// submits one for an intent must show the wallet paying it is theirs: with a
+// session of that wallet (see auth.ts), or with its signature of
+// payerMessage(), which the checkout asks for when the payer isn't signed in.
+// Settling then requires the transfer to come from that wallet.
+
+export function payerMessage(intentId: string) {
+  return `Pay payment intent ${intentId} from this wallet.`;
+}
+
+// Wallet a signed-in user signed in with, lowercased
+export async function userWallet(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("wallet_accounts")
+    .select("address")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+
+  return (data?.address as string | undefined) ?? null;
+}
+
+// Wallet the caller proved they pay the intent from: the signer of
+// `signature`, or else the signed-in user's. Null when they proved neither.
+export async function provenPayer(
+  supabase: SupabaseClient,
+  intentId: string,
+  user: User | null,
+  signature: unknown
+) {
+  if (typeof signature === "string") {
+    try {
+      return ethers.verifyMessage(payerMessage(intentId), signature).toLowerCase();
+    } catch {
+      throw new IntentError("Invalid payer signature", 401);
+    }
+  }
+
+  return user ? userWallet(supabase, user.id) : null;
+}
+
+// As provenPayer, for callers that must prove it
+export async function requirePayer(
+  supabase: SupabaseClient,
+  intentId: string,
+  user: User | null,
+  signature: unknown
+) {
+  const payer = await provenPayer(supabase, intentId, user, signature);
+  if (!payer) {
+    throw new IntentError("Sign in, or sign the payment with the wallet paying it", 401);
+  }
+  return payer;
+}
@@ -0,0 +1,188 @@
+import { ethers } from "npm:ethers@6.15.0";
+import { jsonResponse } from "./cors.ts";
+import { getChain, getToken, getTokenDecimals, type TokenConfig } from "./chains.ts";
+import { ACCEPTED_CHAIN_IDS, ACCEPTED_TOKENS } from "./config.ts";
+import { IntentError, intentToken, type PaymentIntent } from "./intents.ts";
+import {
+  type FiatCurrency,
+  isFiatCurrency,
+  PricingError,
+  quotePrice,
+  type TokenQuote,
+} from "./pricing.ts";
+
+// HTTP 402 protocol shared by protected resources: a request without a
+// payment proof gets a 402 listing what to pay; the client pays and retries
+// with the proof in the X-PAYMENT header.
+export const PAYMENT_HEADER = "x-payment";
+export const PAYMENT_RESPONSE_HEADER = "x-payment-response";
+// Access token from an earlier payment (see entitlements.ts); lets the
+// client skip the 402 while it is valid
+export const ACCESS_TOKEN_HEADER = "x-access-token";
+export const PAYWALL_VERSION = 1;
+// A quote is handed out again while it stays payable this long; the checkout
+// wants a minute left to pay it
+export const QUOTE_REUSE_MIN_SECONDS = 2 * 60;
+
+export interface PaymentRequirement {
+  scheme: "exact";
+  network: string;
+  chainId: number;
+  asset: string;
+  // Symbol of `asset`, e.g. "USDC"
+  token: string;
+  amount: string;
+  decimals: number;
+  // Fiat price `amount` was converted from, for merchant-priced resources
+  price?: {
+    amount: string;
+    currency: string;
+    // Units of `currency` per token
+    rate: number;
+    slippageBps: number;
+  };
+  payTo: string;
+  nonce: string;
+  expiresAt: string;
+  resource: string;
+  description: string;
+}
+
+export interface PaymentProof {
+  nonce: string;
+  txHash: string;
+  // Which of the accepted chains and assets the payment was made with
+  chainId?: number;
+  asset?: string;
+  // The paying wallet's signature of the nonce, from payers that aren't
+  // signed in with it (see payers.ts)
+  payerSignature?: string;
+}
+
+function encodeHeader(value: unknown) {
+  return btoa(JSON.stringify(value));
+}
+
+// One requirement per chain and token the intent can still be paid with:
+// while it is unpaid, every accepted chain and every accepted token pegged to
+// the quoted one's currency, or any accepted token for a fiat-priced intent
+// (the payer picks); only its own after. `tokens` narrows the choice to the
+// ones the product sold is accepted in.
+export async function requirementsFromIntent(
+  intent: PaymentIntent,
+  resource: string,
+  description: string,
+  tokens: readonly string[] = ACCEPTED_TOKENS
+): Promise<PaymentRequirement[]> {
+  const quoted = intentToken(intent);
+  const priced = isFiatCurrency(intent.price_currency);
+  const options: { chainId: number; token: TokenConfig }[] = [];
+
+  if (intent.status === "created") {
+    for (const chainId of ACCEPTED_CHAIN_IDS) {
+      for (const symbol of ACCEPTED_TOKENS) {
+        if (!tokens.includes(symbol)) continue;
+        const token = getToken(chainId, symbol);
+        if (!token) continue;
+        if (priced || symbol === quoted.symbol || (quoted.currency && token.currency === quoted.currency)) {
+          options.push({ chainId, token });
+        }
+      }
+    }
+  } else {
+    options.push({ chainId: intent.chain_id, token: quoted });
+  }
+
+  // The intent's own token keeps its locked quote; other tokens are priced
+  // at the current rate, once per token. Tokens without a rate are left out.
+  const rate = Number(intent.exchange_rate ?? 1);
+  const quotes = new Map<string, TokenQuote | null>();
+  for (const { token } of options) {
+    if (quotes.has(token.symbol)) continue;
+    if (!priced || token.symbol === quoted.symbol || (quoted.currency && token.currency === quoted.currency)) {
+      quotes.set(token.symbol, { amount: Number(intent.amount).toFixed(token.precision), rate });
+      continue;
+    }
+
+    try {
+      const price = { amount: Number(intent.price_amount), currency: intent.price_currency as FiatCurrency };
+      quotes.set(token.symbol, await quotePrice(price, token));
+    } catch (error) {
+      if (!(error instanceof PricingError)) throw error;
+      console.warn(`No ${token.symbol} quote:`, error.message);
+      quotes.set(token.symbol, null);
+    }
+  }
+  const payable = options.filter(({ token }) => quotes.get(token.symbol));
+  if (payable.length === 0) {
+    throw new IntentError("No payment option is available", 503);
+  }
+
+  return Promise.all(
+    payable.map(async ({ chainId, token }) => ({
+      scheme: "exact" as const,
+      network: getChain(chainId)!.network,
+      chainId,
+      asset: token.address.toLowerCase(),
+      token: token.symbol,
+      amount: quotes.get(token.symbol)!.amount,
+      decimals: await getTokenDecimals(chainId, token),
+      price: priced
+        ? {
+          amount: Number(intent.price_amount).toFixed(2),
+          currency: intent.price_currency!,
+          rate: quotes.get(token.symbol)!.rate,
+          slippageBps: intent.slippage_bps,
+        }
+        : undefined,
+      payTo: intent.recipient_address,
+      nonce: intent.id,
+      expiresAt: intent.expires_at,
+      resource,
+      description,
+    }))
+  );
+}
+
+// Who a quote is for, so that repeated requests from one client get the same
+// one instead of each opening an intent: the signed-in user, or else a hash
+// of the client's address and user agent. Null when neither is known.
+export function quoteClientKey(req: Request, userId: string | null) {
+  if (userId) return `user:${userId}`;
+
+  const address = req.headers.get("x-forwarded-for")?.split(",")[0].trim();
+  if (!address) return null;
+  return `client:${ethers.id(`${address} ${req.headers.get("user-agent") ?? ""}`)}`;
+}
+
+// `details` add to the answer, e.g. the confirmations of a payment on its way
+export function paymentRequired(
+  requirements: PaymentRequirement[],
+  error = "Payment required",
+  details: Record<string, unknown> = {}
+) {
+  return jsonResponse({ paywallVersion: PAYWALL_VERSION, error, ...details, accepts: requirements }, 402);
+}
+
+// Returns null for a missing or malformed proof so callers answer with 402.
+export function decodePaymentProof(header: string | null): PaymentProof | null {
+  if (!header) return null;
+
+  try {
+    const { nonce, txHash, chainId, asset, payerSignature } = JSON.parse(atob(header));
+    if (typeof nonce !== "string" || typeof txHash !== "string") return null;
+    return {
+      nonce,
+      txHash,
+      chainId: typeof chainId === "number" ? chainId : undefined,
+      asset: typeof asset === "string" ? asset : undefined,
+      payerSignature: typeof payerSignature === "string" ? payerSignature : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function paidResponse(body: unknown, receipt: Record<string, unknown>) {
+  return jsonResponse(body, 200, { [PAYMENT_RESPONSE_HEADER]: encodeHeader(receipt) });
+}
@@ -0,0 +1,137 @@
+import { ethers } from "npm:ethers@6.15.0";
+import { getProvider, type TokenInfo, type TokenSymbol } from "./chains.ts";
+import { RATE_PROVIDER, STATIC_USD_RATES } from "./config.ts";
+
+// Turns merchant prices in fiat into token amounts. Rates come from a
+// RateProvider, so quoting can run against on-chain feeds in production and
+// against fixed (or mocked) rates anywhere else.
+export type FiatCurrency = "USD" | "EUR";
+
+export function isFiatCurrency(value: unknown): value is FiatCurrency {
+  return value === "USD" || value === "EUR";
+}
+
+export interface FiatPrice {
+  amount: number;
+  currency: FiatCurrency;
+}
+
+// Anything with a USD price: a token or a fiat currency.
+export type PricedAsset = TokenSymbol | FiatCurrency;
+
+export interface RateProvider {
+  // USD value of one unit of `asset`. Throws a PricingError rather than
+  // answering with a stale or missing price.
+  usdPrice(asset: PricedAsset): Promise<number>;
+}
+
+export class PricingError extends Error {}
+
+// Fixed USD prices, e.g. { ETH: 3000, EUR: 1.08 }. USD itself is always 1.
+export function staticRateProvider(rates: Partial<Record<PricedAsset, number>>): RateProvider {
+  return {
+    usdPrice(asset) {
+      const price = asset === "USD" ? 1 : rates[asset];
+      if (!price || !(price > 0)) {
+        return Promise.reject(new PricingError(`No ${asset} rate configured`));
+      }
+      return Promise.resolve(price);
+    },
+  };
+}
+
+// "ETH:3000,EUR:1.08" -> { ETH: 3000, EUR: 1.08 }
+export function parseStaticRates(value: string) {
+  const rates: Partial<Record<PricedAsset, number>> = {};
+  for (const entry of value.split(",")) {
+    const [asset, price] = entry.split(":").map((part) => part.trim());
+    if (asset && price) rates[asset.toUpperCase() as PricedAsset] = Number(price);
+  }
+  return rates;
+}
+
+const AGGREGATOR_ABI = [
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+// Chainlink USD feeds on Ethereum mainnet with their heartbeat in seconds.
+// EURC has no feed of its own and is read at the EUR/USD rate.
+const CHAINLINK_FEEDS: Partial<Record<PricedAsset, { address: string; heartbeat: number }>> = {
+  ETH: { address: "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419", heartbeat: 3600 },
+  EUR: { address: "0xb49f677943BC038e9857d61E7d053CaA2C1734C1", heartbeat: 86400 },
+  EURC: { address: "0xb49f677943BC038e9857d61E7d053CaA2C1734C1", heartbeat: 86400 },
+  USDC: { address: "0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6", heartbeat: 86400 },
+  USDT: { address: "0x3E7d1eAB13ad0104d2750B8863b489D65364e32D", heartbeat: 86400 },
+  DAI: { address: "0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9", heartbeat: 3600 },
+};
+
+// Answers may lag the heartbeat a little before the feed counts as stale
+const FEED_GRACE_SECONDS = 10 * 60;
+// Every 402 answer quotes all accepted tokens; don't hit the RPC each time
+const FEED_CACHE_MS = 30 * 1000;
+
+export function chainlinkRateProvider(chainId = 1): RateProvider {
+  const cache = new Map<PricedAsset, { price: number; fetchedAt: number }>();
+
+  return {
+    async usdPrice(asset) {
+      if (asset === "USD") return 1;
+
+      const cached = cache.get(asset);
+      if (cached && Date.now() - cached.fetchedAt < FEED_CACHE_MS) return cached.price;
+
+      const feed = CHAINLINK_FEEDS[asset];
+      if (!feed) throw new PricingError(`No price feed for ${asset}`);
+
+      const aggregator = new ethers.Contract(feed.address, AGGREGATOR_ABI, getProvider(chainId));
+      const [decimals, round] = await Promise.all([
+        aggregator.decimals(),
+        aggregator.latestRoundData(),
+      ]);
+
+      const age = Math.floor(Date.now() / 1000) - Number(round.updatedAt);
+      if (round.answer <= 0n || age > feed.heartbeat + FEED_GRACE_SECONDS) {
+        throw new PricingError(`${asset} price feed is stale`);
+      }
+
+      const price = Number(ethers.formatUnits(round.answer, decimals));
+      cache.set(asset, { price, fetchedAt: Date.now() });
+      return price;
+    },
+  };
+}
+
+let defaultProvider: RateProvider | null = null;
+
+export function getRateProvider() {
+  defaultProvider ??= RATE_PROVIDER === "static"
+    ? staticRateProvider(parseStaticRates(STATIC_USD_RATES))
+    : chainlinkRateProvider();
+  return defaultProvider;
+}
+
+export interface TokenQuote {
+  // Token amount to pay, rounded up to the token's precision
+  amount: string;
+  // Units of the price currency per token
+  rate: number;
+}
+
+// Converts `price` into an amount of `token`. A token pegged to the price
+// currency is taken at par, so a $5.00 price stays 5.00 USDC.
+export async function quotePrice(
+  price: FiatPrice,
+  token: TokenInfo,
+  provider: RateProvider = getRateProvider()
+): Promise<TokenQuote> {
+  const rate = token.currency === price.currency
+    ? 1
+    : (await provider.usdPrice(token.symbol)) / (await provider.usdPrice(price.currency));
+
+  // Round up so the merchant is never paid less than the price
+  const scale = 10 ** token.precision;
+  const amount = Math.ceil(Number(((price.amount / rate) * scale).toFixed(6))) / scale;
+
+  return { amount: amount.toFixed(token.precision), rate };
+}
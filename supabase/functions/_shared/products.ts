@@ -0,0 +1,104 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { ACCEPTED_TOKENS } from "./config.ts";
+import { createIntent, createPricedIntent, IntentError, type IntentOptions } from "./intents.ts";
+import { isFiatCurrency } from "./pricing.ts";
+
+// Catalog the checkout sells from (see the products migration). Amounts are
+// in the product's `currency`: fiat is converted into the token paid at quote
+// time, a token symbol means the product is only sold in that token.
+export type ProductPricing = "fixed" | "pay_what_you_want";
+
+export interface Product {
+  id: string;
+  name: string;
+  description: string;
+  pricing: ProductPricing;
+  currency: string;
+  price_amount: number;
+  min_amount: number | null;
+  max_amount: number | null;
+  amount_step: number;
+  presets: number[];
+  accepted_tokens: string[] | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Product checkouts start from when none is given
+export const DEFAULT_PRODUCT_ID = "payment";
+
+// The active product with this id, or null
+export async function findProduct(supabase: SupabaseClient, productId: string) {
+  const { data, error } = await supabase
+    .from("products")
+    .select("*")
+    .eq("id", productId)
+    .eq("active", true)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data as Product | null;
+}
+
+export async function loadProduct(supabase: SupabaseClient, productId: unknown) {
+  if (typeof productId !== "string") {
+    throw new IntentError("Invalid product id");
+  }
+
+  const product = await findProduct(supabase, productId);
+  if (!product) throw new IntentError("Product not found", 404);
+
+  return product;
+}
+
+// Accepted tokens the product can be paid in
+export function productTokens(product: Product) {
+  return ACCEPTED_TOKENS.filter((symbol) =>
+    (isFiatCurrency(product.currency) || symbol === product.currency) &&
+    (!product.accepted_tokens || product.accepted_tokens.includes(symbol))
+  );
+}
+
+export function isProductToken(product: Product, token: unknown) {
+  return productTokens(product).some((symbol) => symbol === token);
+}
+
+// Amount the payer owes: the product's price, or what they chose within its
+// bounds for pay-what-you-want products.
+export function productAmount(product: Product, amount: unknown) {
+  if (product.pricing === "fixed") return Number(product.price_amount);
+
+  const value = Number(amount);
+  const min = product.min_amount === null ? 0 : Number(product.min_amount);
+  const max = product.max_amount === null ? Infinity : Number(product.max_amount);
+  if (!Number.isFinite(value) || value <= 0 || value < min || value > max) {
+    throw new IntentError(
+      max === Infinity
+        ? `Amount must be at least ${min} ${product.currency}`
+        : `Amount must be between ${min} and ${max} ${product.currency}`
+    );
+  }
+  return value;
+}
+
+// Quotes the product in `token` (its first accepted one by default),
+// recording it on the intent. `resource` is set for products that unlock a
+// protected resource.
+export function createProductIntent(
+  supabase: SupabaseClient,
+  product: Product,
+  amount: unknown,
+  { token = productTokens(product)[0], ...options }: Omit<IntentOptions, "productId"> = {}
+) {
+  if (!isProductToken(product, token)) {
+    throw new IntentError(`${product.name} can't be paid in this token`);
+  }
+
+  const value = productAmount(product, amount);
+  const quoted = { ...options, token, productId: product.id };
+  if (isFiatCurrency(product.currency)) {
+    return createPricedIntent(supabase, { amount: value, currency: product.currency }, quoted);
+  }
+  return createIntent(supabase, value, quoted);
+}
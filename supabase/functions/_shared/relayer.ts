@@ -0,0 +1,34 @@
+import { ethers } from "npm:ethers@6.15.0";
+import { getProvider } from "./chains.ts";
+import { RELAYER_PRIVATE_KEY, SUBSCRIPTION_SPENDER_PRIVATE_KEY } from "./config.ts";
+
+// Merchant-side wallet that pays gas for gasless transfers and acts as the
+// permit spender for pull payments. Null when not configured.
+export function getRelayer(chainId: number) {
+  if (!RELAYER_PRIVATE_KEY) return null;
+  return new ethers.Wallet(RELAYER_PRIVATE_KEY, getProvider(chainId));
+}
+
+// Address of the relayer without connecting to any chain.
+export function getRelayerAddress() {
+  if (!RELAYER_PRIVATE_KEY) return null;
+  return new ethers.Wallet(RELAYER_PRIVATE_KEY).address;
+}
+
+// Spender of subscription permits (see subscriptions.ts). Null when not
+// configured, or when it is the relayer, whose allowances permits for
+// one-off payments overwrite.
+function subscriptionSpenderKey() {
+  if (!SUBSCRIPTION_SPENDER_PRIVATE_KEY || SUBSCRIPTION_SPENDER_PRIVATE_KEY === RELAYER_PRIVATE_KEY) return null;
+  return SUBSCRIPTION_SPENDER_PRIVATE_KEY;
+}
+
+export function getSubscriptionSpender(chainId: number) {
+  const key = subscriptionSpenderKey();
+  return key ? new ethers.Wallet(key, getProvider(chainId)) : null;
+}
+
+export function getSubscriptionSpenderAddress() {
+  const key = subscriptionSpenderKey();
+  return key ? new ethers.Wallet(key).address : null;
+}
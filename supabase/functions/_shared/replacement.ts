@@ -0,0 +1,90 @@
+import { ethers } from "npm:ethers@6.15.0";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { getProvider } from "./chains.ts";
+import { updateIntent, type PaymentIntent } from "./intents.ts";
+
+// Payers can speed up or cancel a transaction from their wallet, which sends
+// another one with the same nonce in its place. Only the first hash reaches
+// the backend, so a submitted intent is followed through its sender's nonce.
+
+// First block in which the sender's nonce was used: steps back from the
+// latest block, twice as far each time, until it wasn't, then bisects.
+async function findNonceBlock(provider: ethers.JsonRpcProvider, sender: string, nonce: number, latest: number) {
+  const usedBy = async (block: number) => await provider.getTransactionCount(sender, block) > nonce;
+
+  let high = latest;
+  let low = Math.max(latest - 1, 0);
+  for (let step = 2; low > 0 && await usedBy(low); step *= 2) {
+    high = low;
+    low = Math.max(high - step, 0);
+  }
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (await usedBy(middle)) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return high;
+}
+
+// The mined transaction that used the sender's nonce, or null while it is
+// still unused
+async function findNonceTransaction(provider: ethers.JsonRpcProvider, sender: string, nonce: number) {
+  const latest = await provider.getBlockNumber();
+  if (await provider.getTransactionCount(sender, latest) <= nonce) return null;
+
+  const block = await provider.getBlock(await findNonceBlock(provider, sender, nonce, latest), true);
+  return block?.prefetchedTransactions.find(
+    (tx) => tx.from.toLowerCase() === sender && tx.nonce === nonce
+  ) ?? null;
+}
+
+// Records the nonce of a submitted intent's transaction the first time the
+// chain knows it, with its sender when the intent names no payer yet. Once
+// the transaction is gone and its nonce used by another one, the intent moves
+// to that one: a cancellation (nothing sent to the payer's own address) fails
+// it, anything else is verified as usual.
+export async function followTransaction(supabase: SupabaseClient, intent: PaymentIntent) {
+  const provider = getProvider(intent.chain_id);
+  const tx = await provider.getTransaction(intent.tx_hash);
+  if (tx) {
+    if (intent.tx_nonce !== null) return intent;
+
+    // Sent by someone else, e.g. the relayer of a gasless payment: the
+    // nonce isn't the payer's to replace
+    const sender = tx.from.toLowerCase();
+    if (intent.payer_address && intent.payer_address !== sender) return intent;
+    return updateIntent(supabase, intent.id, { payer_address: sender, tx_nonce: tx.nonce });
+  }
+  // Not seen yet, or dropped before it was
+  if (intent.tx_nonce === null || !intent.payer_address) return intent;
+
+  const replacement = await findNonceTransaction(provider, intent.payer_address, Number(intent.tx_nonce));
+  if (!replacement) return intent;
+
+  const replaced = { tx_hash: replacement.hash.toLowerCase(), replaced_tx_hash: intent.tx_hash };
+  if (replacement.to?.toLowerCase() === intent.payer_address && replacement.value === 0n && replacement.data === "0x") {
+    return updateIntent(supabase, intent.id, {
+      ...replaced,
+      status: "failed",
+      failure_reason: "Transaction was cancelled in the wallet",
+    });
+  }
+
+  const { data: reused, error } = await supabase
+    .from("payment_intents")
+    .select("id")
+    .eq("tx_hash", replaced.tx_hash)
+    .maybeSingle();
+  if (error) throw error;
+  if (reused) {
+    return updateIntent(supabase, intent.id, {
+      status: "failed",
+      failure_reason: "Transaction was replaced by one already used for another payment",
+    });
+  }
+
+  return updateIntent(supabase, intent.id, replaced);
+}
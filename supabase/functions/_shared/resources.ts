@@ -0,0 +1,38 @@
+// Content served behind the 402 paywall by premium-resource, keyed by the id
+// the app links to at /resource/:id. Each is sold as the catalog product with
+// the same id (see products.ts), which sets its price; entitlements and
+// intents record the id too.
+export interface ProtectedResource {
+  id: string;
+  content: { title: string; body: string };
+}
+
+export const DEFAULT_RESOURCE_ID = "premium-resource";
+
+const RESOURCES: ProtectedResource[] = [
+  {
+    id: DEFAULT_RESOURCE_ID,
+    content: {
+      title: "Premium resource",
+      body: "Thanks for your payment! This content is only served once the payment has been verified on-chain.",
+    },
+  },
+  {
+    id: "market-report",
+    content: {
+      title: "Stablecoin market report",
+      body: "Supply, volume and chain share for the major stablecoins over the past month.",
+    },
+  },
+  {
+    id: "developer-guide",
+    content: {
+      title: "Accepting crypto payments",
+      body: "From quoting a fiat price to verifying the transfer on-chain, step by step.",
+    },
+  },
+];
+
+export function getResource(id: string) {
+  return RESOURCES.find((resource) => resource.id === id) ?? null;
+}
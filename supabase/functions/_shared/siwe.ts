@@ -0,0 +1,141 @@
+import { ethers } from "npm:ethers@6.15.0";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { getProvider } from "./chains.ts";
+import { SIWE_NONCE_TTL_SECONDS } from "./config.ts";
+
+// Sign-In With Ethereum (EIP-4361): the wallet signs a human-readable message
+// naming the site, the address and a single-use nonce we issued.
+
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement: string | null;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string | null;
+  notBefore: string | null;
+}
+
+export class SiweError extends Error {
+  constructor(message: string, public status = 401) {
+    super(message);
+  }
+}
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:";
+const FIELD_PATTERN = /^(URI|Version|Chain ID|Nonce|Issued At|Expiration Time|Not Before|Request ID): (.*)$/;
+// ERC-1271 isValidSignature magic value
+const ERC1271_MAGIC_VALUE = "0x1626ba7e";
+
+export function parseSiweMessage(message: string): SiweMessage {
+  const [header, address, ...rest] = message.split("\n");
+  if (!header?.endsWith(HEADER_SUFFIX) || !ethers.isAddress(address)) {
+    throw new SiweError("Malformed sign-in message", 400);
+  }
+
+  const fields = new Map<string, string>();
+  let statement: string | null = null;
+  for (const line of rest) {
+    const field = FIELD_PATTERN.exec(line);
+    if (field) {
+      fields.set(field[1], field[2]);
+    } else if (line && fields.size === 0 && statement === null) {
+      // The optional statement sits between the address and the fields
+      statement = line;
+    }
+  }
+
+  const chainId = Number(fields.get("Chain ID"));
+  const nonce = fields.get("Nonce");
+  if (!fields.get("URI") || fields.get("Version") !== "1" || !Number.isInteger(chainId) ||
+    !nonce || !/^[a-zA-Z0-9]{8,}$/.test(nonce) || !fields.get("Issued At")) {
+    throw new SiweError("Malformed sign-in message", 400);
+  }
+
+  return {
+    domain: header.slice(0, -HEADER_SUFFIX.length).replace(/^https?:\/\//, ""),
+    address,
+    statement,
+    uri: fields.get("URI"),
+    version: "1",
+    chainId,
+    nonce,
+    issuedAt: fields.get("Issued At"),
+    expirationTime: fields.get("Expiration Time") ?? null,
+    notBefore: fields.get("Not Before") ?? null,
+  };
+}
+
+// Smart contract wallets sign through ERC-1271 instead of with a key
+async function isValidContractSignature(chainId: number, address: string, message: string, signature: string) {
+  try {
+    const wallet = new ethers.Contract(
+      address,
+      ["function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"],
+      getProvider(chainId)
+    );
+    return (await wallet.isValidSignature(ethers.hashMessage(message), signature)) === ERC1271_MAGIC_VALUE;
+  } catch {
+    return false;
+  }
+}
+
+// Checks the message is for one of `domains`, is currently valid and was
+// signed by the address it names. Doesn't touch the nonce.
+export async function verifySiweMessage(message: string, signature: string, domains: string[]) {
+  const siwe = parseSiweMessage(message);
+
+  if (!domains.includes(siwe.domain)) {
+    throw new SiweError("Sign-in message is for another site");
+  }
+
+  const now = Date.now();
+  if (siwe.expirationTime && new Date(siwe.expirationTime).getTime() <= now) {
+    throw new SiweError("Sign-in message has expired");
+  }
+  if (siwe.notBefore && new Date(siwe.notBefore).getTime() > now) {
+    throw new SiweError("Sign-in message is not valid yet");
+  }
+
+  let signer: string | null = null;
+  try {
+    signer = ethers.verifyMessage(message, signature);
+  } catch {
+    // Not an ECDSA signature; may still be a contract wallet's
+  }
+  if (signer?.toLowerCase() !== siwe.address.toLowerCase() &&
+    !(await isValidContractSignature(siwe.chainId, siwe.address, message, signature))) {
+    throw new SiweError("Invalid sign-in signature");
+  }
+
+  return siwe;
+}
+
+export async function createNonce(supabase: SupabaseClient) {
+  const nonce = ethers.hexlify(ethers.randomBytes(16)).slice(2);
+
+  const { error } = await supabase.from("siwe_nonces").insert({
+    nonce,
+    expires_at: new Date(Date.now() + SIWE_NONCE_TTL_SECONDS * 1000).toISOString(),
+  });
+  if (error) throw error;
+
+  return nonce;
+}
+
+// Marks the nonce used; only the first sign-in with it gets through.
+export async function consumeNonce(supabase: SupabaseClient, nonce: string) {
+  const { data, error } = await supabase
+    .from("siwe_nonces")
+    .update({ used_at: new Date().toISOString() })
+    .eq("nonce", nonce)
+    .is("used_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new SiweError("Sign-in nonce is invalid or has expired");
+}
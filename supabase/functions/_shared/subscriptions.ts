@@ -0,0 +1,453 @@
+import { ethers } from "npm:ethers@6.15.0";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { getToken, getTokenDecimals } from "./chains.ts";
+import { isAcceptedChain, RECIPIENT_ADDRESS } from "./config.ts";
+import { EIP2612_ABI, PERMIT_TYPES, type Permit } from "./eip2612.ts";
+import { tokenDomain } from "./eip712.ts";
+import { grantEntitlement } from "./entitlements.ts";
+import { IntentError, type PaymentIntent } from "./intents.ts";
+import { getSubscriptionSpender } from "./relayer.ts";
+
+// Subscription billing: a permit gives the merchant's subscription spender an
+// allowance for SUBSCRIPTION_ALLOWANCE_PERIODS periods, and each period is
+// pulled with transferFrom when the previous one ends. When the allowance
+// runs out the subscriber renews it by signing a new permit.
+
+export type BillingInterval = "minute" | "hour" | "day" | "week" | "month" | "year";
+
+export interface SubscriptionPlan {
+  id: string;
+  name: string;
+  description: string;
+  resource: string;
+  billing_interval: BillingInterval;
+  interval_count: number;
+  price_amount: number;
+  token: string;
+  grace_period_seconds: number;
+  active: boolean;
+}
+
+export type SubscriptionStatus = "active" | "past_due" | "canceled" | "expired";
+
+export interface Subscription {
+  id: string;
+  plan_id: string;
+  user_id: string;
+  subscriber_address: string;
+  chain_id: number;
+  token_address: string;
+  spender_address: string;
+  status: SubscriptionStatus;
+  current_period_start: string;
+  current_period_end: string;
+  cancel_at_period_end: boolean;
+  canceled_at: string | null;
+  // Written as an exact decimal string, as for payment authorizations
+  allowance_amount: number | string;
+  permit_tx_hash: string | null;
+  failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const INTERVAL_MS: Partial<Record<BillingInterval, number>> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// End of the billing period starting at `start`. Months and years follow the
+// calendar, so a period starting on the 31st may end early in the next month.
+export function periodEnd(plan: SubscriptionPlan, start: Date) {
+  const end = new Date(start);
+  if (plan.billing_interval === "month") {
+    end.setUTCMonth(end.getUTCMonth() + plan.interval_count);
+  } else if (plan.billing_interval === "year") {
+    end.setUTCFullYear(end.getUTCFullYear() + plan.interval_count);
+  } else {
+    end.setTime(end.getTime() + INTERVAL_MS[plan.billing_interval] * plan.interval_count);
+  }
+  return end;
+}
+
+// Access lasts until the period ends plus the grace period, so a renewal
+// that fails can be retried before the subscriber loses access.
+function accessEnd(plan: SubscriptionPlan, end: Date) {
+  return new Date(end.getTime() + plan.grace_period_seconds * 1000);
+}
+
+export async function loadPlan(supabase: SupabaseClient, planId: unknown) {
+  if (typeof planId !== "string") {
+    throw new IntentError("Invalid plan id");
+  }
+
+  const { data, error } = await supabase
+    .from("subscription_plans")
+    .select("*")
+    .eq("id", planId)
+    .eq("active", true)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new IntentError("Plan not found", 404);
+
+  return data as SubscriptionPlan;
+}
+
+export async function loadSubscription(supabase: SupabaseClient, subscriptionId: unknown) {
+  if (typeof subscriptionId !== "string") {
+    throw new IntentError("Invalid subscription id");
+  }
+
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .select("*")
+    .eq("id", subscriptionId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new IntentError("Subscription not found", 404);
+
+  return data as Subscription;
+}
+
+export async function updateSubscription(
+  supabase: SupabaseClient,
+  subscriptionId: string,
+  changes: Partial<Subscription>
+) {
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .update(changes)
+    .eq("id", subscriptionId)
+    .select()
+    .single();
+  if (error) throw error;
+
+  return data as Subscription;
+}
+
+// The plan's token on `chainId`; charges need permit support.
+export function planToken(plan: SubscriptionPlan, chainId: unknown) {
+  if (!isAcceptedChain(chainId)) {
+    throw new IntentError("Payments are not accepted on this chain");
+  }
+  const token = getToken(chainId, plan.token);
+  if (!token?.eip2612) {
+    throw new IntentError(`${plan.token} subscriptions are not available on this chain`);
+  }
+  return token;
+}
+
+// Checks a subscriber's permit for the plan and submits it from the spender,
+// so the allowance is in place before the first charge. Resolves with the
+// permit transaction's hash.
+export async function submitSubscriptionPermit(
+  plan: SubscriptionPlan,
+  chainId: number,
+  permit: Permit,
+  signature: string,
+  spender: string
+) {
+  const tokenConfig = planToken(plan, chainId);
+  const token = new ethers.Contract(tokenConfig.address, EIP2612_ABI, getSubscriptionSpender(chainId));
+  const decimals = await getTokenDecimals(chainId, tokenConfig);
+
+  if (permit.spender.toLowerCase() !== spender.toLowerCase()) {
+    throw new IntentError("Permit must name the merchant as spender");
+  }
+  if (BigInt(permit.value) < ethers.parseUnits(String(plan.price_amount), decimals)) {
+    throw new IntentError("Permit does not cover a billing period");
+  }
+  if (BigInt(permit.deadline) <= BigInt(Math.floor(Date.now() / 1000) + 60)) {
+    throw new IntentError("Permit has expired");
+  }
+  if (BigInt(permit.nonce) !== (await token.nonces(permit.owner))) {
+    throw new IntentError("Permit nonce is out of date");
+  }
+
+  const domain = await tokenDomain(token, chainId);
+  const signer = ethers.verifyTypedData(domain, PERMIT_TYPES, permit, signature);
+  if (signer.toLowerCase() !== permit.owner.toLowerCase()) {
+    throw new IntentError("Signature does not match the subscriber");
+  }
+
+  const { v, r, s } = ethers.Signature.from(signature);
+  const tx = await token.permit(permit.owner, permit.spender, permit.value, permit.deadline, v, r, s);
+  await tx.wait();
+  return tx.hash.toLowerCase() as string;
+}
+
+// Payments of this subscription's charges, which its entitlements hang off
+async function chargePaymentIds(supabase: SupabaseClient, subscriptionId: string) {
+  const { data, error } = await supabase
+    .from("subscription_charges")
+    .select("payment_id")
+    .eq("subscription_id", subscriptionId)
+    .not("payment_id", "is", null);
+  if (error) throw error;
+
+  return (data as { payment_id: string }[]).map((charge) => charge.payment_id);
+}
+
+// Moves the end of the subscription's entitlements, e.g. to the end of the
+// paid period when the subscriber cancels.
+async function setAccessEnd(supabase: SupabaseClient, subscription: Subscription, end: Date) {
+  const paymentIds = await chargePaymentIds(supabase, subscription.id);
+  if (paymentIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("entitlements")
+    .update({ expires_at: end.toISOString() })
+    .in("payment_id", paymentIds)
+    .gt("expires_at", new Date().toISOString());
+  if (error) throw error;
+}
+
+async function recordCharge(supabase: SupabaseClient, charge: Record<string, unknown>) {
+  const { error } = await supabase.from("subscription_charges").insert(charge);
+  if (error) throw error;
+}
+
+// Charges are paid like checkout payments: through an intent, here confirmed
+// as soon as the charge is mined, that its payment belongs to. finality.ts
+// sends it back to `submitted` if a reorg drops the charge, to be settled
+// again where the transaction is mined anew.
+async function recordChargeIntent(
+  supabase: SupabaseClient,
+  subscription: Subscription,
+  plan: SubscriptionPlan,
+  amount: string,
+  txHash: string
+) {
+  const { data, error } = await supabase
+    .from("payment_intents")
+    .insert({
+      amount,
+      token: plan.token,
+      token_address: subscription.token_address,
+      chain_id: subscription.chain_id,
+      recipient_address: RECIPIENT_ADDRESS.toLowerCase(),
+      resource: plan.resource,
+      user_id: subscription.user_id,
+      status: "confirmed",
+      tx_hash: txHash,
+      payer_address: subscription.subscriber_address,
+      expires_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  return data as PaymentIntent;
+}
+
+// Moves the subscription to the period about to be charged, unless a run
+// alongside (or a retry of this one) already did; only the run that claims a
+// period charges it. Null when the period was claimed before.
+async function claimPeriod(supabase: SupabaseClient, subscription: Subscription, start: Date, end: Date) {
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .update({ current_period_start: start.toISOString(), current_period_end: end.toISOString() })
+    .eq("id", subscription.id)
+    .eq("status", subscription.status)
+    .eq("current_period_end", subscription.current_period_end)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+
+  return data as Subscription | null;
+}
+
+// Pulls one period starting at `start` from the subscriber. On success the
+// subscription moves to that period and its resource is granted until the
+// period ends (plus grace); on failure it goes past_due, or expired once the
+// grace period of the last paid period has run out. A period another run
+// claimed first is left to it. A run that dies mid-charge leaves its period
+// claimed: at worst unpaid, never charged twice.
+export async function chargeSubscription(
+  supabase: SupabaseClient,
+  subscription: Subscription,
+  plan: SubscriptionPlan,
+  start = new Date()
+) {
+  const tokenConfig = planToken(plan, subscription.chain_id);
+  const decimals = await getTokenDecimals(subscription.chain_id, tokenConfig);
+  const value = ethers.parseUnits(String(plan.price_amount), decimals);
+  const end = periodEnd(plan, start);
+  const owner = subscription.subscriber_address;
+  const spender = getSubscriptionSpender(subscription.chain_id)!;
+  const token = new ethers.Contract(subscription.token_address, EIP2612_ABI, spender);
+  let claimed = false;
+
+  const fail = async (reason: string) => {
+    await recordCharge(supabase, {
+      subscription_id: subscription.id,
+      period_start: start.toISOString(),
+      period_end: end.toISOString(),
+      amount: plan.price_amount,
+      status: "failed",
+      failure_reason: reason,
+    });
+
+    const lapsed = accessEnd(plan, new Date(subscription.current_period_end)).getTime() <= Date.now();
+    return updateSubscription(supabase, subscription.id, {
+      status: lapsed ? "expired" : "past_due",
+      failure_reason: reason,
+      // The unpaid period goes back, to be claimed again by the next retry
+      ...(claimed && {
+        current_period_start: subscription.current_period_start,
+        current_period_end: subscription.current_period_end,
+      }),
+    });
+  };
+
+  // Checked up front so a charge that can't succeed costs no gas. Permits
+  // given to an earlier spender don't count.
+  if ((await token.allowance(owner, spender.address)) < value) {
+    return fail("Allowance used up; renew the subscription to keep it going");
+  }
+  if ((await token.balanceOf(owner)) < value) {
+    return fail(`Insufficient ${plan.token} balance`);
+  }
+
+  if (!(await claimPeriod(supabase, subscription, start, end))) {
+    return loadSubscription(supabase, subscription.id);
+  }
+  claimed = true;
+
+  let receipt: ethers.TransactionReceipt | null;
+  try {
+    const tx = await token.transferFrom(owner, RECIPIENT_ADDRESS, value);
+    receipt = await tx.wait();
+  } catch (error) {
+    console.error(`Subscription ${subscription.id} charge failed:`, error);
+    return fail("Charge transaction failed");
+  }
+  if (!receipt || receipt.status !== 1) {
+    return fail("Charge transaction reverted");
+  }
+
+  const amount = ethers.formatUnits(value, decimals);
+  const intent = await recordChargeIntent(supabase, subscription, plan, amount, receipt.hash.toLowerCase());
+  const { data: payment, error } = await supabase
+    .from("payments")
+    .insert({
+      intent_id: intent.id,
+      tx_hash: intent.tx_hash,
+      chain_id: subscription.chain_id,
+      token_address: subscription.token_address,
+      payer_address: owner,
+      recipient_address: RECIPIENT_ADDRESS.toLowerCase(),
+      amount,
+      block_number: receipt.blockNumber,
+      block_hash: receipt.blockHash.toLowerCase(),
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  await recordCharge(supabase, {
+    subscription_id: subscription.id,
+    period_start: start.toISOString(),
+    period_end: end.toISOString(),
+    amount: plan.price_amount,
+    status: "succeeded",
+    payment_id: payment.id,
+    tx_hash: payment.tx_hash,
+  });
+  await grantEntitlement(
+    supabase,
+    { resource: plan.resource, user_id: subscription.user_id },
+    payment,
+    accessEnd(plan, end)
+  );
+
+  return updateSubscription(supabase, subscription.id, {
+    status: "active",
+    failure_reason: null,
+  });
+}
+
+// Stops renewals. Access runs to the end of the paid period, without the
+// grace period meant for failed renewals; a past_due subscription ends now.
+export async function cancelSubscription(supabase: SupabaseClient, subscription: Subscription) {
+  if (subscription.status === "canceled" || subscription.status === "expired") {
+    throw new IntentError(`Subscription is already ${subscription.status}`, 409);
+  }
+
+  await setAccessEnd(supabase, subscription, new Date(subscription.current_period_end));
+  return updateSubscription(supabase, subscription.id, {
+    status: subscription.status === "past_due" ? "canceled" : subscription.status,
+    cancel_at_period_end: true,
+    canceled_at: new Date().toISOString(),
+  });
+}
+
+// Undoes a cancellation while the paid period is still running.
+export async function resumeSubscription(
+  supabase: SupabaseClient,
+  subscription: Subscription,
+  plan: SubscriptionPlan
+) {
+  if (subscription.status !== "active" || !subscription.cancel_at_period_end) {
+    throw new IntentError("Only a canceled subscription still in its paid period can be resumed", 409);
+  }
+
+  await setAccessEnd(supabase, subscription, accessEnd(plan, new Date(subscription.current_period_end)));
+  return updateSubscription(supabase, subscription.id, {
+    cancel_at_period_end: false,
+    canceled_at: null,
+  });
+}
+
+// One scheduler pass: renews every subscription whose period has ended and
+// ends the ones canceled at period end. A renewal that failed is retried on
+// every pass until it succeeds or the grace period runs out. Each pass
+// charges a subscription at most one period.
+export async function chargeDueSubscriptions(supabase: SupabaseClient, now = new Date()) {
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .select("*")
+    .in("status", ["active", "past_due"])
+    .lte("current_period_end", now.toISOString())
+    .order("current_period_end", { ascending: true });
+  if (error) throw error;
+
+  const plans = new Map<string, SubscriptionPlan>();
+  const results: { id: string; status: SubscriptionStatus; failure_reason: string | null }[] = [];
+
+  for (const due of data as Subscription[]) {
+    try {
+      let subscription: Subscription;
+      if (due.cancel_at_period_end) {
+        subscription = await updateSubscription(supabase, due.id, { status: "canceled" });
+      } else {
+        if (!plans.has(due.plan_id)) {
+          const { data: plan, error: planError } = await supabase
+            .from("subscription_plans")
+            .select("*")
+            .eq("id", due.plan_id)
+            .single();
+          if (planError) throw planError;
+          plans.set(due.plan_id, plan as SubscriptionPlan);
+        }
+        const plan = plans.get(due.plan_id)!;
+
+        // On time, the next period follows the last one. A late retry, or a
+        // pass after the scheduler was down for longer than a period, starts
+        // it now rather than billing for the lapsed days: missed periods are
+        // never caught up on.
+        const next = new Date(due.current_period_end);
+        const start = due.status === "active" && periodEnd(plan, next) > now ? next : now;
+        subscription = await chargeSubscription(supabase, due, plan, start);
+      }
+      results.push({ id: subscription.id, status: subscription.status, failure_reason: subscription.failure_reason });
+    } catch (error) {
+      console.error(`Subscription ${due.id} renewal error:`, error);
+      results.push({ id: due.id, status: due.status, failure_reason: "Renewal error" });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,10 @@
+import { createClient } from "npm:@supabase/supabase-js@2.50.5";
+
+// Service-role client: bypasses RLS, so only use it inside functions.
+export function createServiceClient() {
+  return createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    { auth: { persistSession: false } }
+  );
+}
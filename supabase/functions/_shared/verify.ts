@@ -0,0 +1,138 @@
+import { ethers } from "npm:ethers@6.15.0";
+import { getProvider } from "./chains.ts";
+
+const TRANSFER_EVENT = new ethers.Interface([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+export interface ExpectedTransfer {
+  chainId: number;
+  tokenAddress: string;
+  // Native ETH moves as the transaction value instead of a Transfer event
+  native?: boolean;
+  recipient: string;
+  // Least amount, in base units, that counts as paid
+  minValue: bigint;
+  // Blocks deep the transaction must be (see finality.ts)
+  minConfirmations: number;
+  // Wallet the transfer must come from, when the intent records one (see
+  // payers.ts)
+  payer?: string | null;
+}
+
+export type TransferVerification =
+  | {
+      ok: true;
+      payer: string;
+      recipient: string;
+      value: bigint;
+      blockNumber: number;
+      blockHash: string;
+      confirmations: number;
+    }
+  // `retryable` failures may still succeed once the transaction is mined
+  // deep enough; the others are final. `wrongPayer` ones are final for the
+  // wallet that submitted the transaction, not for the intent.
+  | { ok: false; reason: string; retryable?: boolean; wrongPayer?: boolean; confirmations?: number };
+
+const PAYER_MISMATCH = "Transfer was not sent from the payer's wallet";
+
+function isFromPayer(sender: string, expected: ExpectedTransfer) {
+  return !expected.payer || sender.toLowerCase() === expected.payer.toLowerCase();
+}
+
+export function isTxHash(value: unknown): value is string {
+  return typeof value === "string" && /^0x[0-9a-fA-F]{64}$/.test(value);
+}
+
+// Looks up the receipt on the expected chain and checks that it pays the
+// merchant at least the expected amount, from the expected payer: through a
+// token Transfer event, or as the transaction value for native ETH.
+export async function verifyTransfer(
+  txHash: string,
+  expected: ExpectedTransfer
+): Promise<TransferVerification> {
+  const provider = getProvider(expected.chainId);
+  const receipt = await provider.getTransactionReceipt(txHash);
+
+  if (!receipt) {
+    return { ok: false, reason: "Transaction not found or not yet mined", retryable: true };
+  }
+  if (receipt.status !== 1) {
+    return { ok: false, reason: "Transaction reverted" };
+  }
+
+  const confirmations = await receipt.confirmations();
+  if (confirmations < expected.minConfirmations) {
+    return {
+      ok: false,
+      reason: `Waiting for ${expected.minConfirmations} confirmations`,
+      retryable: true,
+      confirmations,
+    };
+  }
+
+  if (expected.native) {
+    const tx = await provider.getTransaction(txHash);
+    if (!tx || tx.to?.toLowerCase() !== expected.recipient.toLowerCase()) {
+      return { ok: false, reason: "Transaction does not pay the merchant" };
+    }
+    if (!isFromPayer(tx.from, expected)) {
+      return { ok: false, reason: PAYER_MISMATCH, wrongPayer: true };
+    }
+    if (tx.value < expected.minValue) {
+      return { ok: false, reason: "Transferred amount is lower than expected" };
+    }
+
+    return {
+      ok: true,
+      payer: tx.from,
+      recipient: tx.to,
+      value: tx.value,
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash,
+      confirmations,
+    };
+  }
+
+  // A transaction may move the token more than once, e.g. from a batching
+  // wallet; any one transfer that pays enough counts
+  let otherPayer = false;
+  let underpaid = false;
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== expected.tokenAddress.toLowerCase()) continue;
+
+    const parsed = TRANSFER_EVENT.parseLog(log);
+    if (!parsed || parsed.name !== "Transfer") continue;
+
+    const { from, to, value } = parsed.args;
+    if (to.toLowerCase() !== expected.recipient.toLowerCase()) continue;
+    if (!isFromPayer(from, expected)) {
+      otherPayer = true;
+      continue;
+    }
+
+    if (value < expected.minValue) {
+      underpaid = true;
+      continue;
+    }
+
+    return {
+      ok: true,
+      payer: from,
+      recipient: to,
+      value,
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash,
+      confirmations,
+    };
+  }
+
+  if (underpaid) {
+    return { ok: false, reason: "Transferred amount is lower than expected" };
+  }
+  if (otherPayer) {
+    return { ok: false, reason: PAYER_MISMATCH, wrongPayer: true };
+  }
+  return { ok: false, reason: "No token transfer to the merchant found in transaction" };
+}
@@ -0,0 +1,101 @@
+import { ethers } from "npm:ethers@6.15.0";
+import { authorizationSummary } from "../_shared/authorizations.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { EIP2612_ABI, isPermit, PERMIT_TYPES } from "../_shared/eip2612.ts";
+import { tokenDomain } from "../_shared/eip712.ts";
+import {
+  IntentError,
+  intentDecimals,
+  intentToken,
+  loadIntent,
+  minimumBaseUnits,
+  retargetIntent,
+  updateIntent,
+} from "../_shared/intents.ts";
+import { getRelayer, getRelayerAddress } from "../_shared/relayer.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Stores a payer-signed EIP-2612 permit for the intent. Nothing moves
+// on-chain yet: the merchant captures the funds later via capture-payment.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const reject = (code: string, error: string, status = 400) =>
+    jsonResponse({ error, code }, status);
+
+  try {
+    const spender = getRelayerAddress();
+    if (!spender) {
+      return reject("pull_payments_unavailable", "Pull payments are not enabled", 503);
+    }
+
+    const { intentId, chainId, token: tokenSymbol, permit, signature } = await req.json();
+    if (!isPermit(permit) || typeof signature !== "string") {
+      return reject("invalid_permit", "Invalid permit");
+    }
+
+    const supabase = createServiceClient();
+    let intent = await loadIntent(supabase, intentId);
+    if (intent.status !== "created") {
+      return reject("intent_unavailable", `Payment intent is ${intent.status}`, 409);
+    }
+    intent = await retargetIntent(supabase, intent, chainId, tokenSymbol);
+    if (!intentToken(intent).eip2612) {
+      return reject("pull_payments_unsupported", `${intent.token} does not support pull payments`);
+    }
+
+    if (permit.spender.toLowerCase() !== spender.toLowerCase()) {
+      return reject("invalid_permit", "Permit must name the merchant as spender");
+    }
+    const expectedValue = await minimumBaseUnits(intent);
+    if (BigInt(permit.value) < expectedValue) {
+      return reject("invalid_permit", "Permit does not cover the payment amount");
+    }
+    if (BigInt(permit.deadline) <= BigInt(Math.floor(Date.now() / 1000) + 60)) {
+      return reject("permit_expired", "Permit has expired");
+    }
+
+    const token = new ethers.Contract(intent.token_address, EIP2612_ABI, getRelayer(intent.chain_id));
+    if (BigInt(permit.nonce) !== (await token.nonces(permit.owner))) {
+      return reject("permit_nonce_mismatch", "Permit nonce is out of date");
+    }
+
+    const domain = await tokenDomain(token, intent.chain_id);
+    const signer = ethers.verifyTypedData(domain, PERMIT_TYPES, permit, signature);
+    if (signer.toLowerCase() !== permit.owner.toLowerCase()) {
+      return reject("invalid_signature", "Signature does not match the payer");
+    }
+
+    if ((await token.balanceOf(permit.owner)) < expectedValue) {
+      return reject("insufficient_balance", `Insufficient ${intent.token} balance for this payment`);
+    }
+
+    const { data: authorization, error } = await supabase
+      .from("payment_authorizations")
+      .insert({
+        intent_id: intent.id,
+        chain_id: intent.chain_id,
+        token_address: intent.token_address,
+        owner_address: permit.owner.toLowerCase(),
+        spender_address: permit.spender.toLowerCase(),
+        authorized_amount: ethers.formatUnits(permit.value, await intentDecimals(intent)),
+        permit_nonce: permit.nonce,
+        permit_deadline: new Date(Number(permit.deadline) * 1000).toISOString(),
+        permit_signature: signature,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    const submitted = await updateIntent(supabase, intent.id, { status: "submitted" });
+    return jsonResponse({ intent: submitted, authorization: authorizationSummary(authorization) });
+  } catch (error) {
+    if (error instanceof IntentError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("authorize-payment error:", error);
+    return jsonResponse({ error: "Unable to authorize payment" }, 500);
+  }
+});
@@ -0,0 +1,177 @@
+import { ethers } from "npm:ethers@6.15.0";
+import {
+  authorizationSummary,
+  loadAuthorization,
+  transitionAuthorization,
+  updateAuthorization,
+} from "../_shared/authorizations.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { MERCHANT_API_KEY } from "../_shared/config.ts";
+import { EIP2612_ABI } from "../_shared/eip2612.ts";
+import { grantEntitlement } from "../_shared/entitlements.ts";
+import { IntentError, intentDecimals, loadIntent, updateIntent } from "../_shared/intents.ts";
+import { getRelayer, getRelayerAddress } from "../_shared/relayer.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Merchant-only endpoint: pulls authorized funds with transferFrom (the whole
+// remaining amount, or part of it) or voids the authorization. The first
+// capture pays the intent like any other payment: it is recorded in
+// `payments` and grants what the intent bought.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!MERCHANT_API_KEY || req.headers.get("x-merchant-key") !== MERCHANT_API_KEY) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    if (!getRelayerAddress()) {
+      return jsonResponse({ error: "Pull payments are not enabled" }, 503);
+    }
+
+    const { action = "capture", authorizationId, amount } = await req.json();
+
+    const supabase = createServiceClient();
+    let authorization = await loadAuthorization(supabase, authorizationId);
+    if (!["authorized", "partially_captured"].includes(authorization.status)) {
+      return jsonResponse({ error: `Authorization is ${authorization.status}` }, 409);
+    }
+
+    const intent = await loadIntent(supabase, authorization.intent_id);
+
+    if (action === "void") {
+      authorization = await transitionAuthorization(supabase, authorization, { status: "voided" });
+      if (intent.status !== "confirmed") {
+        await updateIntent(supabase, intent.id, {
+          status: "failed",
+          failure_reason: "Authorization voided by merchant",
+        });
+      }
+      return jsonResponse({ authorization: authorizationSummary(authorization) });
+    }
+    if (action !== "capture") {
+      return jsonResponse({ error: "Unknown action" }, 400);
+    }
+
+    const decimals = await intentDecimals(intent);
+    const toBaseUnits = (value: number | string) => ethers.parseUnits(String(value), decimals);
+
+    const authorizedValue = toBaseUnits(authorization.authorized_amount);
+    const remaining = authorizedValue - toBaseUnits(authorization.captured_amount);
+    const captureValue = amount === undefined ? remaining : toBaseUnits(amount);
+    if (captureValue <= 0n || captureValue > remaining) {
+      return jsonResponse({ error: "Capture amount exceeds the authorized amount" }, 400);
+    }
+
+    // Claimed before anything is sent, so a capture running alongside can't
+    // pull the same funds; a failure hands the authorization back. Whatever
+    // happens, the allowance of the permit bounds what can be pulled.
+    const claimedFrom = authorization.status;
+    authorization = await transitionAuthorization(supabase, authorization, { status: "capturing" });
+    const release = () => updateAuthorization(supabase, authorization.id, { status: claimedFrom });
+
+    let tx: ethers.ContractTransactionResponse;
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      const relayer = getRelayer(authorization.chain_id)!;
+      const token = new ethers.Contract(authorization.token_address, EIP2612_ABI, relayer);
+
+      // The permit is only submitted on first capture; the allowance it sets
+      // covers any later partial captures.
+      if (!authorization.permit_tx_hash) {
+        const deadline = Math.floor(new Date(authorization.permit_deadline).getTime() / 1000);
+        if (deadline <= Math.floor(Date.now() / 1000)) {
+          authorization = await updateAuthorization(supabase, authorization.id, { status: "expired" });
+          return jsonResponse({ error: "Authorization has expired" }, 409);
+        }
+
+        const { v, r, s } = ethers.Signature.from(authorization.permit_signature);
+        const permitTx = await token.permit(
+          authorization.owner_address,
+          authorization.spender_address,
+          authorizedValue,
+          deadline,
+          v,
+          r,
+          s
+        );
+        await permitTx.wait();
+        authorization = await updateAuthorization(supabase, authorization.id, {
+          permit_tx_hash: permitTx.hash.toLowerCase(),
+        });
+      }
+
+      tx = await token.transferFrom(
+        authorization.owner_address,
+        intent.recipient_address,
+        captureValue
+      );
+      receipt = await tx.wait();
+    } catch (error) {
+      await release();
+      throw error;
+    }
+    if (!receipt || receipt.status !== 1) {
+      await release();
+      return jsonResponse({ error: "Capture transaction failed" }, 502);
+    }
+    const txHash = tx.hash.toLowerCase();
+
+    const { data: capture, error } = await supabase
+      .from("payment_captures")
+      .insert({
+        authorization_id: authorization.id,
+        amount: ethers.formatUnits(captureValue, decimals),
+        tx_hash: txHash,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    const captured = toBaseUnits(authorization.captured_amount) + captureValue;
+    authorization = await updateAuthorization(supabase, authorization.id, {
+      captured_amount: ethers.formatUnits(captured, decimals),
+      status: captured === authorizedValue ? "captured" : "partially_captured",
+    });
+
+    // Later partial captures add to the payment of the first; they are
+    // recorded without the intent, which has only one payment
+    const paying = intent.status !== "confirmed";
+    const { data: payment, error: paymentError } = await supabase
+      .from("payments")
+      .insert({
+        intent_id: paying ? intent.id : null,
+        tx_hash: txHash,
+        chain_id: authorization.chain_id,
+        token_address: authorization.token_address,
+        payer_address: authorization.owner_address.toLowerCase(),
+        recipient_address: intent.recipient_address,
+        amount: ethers.formatUnits(captureValue, decimals),
+        block_number: receipt.blockNumber,
+        block_hash: receipt.blockHash.toLowerCase(),
+      })
+      .select()
+      .single();
+    if (paymentError) throw paymentError;
+
+    if (paying) {
+      const confirmed = await updateIntent(supabase, intent.id, {
+        status: "confirmed",
+        tx_hash: txHash,
+        payer_address: authorization.owner_address.toLowerCase(),
+        failure_reason: null,
+      });
+      await grantEntitlement(supabase, confirmed, payment);
+    }
+
+    return jsonResponse({ authorization: authorizationSummary(authorization), capture });
+  } catch (error) {
+    if (error instanceof IntentError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("capture-payment error:", error);
+    return jsonResponse({ error: "Unable to capture payment" }, 500);
+  }
+});
@@ -0,0 +1,30 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { MERCHANT_API_KEY } from "../_shared/config.ts";
+import { getRelayerAddress } from "../_shared/relayer.ts";
+import { chargeDueSubscriptions } from "../_shared/subscriptions.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Subscription scheduler, one pass per call: renews every subscription whose
+// period has ended. Merchant-only; call it on a timer (Supabase Cron in
+// production, a shell loop locally).
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!MERCHANT_API_KEY || req.headers.get("x-merchant-key") !== MERCHANT_API_KEY) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    if (!getRelayerAddress()) {
+      return jsonResponse({ error: "Subscriptions are not enabled" }, 503);
+    }
+
+    const renewed = await chargeDueSubscriptions(createServiceClient());
+    return jsonResponse({ renewed });
+  } catch (error) {
+    console.error("charge-subscriptions error:", error);
+    return jsonResponse({ error: "Unable to charge subscriptions" }, 500);
+  }
+});
@@ -0,0 +1,39 @@
+import { getRequestUser } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { IntentError } from "../_shared/intents.ts";
+import { createLinkIntent, parsePaymentLink } from "../_shared/links.ts";
+import { createProductIntent, DEFAULT_PRODUCT_ID, loadProduct } from "../_shared/products.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { productId, amount, chainId, token, link } = await req.json();
+    const supabase = createServiceClient();
+    const user = await getRequestUser(supabase, req);
+
+    // Payment links carry their own amount and token instead of a product
+    if (link) {
+      const intent = await createLinkIntent(supabase, parsePaymentLink(link), chainId ?? undefined, user?.id ?? null);
+      return jsonResponse({ intent });
+    }
+
+    const product = await loadProduct(supabase, productId ?? DEFAULT_PRODUCT_ID);
+    const intent = await createProductIntent(supabase, product, amount, {
+      chainId: chainId ?? undefined,
+      token: token ?? undefined,
+      userId: user?.id ?? null,
+    });
+
+    return jsonResponse({ intent });
+  } catch (error) {
+    if (error instanceof IntentError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("create-payment-intent error:", error);
+    return jsonResponse({ error: "Unable to create payment intent" }, 500);
+  }
+});
@@ -0,0 +1,42 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { isAcceptedToken, MERCHANT_API_KEY } from "../_shared/config.ts";
+import { IntentError } from "../_shared/intents.ts";
+import { parsePaymentLink, signPaymentLink } from "../_shared/links.ts";
+
+// Merchant-only endpoint: signs a payment link so the checkout charges
+// exactly its amount and token, to its recipient, until it expires.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!MERCHANT_API_KEY || req.headers.get("x-merchant-key") !== MERCHANT_API_KEY) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const { amount, token, memo, recipient, expiresIn } = await req.json();
+
+    if (expiresIn != null && !(Number(expiresIn) > 0)) {
+      throw new IntentError("Invalid expiry");
+    }
+    const link = parsePaymentLink({
+      amount,
+      token,
+      memo,
+      recipient,
+      expires: expiresIn == null ? null : Math.floor(Date.now() / 1000) + Math.floor(Number(expiresIn)),
+    });
+    if (!isAcceptedToken(link.token)) {
+      throw new IntentError("Payments are not accepted in this token");
+    }
+
+    return jsonResponse({ link: await signPaymentLink(link) });
+  } catch (error) {
+    if (error instanceof IntentError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("create-payment-link error:", error);
+    return jsonResponse({ error: "Unable to create payment link" }, 500);
+  }
+});
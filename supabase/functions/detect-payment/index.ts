@@ -0,0 +1,44 @@
+import { getRequestUser } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { findIncomingTransfer, watchIntent } from "../_shared/detect.ts";
+import { claimIntent, IntentError, loadIntent, retargetIntent, submitIntent } from "../_shared/intents.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Polled by a checkout showing an EIP-681 QR code. The first call moves the
+// intent to the chain and token the code is for and starts watching; once a
+// matching transfer is mined the intent is submitted with it, to be verified
+// like any other payment.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { intentId, chainId, token } = await req.json();
+
+    const supabase = createServiceClient();
+    let intent = await loadIntent(supabase, intentId);
+    if (intent.status !== "created") {
+      return jsonResponse({ intent });
+    }
+
+    intent = await retargetIntent(supabase, intent, chainId, token);
+    intent = await claimIntent(supabase, intent, (await getRequestUser(supabase, req))?.id ?? null);
+    intent = await watchIntent(supabase, intent);
+
+    const txHash = await findIncomingTransfer(supabase, intent);
+    if (txHash) {
+      // Sent from a wallet this checkout isn't connected to; its sender
+      // becomes the payer once the chain is asked about it
+      intent = await submitIntent(supabase, intent, txHash, null);
+    }
+
+    return jsonResponse({ intent });
+  } catch (error) {
+    if (error instanceof IntentError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("detect-payment error:", error);
+    return jsonResponse({ error: "Unable to check for the payment" }, 500);
+  }
+});
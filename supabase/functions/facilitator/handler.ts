@@ -0,0 +1,126 @@
+import { ethers } from "npm:ethers@6.15.0";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { tokenDomain } from "../_shared/eip712.ts";
+import {
+  EIP3009_ABI,
+  isTransferAuthorization,
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+} from "../_shared/eip3009.ts";
+import {
+  IntentError,
+  intentToken,
+  loadIntent,
+  minimumBaseUnits,
+  retargetIntent,
+  transitionIntent,
+  updateIntent,
+} from "../_shared/intents.ts";
+import { getRelayer, getRelayerAddress } from "../_shared/relayer.ts";
+
+// Submits a payer-signed EIP-3009 authorization on-chain so the payer
+// needs no ETH for gas. The relayer pays the gas instead.
+export async function handleFacilitatorRequest(supabase: SupabaseClient, req: Request) {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const reject = (code: string, error: string, status = 400) =>
+    jsonResponse({ error, code }, status);
+
+  try {
+    if (!getRelayerAddress()) {
+      return reject("gasless_unavailable", "Gasless payments are not enabled", 503);
+    }
+
+    const { intentId, chainId, token: tokenSymbol, authorization, signature } = await req.json();
+    if (!isTransferAuthorization(authorization) || typeof signature !== "string") {
+      return reject("invalid_authorization", "Invalid transfer authorization");
+    }
+
+    let intent = await loadIntent(supabase, intentId);
+    if (intent.status !== "created") {
+      return reject("intent_unavailable", `Payment intent is ${intent.status}`, 409);
+    }
+    intent = await retargetIntent(supabase, intent, chainId, tokenSymbol);
+    if (!intentToken(intent).eip3009) {
+      return reject("gasless_unsupported", `${intent.token} does not support gasless payments`);
+    }
+
+    // The authorization must pay this intent (re-priced quotes may land
+    // within the slippage tolerance)
+    if (
+      authorization.to.toLowerCase() !== intent.recipient_address ||
+      BigInt(authorization.value) < (await minimumBaseUnits(intent))
+    ) {
+      return reject("invalid_authorization", "Authorization does not match the payment intent");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (BigInt(authorization.validAfter) > BigInt(now)) {
+      return reject("authorization_not_yet_valid", "Authorization is not valid yet");
+    }
+    // Leave the relayer time to get the transaction mined
+    if (BigInt(authorization.validBefore) <= BigInt(now + 30)) {
+      return reject("authorization_expired", "Authorization has expired");
+    }
+
+    const relayer = getRelayer(intent.chain_id)!;
+    const token = new ethers.Contract(intent.token_address, EIP3009_ABI, relayer);
+
+    const domain = await tokenDomain(token, intent.chain_id);
+    const signer = ethers.verifyTypedData(
+      domain,
+      TRANSFER_WITH_AUTHORIZATION_TYPES,
+      authorization,
+      signature
+    );
+    if (signer.toLowerCase() !== authorization.from.toLowerCase()) {
+      return reject("invalid_signature", "Signature does not match the payer");
+    }
+
+    if (await token.authorizationState(authorization.from, authorization.nonce)) {
+      return reject("authorization_used", "Authorization has already been used", 409);
+    }
+    if ((await token.balanceOf(authorization.from)) < BigInt(authorization.value)) {
+      return reject("insufficient_balance", `Insufficient ${intent.token} balance for this payment`);
+    }
+
+    // Claimed before anything is sent, so a concurrent relay for the intent
+    // can't send a second payment. The authorization's signer is the payer,
+    // whoever relays it.
+    const claimed = await transitionIntent(supabase, intent, {
+      status: "submitted",
+      payer_address: authorization.from.toLowerCase(),
+    });
+
+    const { v, r, s } = ethers.Signature.from(signature);
+    let tx: ethers.TransactionResponse;
+    try {
+      tx = await token.transferWithAuthorization(
+        authorization.from,
+        authorization.to,
+        authorization.value,
+        authorization.validAfter,
+        authorization.validBefore,
+        authorization.nonce,
+        v,
+        r,
+        s
+      );
+    } catch (error) {
+      // Nothing was sent: the intent is open again for another attempt
+      await transitionIntent(supabase, claimed, { status: "created", payer_address: null });
+      throw error;
+    }
+
+    const submitted = await updateIntent(supabase, intent.id, { tx_hash: tx.hash.toLowerCase() });
+    return jsonResponse({ intent: submitted, txHash: tx.hash });
+  } catch (error) {
+    if (error instanceof IntentError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("facilitator error:", error);
+    return jsonResponse({ error: "Unable to submit gasless payment" }, 500);
+  }
+}
@@ -0,0 +1,4 @@
+import { createServiceClient } from "../_shared/supabase.ts";
+import { handleFacilitatorRequest } from "./handler.ts";
+
+Deno.serve((req) => handleFacilitatorRequest(createServiceClient(), req));
@@ -0,0 +1,25 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { IntentError, loadIntent } from "../_shared/intents.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Answers with one intent for the checkout paying it. Intents can only be
+// read by id: the anon key can't list them (see the restrict_payment_reads
+// migration).
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { intentId } = await req.json();
+
+    const intent = await loadIntent(createServiceClient(), intentId);
+    return jsonResponse({ intent });
+  } catch (error) {
+    if (error instanceof IntentError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("get-payment-intent error:", error);
+    return jsonResponse({ error: "Unable to load payment intent" }, 500);
+  }
+});
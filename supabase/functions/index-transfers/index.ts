@@ -0,0 +1,26 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { MERCHANT_API_KEY } from "../_shared/config.ts";
+import { indexTransfers } from "../_shared/indexer.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Transfer watcher, one pass per call: indexes new Transfer logs to the
+// merchant on every accepted chain and settles the intents that confirmed
+// ones pay. Merchant-only; call it on a timer (Supabase Cron in production,
+// a shell loop locally).
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!MERCHANT_API_KEY || req.headers.get("x-merchant-key") !== MERCHANT_API_KEY) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const chains = await indexTransfers(createServiceClient());
+    return jsonResponse({ chains });
+  } catch (error) {
+    console.error("index-transfers error:", error);
+    return jsonResponse({ error: "Unable to index transfers" }, 500);
+  }
+});
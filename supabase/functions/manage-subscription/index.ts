@@ -0,0 +1,47 @@
+import { getRequestUser } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { IntentError } from "../_shared/intents.ts";
+import {
+  cancelSubscription,
+  loadPlan,
+  loadSubscription,
+  resumeSubscription,
+} from "../_shared/subscriptions.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Lets subscribers cancel their subscription (it runs to the end of the paid
+// period) or take the cancellation back before then.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const user = await getRequestUser(supabase, req);
+    if (!user) {
+      return jsonResponse({ error: "Sign in to manage your subscriptions" }, 401);
+    }
+
+    const { action, subscriptionId } = await req.json();
+    const subscription = await loadSubscription(supabase, subscriptionId);
+    if (subscription.user_id !== user.id) {
+      return jsonResponse({ error: "Subscription not found" }, 404);
+    }
+
+    if (action === "cancel") {
+      return jsonResponse({ subscription: await cancelSubscription(supabase, subscription) });
+    }
+    if (action === "resume") {
+      const plan = await loadPlan(supabase, subscription.plan_id);
+      return jsonResponse({ subscription: await resumeSubscription(supabase, subscription, plan) });
+    }
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error) {
+    if (error instanceof IntentError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("manage-subscription error:", error);
+    return jsonResponse({ error: "Unable to update subscription" }, 500);
+  }
+});
@@ -0,0 +1,52 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  ACCEPTED_CHAIN_IDS,
+  ACCEPTED_TOKENS,
+  PAYMENT_LIMITS,
+  SUBSCRIPTION_ALLOWANCE_PERIODS,
+} from "../_shared/config.ts";
+import { getRateProvider, PricingError } from "../_shared/pricing.ts";
+import { getRelayerAddress, getSubscriptionSpenderAddress } from "../_shared/relayer.ts";
+
+// A rough price is enough for the fee preview, so one lookup serves every
+// checkout loaded in ETH_PRICE_CACHE_MS, missing prices included
+const ETH_PRICE_CACHE_MS = 5 * 60 * 1000;
+let ethPrice: { price: Promise<number | null>; fetchedAt: number } | null = null;
+
+// USD price of ETH for the checkout's network fee preview. Null when no rate
+// is available, which only hides the fee's fiat value; no ETH rate configured
+// or a stale feed is expected, anything else is logged.
+function ethUsdPrice() {
+  if (!ethPrice || Date.now() - ethPrice.fetchedAt >= ETH_PRICE_CACHE_MS) {
+    ethPrice = {
+      price: getRateProvider().usdPrice("ETH").catch((error) => {
+        if (!(error instanceof PricingError)) console.error("ETH price error:", error);
+        return null;
+      }),
+      fetchedAt: Date.now(),
+    };
+  }
+  return ethPrice.price;
+}
+
+// Public checkout settings the client needs before it quotes anything.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const relayerAddress = getRelayerAddress();
+  return jsonResponse({
+    acceptedChainIds: ACCEPTED_CHAIN_IDS,
+    acceptedTokens: ACCEPTED_TOKENS,
+    limits: PAYMENT_LIMITS,
+    gaslessEnabled: relayerAddress !== null,
+    // Permit spender for authorize-now, capture-later payments
+    spenderAddress: relayerAddress,
+    // Permit spender for subscriptions; null when they are not enabled
+    subscriptionSpenderAddress: getSubscriptionSpenderAddress(),
+    // Billing periods a subscriber's permit should cover
+    subscriptionAllowancePeriods: SUBSCRIPTION_ALLOWANCE_PERIODS,
+    ethUsdPrice: await ethUsdPrice(),
+  });
+});
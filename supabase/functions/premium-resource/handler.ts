@@ -0,0 +1,163 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.5";
+import { getRequestUser } from "../_shared/auth.ts";
+import { findTokenByAddress } from "../_shared/chains.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  findActiveEntitlement,
+  grantEntitlement,
+  issueAccessToken,
+  verifyAccessToken,
+} from "../_shared/entitlements.ts";
+import {
+  claimIntent,
+  findOpenQuote,
+  IntentError,
+  loadIntent,
+  type PaymentIntent,
+  retargetIntent,
+  settleIntent,
+  submitIntent,
+} from "../_shared/intents.ts";
+import { provenPayer, requirePayer } from "../_shared/payers.ts";
+import {
+  ACCESS_TOKEN_HEADER,
+  decodePaymentProof,
+  paidResponse,
+  PAYMENT_HEADER,
+  paymentRequired,
+  QUOTE_REUSE_MIN_SECONDS,
+  quoteClientKey,
+  requirementsFromIntent,
+} from "../_shared/paywall.ts";
+import { createProductIntent, findProduct, productTokens } from "../_shared/products.ts";
+import { DEFAULT_RESOURCE_ID, getResource } from "../_shared/resources.ts";
+import { isTxHash } from "../_shared/verify.ts";
+
+// Resources protected by the 402 paywall, picked with `?id=` (the reference
+// resource when omitted) and priced by their catalog product. Served locally
+// with `supabase functions serve` it exercises the whole pay-and-retry loop.
+export async function handleResourceRequest(supabase: SupabaseClient, req: Request) {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const resource = getResource(new URL(req.url).searchParams.get("id") ?? DEFAULT_RESOURCE_ID);
+    const product = resource ? await findProduct(supabase, resource.id) : null;
+    if (!resource || !product) {
+      return jsonResponse({ error: "Resource not found" }, 404);
+    }
+
+    const user = await getRequestUser(supabase, req);
+    const requirements = (intent: PaymentIntent) =>
+      requirementsFromIntent(intent, req.url, product.description, productTokens(product));
+
+    // A client asking again before paying gets the quote it was given
+    const clientKey = quoteClientKey(req, user?.id ?? null);
+    const quote = async (error?: string, details?: Record<string, unknown>) => {
+      try {
+        const intent = (clientKey && await findOpenQuote(supabase, resource.id, clientKey, QUOTE_REUSE_MIN_SECONDS)) ||
+          await createProductIntent(supabase, product, undefined, {
+            resource: resource.id,
+            userId: user?.id ?? null,
+            details: { client_key: clientKey },
+          });
+        return paymentRequired(await requirements(intent), error, details);
+      } catch (quoteError) {
+        // Nothing can be quoted right now, e.g. without exchange rates
+        if (!(quoteError instanceof IntentError)) throw quoteError;
+        return jsonResponse({ error: quoteError.message }, quoteError.status);
+      }
+    };
+
+    try {
+      // Paid before: an unexpired access token is all it takes
+      if (await verifyAccessToken(req.headers.get(ACCESS_TOKEN_HEADER), resource.id)) {
+        return jsonResponse({ content: resource.content });
+      }
+
+      // Signed-in payers get a fresh token for as long as their entitlement lasts
+      const entitlement = user ? await findActiveEntitlement(supabase, resource.id, user.id) : null;
+      if (entitlement) {
+        return jsonResponse({ content: resource.content, access: await issueAccessToken(entitlement) });
+      }
+
+      const proof = decodePaymentProof(req.headers.get(PAYMENT_HEADER));
+      if (!proof || !isTxHash(proof.txHash)) {
+        return await quote();
+      }
+
+      let intent = await loadIntent(supabase, proof.nonce);
+      if (intent.resource !== resource.id) {
+        return await quote("Payment is not for this resource");
+      }
+      // A proof unlocks the resource once, for the request that confirms its
+      // payment. Payers come back with the access token they got then, or get
+      // a new one from their session or verify-payment.
+      if (intent.status === "confirmed") {
+        return await quote("Payment was already redeemed", { code: "payment_redeemed" });
+      }
+
+      // Anyone can see the transaction; only its payer may present it, or the
+      // signed-in user the intent belongs to, whichever wallet paid it (e.g.
+      // from a phone that scanned its QR code)
+      const owner = user !== null && intent.user_id === user.id;
+      const payer = owner
+        ? await provenPayer(supabase, intent.id, null, proof.payerSignature)
+        : await requirePayer(supabase, intent.id, user, proof.payerSignature);
+      if (intent.status === "created") {
+        const chainId = proof.chainId ?? intent.chain_id;
+        const paidToken = proof.asset ? findTokenByAddress(chainId, proof.asset) : undefined;
+        intent = await retargetIntent(supabase, intent, chainId, paidToken?.symbol);
+        intent = await claimIntent(supabase, intent, user?.id ?? null);
+        intent = await submitIntent(supabase, intent, proof.txHash, payer);
+      } else if (![intent.tx_hash, intent.replaced_tx_hash].includes(proof.txHash.toLowerCase())) {
+        return await quote("Payment proof does not match the payment");
+      } else if (!owner && intent.payer_address && intent.payer_address !== payer) {
+        return await quote("Payment proof is not signed by the payer");
+      }
+
+      const { intent: settled, payment, reason, pending, confirmations, requiredConfirmations, confirmedNow } =
+        await settleIntent(supabase, intent);
+      if (!payment) {
+        // Still pending on-chain: keep pointing the client at the same nonce
+        if (settled.status === "submitted") {
+          return paymentRequired(await requirements(settled), reason ?? undefined, {
+            pending,
+            confirmations,
+            requiredConfirmations,
+          });
+        }
+        return await quote(reason ?? undefined);
+      }
+      // Detected on-chain without a payer on record: settling names the sender
+      if (!owner && payment.payer_address !== payer) {
+        return await quote("Payment proof is not signed by the payer");
+      }
+      // Another request with the same proof confirmed it first
+      if (!confirmedNow) {
+        return await quote("Payment was already redeemed", { code: "payment_redeemed" });
+      }
+
+      const granted = await grantEntitlement(supabase, settled, payment);
+      return paidResponse(
+        { content: resource.content, access: await issueAccessToken(granted) },
+        {
+          id: payment.id,
+          tx_hash: payment.tx_hash,
+          payer_address: payment.payer_address,
+          amount: payment.amount,
+          chain_id: payment.chain_id,
+        }
+      );
+    } catch (error) {
+      if (error instanceof IntentError) {
+        return await quote(error.message);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("premium-resource error:", error);
+    return jsonResponse({ error: "Unable to serve resource" }, 500);
+  }
+}
@@ -0,0 +1,4 @@
+import { createServiceClient } from "../_shared/supabase.ts";
+import { handleResourceRequest } from "./handler.ts";
+
+Deno.serve((req) => handleResourceRequest(createServiceClient(), req));
@@ -0,0 +1,24 @@
+import { SIWE_DOMAINS } from "../_shared/config.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createNonce } from "../_shared/siwe.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Issues the single-use nonce a Sign-In With Ethereum message must carry.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Nothing to sign for until siwe-verify can check the message's domain
+  if (SIWE_DOMAINS.length === 0) {
+    return jsonResponse({ error: "Sign-in with Ethereum is not enabled" }, 503);
+  }
+
+  try {
+    const nonce = await createNonce(createServiceClient());
+    return jsonResponse({ nonce });
+  } catch (error) {
+    console.error("siwe-nonce error:", error);
+    return jsonResponse({ error: "Unable to start sign-in" }, 500);
+  }
+});
@@ -0,0 +1,39 @@
+import { signInWallet } from "../_shared/auth.ts";
+import { SIWE_DOMAINS } from "../_shared/config.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { consumeNonce, SiweError, verifySiweMessage } from "../_shared/siwe.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Verifies a signed Sign-In With Ethereum message and answers with a
+// Supabase session for the wallet that signed it.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Messages are only accepted for the configured domains, so a signature
+  // phished on another site can't be used here
+  if (SIWE_DOMAINS.length === 0) {
+    return jsonResponse({ error: "Sign-in with Ethereum is not enabled" }, 503);
+  }
+
+  try {
+    const { message, signature } = await req.json();
+    if (typeof message !== "string" || typeof signature !== "string") {
+      throw new SiweError("Missing sign-in message or signature", 400);
+    }
+
+    const supabase = createServiceClient();
+    const siwe = await verifySiweMessage(message, signature, SIWE_DOMAINS);
+    await consumeNonce(supabase, siwe.nonce);
+
+    const session = await signInWallet(supabase, siwe.address);
+    return jsonResponse({ address: siwe.address.toLowerCase(), session });
+  } catch (error) {
+    if (error instanceof SiweError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("siwe-verify error:", error);
+    return jsonResponse({ error: "Unable to sign in" }, 500);
+  }
+});
@@ -0,0 +1,39 @@
+import { getRequestUser } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { claimIntent, IntentError, loadIntent, retargetIntent, submitIntent } from "../_shared/intents.ts";
+import { requirePayer } from "../_shared/payers.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+import { isTxHash } from "../_shared/verify.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { intentId, txHash, chainId, token, payerSignature } = await req.json();
+
+    if (!isTxHash(txHash)) {
+      return jsonResponse({ error: "Invalid transaction hash" }, 400);
+    }
+
+    const supabase = createServiceClient();
+    const user = await getRequestUser(supabase, req);
+    let intent = await loadIntent(supabase, intentId);
+    // Only the wallet sending the transaction may submit it (see payers.ts)
+    const payer = await requirePayer(supabase, intent.id, user, payerSignature);
+    if (intent.status === "created") {
+      intent = await retargetIntent(supabase, intent, chainId, token);
+      intent = await claimIntent(supabase, intent, user?.id ?? null);
+    }
+    intent = await submitIntent(supabase, intent, txHash, payer);
+
+    return jsonResponse({ intent });
+  } catch (error) {
+    if (error instanceof IntentError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("submit-payment-intent error:", error);
+    return jsonResponse({ error: "Unable to submit payment" }, 500);
+  }
+});
@@ -0,0 +1,122 @@
+import { ethers } from "npm:ethers@6.15.0";
+import { getRequestUser } from "../_shared/auth.ts";
+import { getTokenDecimals } from "../_shared/chains.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { isPermit } from "../_shared/eip2612.ts";
+import { IntentError } from "../_shared/intents.ts";
+import { userWallet } from "../_shared/payers.ts";
+import { getSubscriptionSpenderAddress } from "../_shared/relayer.ts";
+import {
+  chargeSubscription,
+  loadPlan,
+  planToken,
+  submitSubscriptionPermit,
+  type Subscription,
+  updateSubscription,
+} from "../_shared/subscriptions.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Starts a subscription for the signed-in wallet user, or renews the
+// allowance of the one they have: submits their permit and charges the first
+// period right away when nothing is paid up.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const reject = (code: string, error: string, status = 400) =>
+    jsonResponse({ error, code }, status);
+
+  try {
+    const spender = getSubscriptionSpenderAddress();
+    if (!spender) {
+      return reject("subscriptions_unavailable", "Subscriptions are not enabled", 503);
+    }
+
+    const supabase = createServiceClient();
+    const user = await getRequestUser(supabase, req);
+    if (!user) {
+      return reject("sign_in_required", "Sign in with your wallet to subscribe", 401);
+    }
+
+    const { planId, chainId, permit, signature } = await req.json();
+    if (!isPermit(permit) || typeof signature !== "string") {
+      return reject("invalid_permit", "Invalid permit");
+    }
+    // Charges come out of the wallet the subscriber signed in with, as
+    // recorded at sign-in; user metadata is theirs to edit
+    const subscriber = permit.owner.toLowerCase();
+    if ((await userWallet(supabase, user.id)) !== subscriber) {
+      return reject("wallet_mismatch", "Permit must be signed by the wallet you signed in with", 403);
+    }
+
+    const plan = await loadPlan(supabase, planId);
+    const token = planToken(plan, chainId);
+    const permitTxHash = await submitSubscriptionPermit(plan, chainId, permit, signature, spender);
+    const allowance = ethers.formatUnits(permit.value, await getTokenDecimals(chainId, token));
+
+    const { data: existing, error: findError } = await supabase
+      .from("subscriptions")
+      .select("*")
+      .eq("user_id", user.id)
+      .eq("plan_id", plan.id)
+      .in("status", ["active", "past_due"])
+      .maybeSingle();
+    if (findError) throw findError;
+
+    const billing = {
+      subscriber_address: subscriber,
+      chain_id: chainId,
+      token_address: token.address.toLowerCase(),
+      spender_address: spender.toLowerCase(),
+      allowance_amount: allowance,
+      permit_tx_hash: permitTxHash,
+    };
+
+    let subscription: Subscription;
+    if (existing) {
+      subscription = await updateSubscription(supabase, existing.id, {
+        ...billing,
+        cancel_at_period_end: false,
+        canceled_at: null,
+      });
+      // Renewing a lapsed subscription pays for a period starting now
+      if (subscription.status === "past_due") {
+        subscription = await chargeSubscription(supabase, subscription, plan);
+      }
+    } else {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from("subscriptions")
+        .insert({
+          ...billing,
+          plan_id: plan.id,
+          user_id: user.id,
+          current_period_start: now,
+          current_period_end: now,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      subscription = await chargeSubscription(supabase, data as Subscription, plan);
+      // Nothing was ever paid, so there's no grace period to retry in
+      if (subscription.status !== "active") {
+        const reason = subscription.failure_reason;
+        await updateSubscription(supabase, subscription.id, { status: "expired" });
+        return reject("charge_failed", reason ?? "The first charge failed", 402);
+      }
+    }
+
+    if (subscription.status !== "active") {
+      return reject("charge_failed", subscription.failure_reason ?? "The renewal charge failed", 402);
+    }
+    return jsonResponse({ subscription });
+  } catch (error) {
+    if (error instanceof IntentError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("subscribe error:", error);
+    return jsonResponse({ error: "Unable to subscribe" }, 500);
+  }
+});
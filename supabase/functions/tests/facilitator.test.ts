@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { ethers } from "npm:ethers@6.15.0";
+import { FakeChain, TOKEN_NAME, TOKEN_VERSION } from "./fake-chain.ts";
+import { createFakeSupabase } from "./fake-supabase.ts";
+
+// Gasless payments through the facilitator: which authorizations it relays,
+// and that a relayed one settles its intent like any other transfer.
+
+const USDC = "0x036cbd53842c5426634e7929541ec2318f3dcf7e";
+const chain = new FakeChain();
+Deno.env.set("ACCEPTED_CHAIN_IDS", String(chain.chainId));
+Deno.env.set("ACCEPTED_TOKENS", "USDC");
+Deno.env.set("RPC_URL_31337", chain.url);
+Deno.env.set("LOCAL_USDC_ADDRESS", USDC);
+Deno.env.set("CHAIN_CONFIRMATIONS", `${chain.chainId}:1`);
+Deno.env.set("RELAYER_PRIVATE_KEY", ethers.Wallet.createRandom().privateKey);
+
+const { handleFacilitatorRequest } = await import("../facilitator/handler.ts");
+const { TRANSFER_WITH_AUTHORIZATION_TYPES } = await import("../_shared/eip3009.ts");
+const { createIntent, loadIntent, settleIntent } = await import("../_shared/intents.ts");
+type PaymentIntent = import("../_shared/intents.ts").PaymentIntent;
+
+const DOMAIN = { name: TOKEN_NAME, version: TOKEN_VERSION, chainId: chain.chainId, verifyingContract: USDC };
+
+async function setup() {
+  const supabase = createFakeSupabase();
+  const payer = ethers.Wallet.createRandom();
+  chain.fund(USDC, payer.address, ethers.parseUnits("10", 6));
+  const intent = await createIntent(supabase.client, 5, { chainId: chain.chainId, token: "USDC" });
+
+  const relay = async (body: Record<string, unknown>) => {
+    const response = await handleFacilitatorRequest(
+      supabase.client,
+      new Request("http://localhost/facilitator", { method: "POST", body: JSON.stringify(body) })
+    );
+    return { status: response.status, body: await response.json() };
+  };
+  return { supabase, payer, intent, relay };
+}
+
+// What checkout sends for `intent`, signed by `signer` (the payer by default)
+async function authorize(
+  payer: ethers.Signer,
+  intent: PaymentIntent,
+  changes: Record<string, string> = {},
+  signer = payer
+) {
+  const now = Math.floor(Date.now() / 1000);
+  const authorization = {
+    from: await payer.getAddress(),
+    to: intent.recipient_address,
+    value: ethers.parseUnits(String(intent.amount), 6).toString(),
+    validAfter: String(now - 60),
+    validBefore: String(now + 60 * 60),
+    nonce: ethers.hexlify(ethers.randomBytes(32)),
+    ...changes,
+  };
+  const signature = await signer.signTypedData(DOMAIN, TRANSFER_WITH_AUTHORIZATION_TYPES, authorization);
+  return { intentId: intent.id, chainId: chain.chainId, token: "USDC", authorization, signature };
+}
+
+Deno.test("facilitator relays a signed authorization, which then settles the intent", async () => {
+  const { supabase, payer, intent, relay } = await setup();
+
+  const relayed = await relay(await authorize(payer, intent));
+  assert.equal(relayed.status, 200);
+  assert.equal(relayed.body.intent.status, "submitted");
+  assert.equal(relayed.body.intent.payer_address, payer.address.toLowerCase());
+  assert.equal(relayed.body.intent.tx_hash, relayed.body.txHash.toLowerCase());
+
+  chain.mine();
+  const { intent: settled, payment } = await settleIntent(supabase.client, await loadIntent(supabase.client, intent.id));
+  assert.equal(settled.status, "confirmed");
+  assert.equal(payment?.payer_address, payer.address.toLowerCase());
+  assert.equal(payment?.tx_hash, relayed.body.txHash.toLowerCase());
+});
+
+Deno.test("facilitator refuses authorizations that don't pay the intent", async () => {
+  const { supabase, payer, intent, relay } = await setup();
+  const refused = async (body: Record<string, unknown>) => (await relay(body)).body.code;
+
+  const malformed = { ...(await authorize(payer, intent)), authorization: { from: payer.address } };
+  assert.equal(await refused(malformed), "invalid_authorization");
+  assert.equal(
+    await refused(await authorize(payer, intent, { to: ethers.Wallet.createRandom().address })),
+    "invalid_authorization"
+  );
+  assert.equal(await refused(await authorize(payer, intent, { value: "4999999" })), "invalid_authorization");
+
+  const now = Math.floor(Date.now() / 1000);
+  assert.equal(
+    await refused(await authorize(payer, intent, { validAfter: String(now + 600) })),
+    "authorization_not_yet_valid"
+  );
+  assert.equal(
+    await refused(await authorize(payer, intent, { validBefore: String(now + 10) })),
+    "authorization_expired"
+  );
+
+  assert.equal(await refused(await authorize(payer, intent, {}, ethers.Wallet.createRandom())), "invalid_signature");
+
+  assert.equal((await loadIntent(supabase.client, intent.id)).status, "created");
+});
+
+Deno.test("facilitator refuses payers without the balance", async () => {
+  const { intent, relay } = await setup();
+
+  const relayed = await relay(await authorize(ethers.Wallet.createRandom(), intent));
+  assert.equal(relayed.status, 400);
+  assert.equal(relayed.body.code, "insufficient_balance");
+});
+
+Deno.test("facilitator relays an authorization once", async () => {
+  const { supabase, payer, intent, relay } = await setup();
+  const signed = await authorize(payer, intent);
+  assert.equal((await relay(signed)).status, 200);
+
+  const again = await relay(signed);
+  assert.equal(again.status, 409);
+  assert.equal(again.body.code, "intent_unavailable");
+
+  const other = await createIntent(supabase.client, 5, { chainId: chain.chainId, token: "USDC" });
+  const replayed = await relay({ ...signed, intentId: other.id });
+  assert.equal(replayed.status, 409);
+  assert.equal(replayed.body.code, "authorization_used");
+});
+
+Deno.test("facilitator sends one payment for an intent relayed twice at once", async () => {
+  const { supabase, payer, intent, relay } = await setup();
+
+  const relayed = await Promise.all([relay(await authorize(payer, intent)), relay(await authorize(payer, intent))]);
+  assert.deepEqual(relayed.map((response) => response.status).sort(), [200, 409]);
+  chain.mine();
+
+  const usdc = new ethers.Contract(
+    USDC,
+    ["function balanceOf(address) view returns (uint256)"],
+    new ethers.JsonRpcProvider(chain.url)
+  );
+  assert.equal(await usdc.balanceOf(payer.address), ethers.parseUnits("5", 6));
+  const [sent] = relayed.filter((response) => response.status === 200);
+  assert.equal((await loadIntent(supabase.client, intent.id)).tx_hash, sent.body.txHash.toLowerCase());
+});
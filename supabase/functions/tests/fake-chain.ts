@@ -0,0 +1,399 @@
+import { ethers } from "npm:ethers@6.15.0";
+
+// Stand-in for the local dev chain (RPC_URL_31337): a JSON-RPC server that
+// answers the calls the payment functions make, over blocks a test mines,
+// and reorgs, by hand. Token contracts answer the views the functions read
+// and run transferWithAuthorization and transferFrom; nothing else is
+// executed, and balances and allowances are only what a test sets.
+
+const TOKEN = new ethers.Interface([
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function authorizationState(address authorizer, bytes32 nonce) view returns (bool)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function transfer(address to, uint256 value)",
+  "function transferFrom(address from, address to, uint256 value) returns (bool)",
+  "function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+// EIP-712 domain of every token on the chain
+export const TOKEN_NAME = "USD Coin";
+export const TOKEN_VERSION = "2";
+
+interface FakeTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  value: bigint;
+  data: string;
+  nonce: number;
+  // Set for token transfers
+  log?: { address: string; topics: string[]; data: string };
+}
+
+interface FakeBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  transactions: FakeTransaction[];
+}
+
+interface LogFilter {
+  fromBlock?: string;
+  toBlock?: string;
+  address?: string | string[];
+  topics?: (string | string[] | null)[];
+}
+
+export interface Transfer {
+  from: string;
+  to: string;
+  value: bigint;
+  // Token contract; native ETH when omitted
+  token?: string;
+}
+
+const hex = (value: bigint | number) => ethers.toQuantity(value);
+
+function transferLog(token: string, from: string, to: string, value: bigint) {
+  return { address: ethers.getAddress(token), ...TOKEN.encodeEventLog("Transfer", [from, to, value]) };
+}
+
+export class FakeChain {
+  readonly blocks: FakeBlock[];
+  private pending: FakeTransaction[] = [];
+  private nonces = new Map<string, number>();
+  // By "token:holder", "token:owner:spender" and "token:authorizer:nonce",
+  // lowercased
+  private balances = new Map<string, bigint>();
+  private allowances = new Map<string, bigint>();
+  private usedAuthorizations = new Set<string>();
+  // Blocks the node answering is behind the chain, as one behind a load
+  // balancer can be; it knows nothing mined since
+  lag = 0;
+  // Mines every signed transaction as it is broadcast, for functions that
+  // wait for their own transactions
+  automine = false;
+  private server: Deno.HttpServer<Deno.NetAddr>;
+
+  constructor(readonly chainId = 31337, private decimals = 6) {
+    this.blocks = [{
+      number: 0,
+      hash: ethers.hexlify(ethers.randomBytes(32)),
+      parentHash: ethers.ZeroHash,
+      timestamp: Math.floor(Date.now() / 1000),
+      transactions: [],
+    }];
+    this.server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen: () => {} }, (req) => this.handle(req));
+  }
+
+  get url() {
+    return `http://127.0.0.1:${this.server.addr.port}`;
+  }
+
+  get head() {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  private get synced() {
+    return this.blocks.slice(0, this.blocks.length - this.lag);
+  }
+
+  private get syncedHead() {
+    return this.synced[this.synced.length - 1];
+  }
+
+  close() {
+    return this.server.shutdown();
+  }
+
+  // Broadcasts a transfer, mined with the next block; returns its hash
+  send({ from, to, value, token }: Transfer) {
+    const sender = ethers.getAddress(from);
+    const nonce = this.nonces.get(sender) ?? 0;
+    this.nonces.set(sender, nonce + 1);
+
+    const tx: FakeTransaction = token
+      ? {
+        hash: ethers.hexlify(ethers.randomBytes(32)),
+        from: sender,
+        to: ethers.getAddress(token),
+        value: 0n,
+        data: TOKEN.encodeFunctionData("transfer", [to, value]),
+        nonce,
+        log: transferLog(token, sender, to, value),
+      }
+      : { hash: ethers.hexlify(ethers.randomBytes(32)), from: sender, to: ethers.getAddress(to), value, data: "0x", nonce };
+    this.pending.push(tx);
+    return tx.hash;
+  }
+
+  // Gives `holder` a token balance for balanceOf to answer
+  fund(token: string, holder: string, value: bigint) {
+    this.balances.set(`${token}:${holder}`.toLowerCase(), value);
+  }
+
+  private balanceOf(token: string, holder: string) {
+    return this.balances.get(`${token}:${holder}`.toLowerCase()) ?? 0n;
+  }
+
+  // Lets `spender` move `value` of the holder's token, as a permit would
+  approve(token: string, owner: string, spender: string, value: bigint) {
+    this.allowances.set(`${token}:${owner}:${spender}`.toLowerCase(), value);
+  }
+
+  private allowance(token: string, owner: string, spender: string) {
+    return this.allowances.get(`${token}:${owner}:${spender}`.toLowerCase()) ?? 0n;
+  }
+
+  private move(token: string, from: string, to: string, value: bigint) {
+    if (this.balanceOf(token, from) < value) throw new Error("ERC20: transfer amount exceeds balance");
+    this.fund(token, from, this.balanceOf(token, from) - value);
+    this.fund(token, to, this.balanceOf(token, to) + value);
+    return transferLog(token, from, to, value);
+  }
+
+  // A signed transaction, e.g. the relayer's; only token transfers by
+  // authorization or allowance do anything
+  private broadcast(raw: string) {
+    const signed = ethers.Transaction.from(raw);
+    const tx: FakeTransaction = {
+      hash: signed.hash!,
+      from: signed.from!,
+      to: signed.to!,
+      value: signed.value,
+      data: signed.data,
+      nonce: signed.nonce,
+    };
+
+    const call = TOKEN.parseTransaction({ data: signed.data });
+    if (call?.name === "transferWithAuthorization") {
+      const [from, to, value, , , nonce] = call.args as unknown as [string, string, bigint, bigint, bigint, string];
+      const authorization = `${signed.to}:${from}:${nonce}`.toLowerCase();
+      if (this.usedAuthorizations.has(authorization)) throw new Error("FiatTokenV2: authorization is used or canceled");
+
+      tx.log = this.move(signed.to!, from, to, value);
+      this.usedAuthorizations.add(authorization);
+    } else if (call?.name === "transferFrom") {
+      const [from, to, value] = call.args as unknown as [string, string, bigint];
+      const allowance = this.allowance(signed.to!, from, signed.from!);
+      if (allowance < value) throw new Error("ERC20: insufficient allowance");
+
+      tx.log = this.move(signed.to!, from, to, value);
+      this.approve(signed.to!, from, signed.from!, allowance - value);
+    }
+
+    this.pending.push(tx);
+    if (this.automine) this.mine();
+    return tx.hash;
+  }
+
+  private tokenCall(token: string, data: string) {
+    const call = TOKEN.parseTransaction({ data });
+    switch (call?.name) {
+      case "name":
+        return TOKEN.encodeFunctionResult("name", [TOKEN_NAME]);
+      case "version":
+        return TOKEN.encodeFunctionResult("version", [TOKEN_VERSION]);
+      case "decimals":
+        return TOKEN.encodeFunctionResult("decimals", [this.decimals]);
+      case "balanceOf":
+        return TOKEN.encodeFunctionResult("balanceOf", [this.balanceOf(token, call.args[0])]);
+      case "allowance":
+        return TOKEN.encodeFunctionResult("allowance", [this.allowance(token, call.args[0], call.args[1])]);
+      case "authorizationState": {
+        const used = this.usedAuthorizations.has(`${token}:${call.args[0]}:${call.args[1]}`.toLowerCase());
+        return TOKEN.encodeFunctionResult("authorizationState", [used]);
+      }
+      default:
+        throw new Error(`Unsupported call ${data}`);
+    }
+  }
+
+  mine(count = 1) {
+    for (let i = 0; i < count; i++) {
+      this.blocks.push({
+        number: this.head.number + 1,
+        hash: ethers.hexlify(ethers.randomBytes(32)),
+        parentHash: this.head.hash,
+        timestamp: this.head.timestamp + 2,
+        transactions: this.pending,
+      });
+      this.pending = [];
+    }
+  }
+
+  // Drops the last `depth` blocks. Their transactions go back to the pool, to
+  // be mined again in other blocks, unless `drop` forgets them.
+  reorg(depth: number, { drop = false } = {}) {
+    const removed = this.blocks.splice(this.blocks.length - depth, depth);
+    if (!drop) this.pending = [...removed.flatMap((block) => block.transactions), ...this.pending];
+  }
+
+  private find(hash: string) {
+    const wanted = hash.toLowerCase();
+    for (const block of this.synced) {
+      const index = block.transactions.findIndex((tx) => tx.hash === wanted);
+      if (index >= 0) return { tx: block.transactions[index], block, index };
+    }
+    const tx = this.pending.find((candidate) => candidate.hash === wanted);
+    return tx ? { tx, block: null, index: null } : null;
+  }
+
+  private blockAt(tag: string) {
+    if (tag === "latest" || tag === "safe" || tag === "finalized" || tag === "pending") return this.syncedHead;
+    return this.synced[Number(tag)] ?? null;
+  }
+
+  private formatLog(tx: FakeTransaction, block: FakeBlock, index: number) {
+    return {
+      ...tx.log!,
+      blockNumber: hex(block.number),
+      blockHash: block.hash,
+      transactionHash: tx.hash,
+      transactionIndex: hex(index),
+      logIndex: hex(index),
+      removed: false,
+    };
+  }
+
+  private formatTransaction(tx: FakeTransaction, block: FakeBlock | null, index: number | null) {
+    return {
+      hash: tx.hash,
+      type: "0x2",
+      from: tx.from,
+      to: tx.to,
+      nonce: hex(tx.nonce),
+      gas: hex(100000),
+      gasPrice: hex(1000000000),
+      maxFeePerGas: hex(2000000000),
+      maxPriorityFeePerGas: hex(1000000000),
+      value: hex(tx.value),
+      input: tx.data,
+      chainId: hex(this.chainId),
+      accessList: [],
+      v: "0x0",
+      yParity: "0x0",
+      r: ethers.id("r"),
+      s: ethers.toBeHex(1n, 32),
+      blockHash: block?.hash ?? null,
+      blockNumber: block ? hex(block.number) : null,
+      transactionIndex: index === null ? null : hex(index),
+    };
+  }
+
+  private formatBlock(block: FakeBlock, full: boolean) {
+    return {
+      number: hex(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: hex(block.timestamp),
+      nonce: "0x0000000000000000",
+      difficulty: "0x0",
+      gasLimit: hex(30000000),
+      gasUsed: hex(21000 * block.transactions.length),
+      miner: ethers.ZeroAddress,
+      extraData: "0x",
+      baseFeePerGas: hex(1000000000),
+      transactions: block.transactions.map((tx, index) => full ? this.formatTransaction(tx, block, index) : tx.hash),
+    };
+  }
+
+  private call(method: string, params: unknown[]) {
+    switch (method) {
+      case "eth_chainId":
+        return hex(this.chainId);
+      case "eth_blockNumber":
+        return hex(this.syncedHead.number);
+      case "eth_getBlockByNumber": {
+        const [tag, full] = params as [string, boolean];
+        const block = this.blockAt(tag);
+        return block ? this.formatBlock(block, full) : null;
+      }
+      case "eth_getBlockByHash": {
+        const [hash, full] = params as [string, boolean];
+        const block = this.synced.find((candidate) => candidate.hash === hash);
+        return block ? this.formatBlock(block, full) : null;
+      }
+      case "eth_getTransactionByHash": {
+        const found = this.find(params[0] as string);
+        return found ? this.formatTransaction(found.tx, found.block, found.index) : null;
+      }
+      case "eth_getTransactionReceipt": {
+        const found = this.find(params[0] as string);
+        if (!found?.block) return null;
+        const { tx, block, index } = found;
+        return {
+          transactionHash: tx.hash,
+          transactionIndex: hex(index!),
+          blockHash: block.hash,
+          blockNumber: hex(block.number),
+          from: tx.from,
+          to: tx.to,
+          contractAddress: null,
+          cumulativeGasUsed: hex(21000),
+          gasUsed: hex(21000),
+          effectiveGasPrice: hex(1000000000),
+          logs: tx.log ? [this.formatLog(tx, block, index!)] : [],
+          logsBloom: ethers.zeroPadValue("0x", 256),
+          status: "0x1",
+          type: "0x2",
+        };
+      }
+      case "eth_getTransactionCount": {
+        const [address, tag] = params as [string, string];
+        const last = this.blockAt(tag)?.number ?? this.syncedHead.number;
+        const sent = [
+          ...this.synced.slice(0, last + 1).flatMap((block) => block.transactions),
+          ...(tag === "pending" ? this.pending : []),
+        ].filter((tx) => tx.from.toLowerCase() === address.toLowerCase());
+        return hex(sent.length);
+      }
+      case "eth_getLogs": {
+        const [{ fromBlock = "latest", toBlock = "latest", address, topics = [] }] = params as [LogFilter];
+        const addresses = [address ?? []].flat().map((entry) => entry.toLowerCase());
+        const from = this.blockAt(fromBlock)?.number ?? Number(fromBlock);
+        const to = this.blockAt(toBlock)?.number ?? this.syncedHead.number;
+        return this.synced.slice(from, to + 1).flatMap((block) =>
+          block.transactions
+            .map((tx, index) => ({ tx, index }))
+            .filter(({ tx }) => tx.log &&
+              (addresses.length === 0 || addresses.includes(tx.log.address.toLowerCase())) &&
+              topics.every((topic, position) =>
+                topic === null || [topic].flat().some((entry) => entry.toLowerCase() === tx.log!.topics[position])
+              ))
+            .map(({ tx, index }) => this.formatLog(tx, block, index))
+        );
+      }
+      case "eth_call": {
+        const [{ to, data = "0x" }] = params as [{ to: string; data?: string }];
+        return this.tokenCall(to, data);
+      }
+      case "eth_estimateGas":
+        return hex(100000);
+      case "eth_gasPrice":
+        return hex(1000000000);
+      case "eth_maxPriorityFeePerGas":
+        return hex(1000000000);
+      case "eth_sendRawTransaction":
+        return this.broadcast(params[0] as string);
+      default:
+        throw new Error(`Unsupported method ${method}`);
+    }
+  }
+
+  private async handle(req: Request) {
+    const body = await req.json();
+    const answer = (request: { id: number; method: string; params?: unknown[] }) => {
+      try {
+        return { jsonrpc: "2.0", id: request.id, result: this.call(request.method, request.params ?? []) };
+      } catch (error) {
+        return { jsonrpc: "2.0", id: request.id, error: { code: -32000, message: (error as Error).message } };
+      }
+    };
+    return Response.json(Array.isArray(body) ? body.map(answer) : answer(body));
+  }
+}
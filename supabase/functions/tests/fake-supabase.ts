@@ -0,0 +1,359 @@
+import type { SupabaseClient, User } from "npm:@supabase/supabase-js@2.50.5";
+
+// In-memory stand-in for the service-role client: the query builder calls
+// the payment functions make, over tables kept as arrays of rows, and
+// auth.getUser() for the users a test signs in. Column defaults and unique
+// constraints follow the migrations as far as the functions rely on them.
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+
+const DEFAULTS: Record<string, Row> = {
+  entitlements: { expires_at: null, user_id: null },
+  incoming_transfers: { status: "pending", intent_id: null, payment_id: null },
+  payment_authorizations: { status: "authorized", captured_amount: 0, permit_tx_hash: null },
+  payment_intents: {
+    status: "created",
+    slippage_bps: 0,
+    claimed_at: null,
+    client_key: null,
+    exchange_rate: null,
+    failure_reason: null,
+    link_signature: null,
+    memo: null,
+    payer_address: null,
+    price_amount: null,
+    price_currency: null,
+    product_id: null,
+    replaced_tx_hash: null,
+    resource: null,
+    tx_hash: null,
+    tx_nonce: null,
+    user_id: null,
+    watch_from_block: null,
+  },
+  payments: { block_hash: null, intent_id: null, reverted_at: null },
+  products: {
+    description: "",
+    amount_step: 1,
+    presets: [],
+    active: true,
+    accepted_tokens: null,
+    max_amount: null,
+    min_amount: null,
+  },
+  subscription_charges: { failure_reason: null, payment_id: null, tx_hash: null },
+  subscriptions: { status: "active", cancel_at_period_end: false, canceled_at: null, failure_reason: null, permit_tx_hash: null },
+};
+
+// Primary key of tables not keyed by `id`; upserts conflict on it by default
+const PRIMARY_KEYS: Record<string, string[]> = {
+  transfer_index_cursors: ["chain_id"],
+};
+
+const UNIQUE: Record<string, string[][]> = {
+  entitlements: [["payment_id"]],
+  incoming_transfers: [["chain_id", "block_hash", "log_index"]],
+  payment_authorizations: [["intent_id"]],
+  payment_captures: [["tx_hash"]],
+  payment_intents: [["tx_hash"]],
+  payments: [["tx_hash"], ["intent_id"]],
+  wallet_accounts: [["address"], ["user_id"]],
+};
+
+// Column embedding `table` in selects like "*, table!inner(*)", by "from.to"
+const FOREIGN_KEYS: Record<string, string> = {
+  "incoming_transfers.payment_intents": "intent_id",
+  "payments.payment_intents": "intent_id",
+};
+
+function compare(a: unknown, b: unknown) {
+  if (typeof a === "number" || typeof b === "number") return Number(a) - Number(b);
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+// Comparisons filters make; like SQL, nothing but `is` matches a null
+const OPERATORS: Record<string, (field: unknown, value: unknown) => boolean> = {
+  eq: (field, value) => field != null && compare(field, value) === 0,
+  neq: (field, value) => field != null && compare(field, value) !== 0,
+  is: (field, value) => value === null ? field == null : field === value,
+  gt: (field, value) => field != null && compare(field, value) > 0,
+  gte: (field, value) => field != null && compare(field, value) >= 0,
+  lt: (field, value) => field != null && compare(field, value) < 0,
+  lte: (field, value) => field != null && compare(field, value) <= 0,
+};
+
+class Query implements PromiseLike<{ data: unknown; error: unknown }> {
+  private action: "select" | "insert" | "update" | "upsert" | "delete" = "select";
+  private returning = false;
+  private values: Row[] = [];
+  private changes: Row = {};
+  private conflict: string[] = [];
+  private ignoreDuplicates = false;
+  private filters: Filter[] = [];
+  private embeds: { table: string; inner: boolean }[] = [];
+  private sort: { column: string; ascending: boolean }[] = [];
+  private max = Infinity;
+  private cardinality: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(private db: FakeDatabase, private table: string) {}
+
+  select(columns = "*") {
+    if (this.action === "select") {
+      for (const [, table, inner] of columns.matchAll(/(\w+)(!inner)?\(\*\)/g)) {
+        this.embeds.push({ table, inner: Boolean(inner) });
+      }
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = "insert";
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(changes: Row) {
+    this.action = "update";
+    this.changes = changes;
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.action = "upsert";
+    this.values = Array.isArray(values) ? values : [values];
+    this.conflict = options.onConflict?.split(",").map((column) => column.trim()) ?? PRIMARY_KEYS[this.table] ?? ["id"];
+    this.ignoreDuplicates = options.ignoreDuplicates ?? false;
+    return this;
+  }
+
+  delete() {
+    this.action = "delete";
+    return this;
+  }
+
+  // Filters on an embedded table, e.g. "payment_intents.status", apply to it
+  private where(column: string, test: (field: unknown) => boolean) {
+    const [embed, field] = column.includes(".") ? column.split(".") : [null, column];
+    this.filters.push((row) => {
+      const target = embed ? row[embed] as Row | null : row;
+      return target != null && test(target[field]);
+    });
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where(column, (field) => OPERATORS.eq(field, value));
+  }
+
+  neq(column: string, value: unknown) {
+    return this.where(column, (field) => OPERATORS.neq(field, value));
+  }
+
+  is(column: string, value: unknown) {
+    return this.where(column, (field) => OPERATORS.is(field, value));
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    return this.where(column, (field) => !OPERATORS[operator](field, value));
+  }
+
+  gt(column: string, value: unknown) {
+    return this.where(column, (field) => OPERATORS.gt(field, value));
+  }
+
+  gte(column: string, value: unknown) {
+    return this.where(column, (field) => OPERATORS.gte(field, value));
+  }
+
+  lt(column: string, value: unknown) {
+    return this.where(column, (field) => OPERATORS.lt(field, value));
+  }
+
+  lte(column: string, value: unknown) {
+    return this.where(column, (field) => OPERATORS.lte(field, value));
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.where(column, (field) => values.some((value) => OPERATORS.eq(field, value)));
+  }
+
+  // PostgREST syntax, e.g. "expires_at.is.null,expires_at.gt.2026-01-01T00:00:00Z"
+  or(conditions: string) {
+    const tests = conditions.split(",").map((entry) => {
+      const [column, operator, ...rest] = entry.split(".");
+      const value = rest.join(".") === "null" ? null : rest.join(".");
+      return (row: Row) => OPERATORS[operator](row[column], value);
+    });
+    this.filters.push((row) => tests.some((test) => test(row)));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.sort.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) {
+    this.max = count;
+    return this;
+  }
+
+  single() {
+    this.cardinality = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = "maybeSingle";
+    return this;
+  }
+
+  then<T1 = { data: unknown; error: unknown }, T2 = never>(
+    onfulfilled?: ((value: { data: unknown; error: unknown }) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ) {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected);
+  }
+
+  private matching() {
+    return this.db.rows(this.table).filter((row) => this.filters.every((test) => test(this.embedded(row))));
+  }
+
+  private embedded(row: Row) {
+    if (this.embeds.length === 0) return row;
+
+    const joined = { ...row };
+    for (const { table } of this.embeds) {
+      const key = FOREIGN_KEYS[`${this.table}.${table}`];
+      if (!key) throw new Error(`No foreign key from ${this.table} to ${table}`);
+      joined[table] = this.db.rows(table).find((candidate) => candidate.id === row[key]) ?? null;
+    }
+    return joined;
+  }
+
+  private run() {
+    let result: Row[];
+    try {
+      result = this.execute();
+    } catch (error) {
+      return { data: null, error };
+    }
+
+    const rows = result.map((row) => structuredClone(row));
+    if (this.action !== "select" && !this.returning) return { data: null, error: null };
+    if (this.cardinality === "many") return { data: rows, error: null };
+    if (rows.length > 1 || (this.cardinality === "single" && rows.length === 0)) {
+      return { data: null, error: { code: "PGRST116", message: `Expected one row, got ${rows.length}` } };
+    }
+    return { data: rows[0] ?? null, error: null };
+  }
+
+  private execute(): Row[] {
+    switch (this.action) {
+      case "select": {
+        const rows = this.matching()
+          .map((row) => this.embedded(row))
+          .filter((row) => this.embeds.every(({ table, inner }) => !inner || row[table] !== null));
+        for (const { column, ascending } of [...this.sort].reverse()) {
+          rows.sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]));
+        }
+        return rows.slice(0, this.max);
+      }
+      case "insert":
+        return this.values.map((values) => this.db.insert(this.table, values));
+      case "update":
+        return this.matching().map((row) => this.db.update(this.table, row, this.changes));
+      case "upsert":
+        return this.values.flatMap((values) => {
+          const existing = this.db.rows(this.table).find((row) =>
+            this.conflict.every((column) => compare(row[column], values[column]) === 0)
+          );
+          if (!existing) return [this.db.insert(this.table, values)];
+          return this.ignoreDuplicates ? [] : [this.db.update(this.table, existing, values)];
+        });
+      case "delete": {
+        const rows = this.matching();
+        this.db.remove(this.table, rows);
+        return rows;
+      }
+    }
+  }
+}
+
+export class FakeDatabase {
+  readonly tables: Record<string, Row[]> = {};
+
+  rows(table: string) {
+    return this.tables[table] ??= [];
+  }
+
+  // `replacing` is the row an update turns into `row`
+  private checkUnique(table: string, row: Row, replacing?: Row) {
+    for (const columns of UNIQUE[table] ?? [PRIMARY_KEYS[table] ?? ["id"]]) {
+      if (columns.some((column) => row[column] == null)) continue;
+      const clash = this.rows(table).some((other) =>
+        other !== replacing && columns.every((column) => compare(other[column], row[column]) === 0)
+      );
+      if (clash) {
+        throw { code: "23505", message: `duplicate key value violates unique constraint on ${table} (${columns})` };
+      }
+    }
+  }
+
+  insert(table: string, values: Row) {
+    const now = new Date().toISOString();
+    const row = { id: crypto.randomUUID(), ...DEFAULTS[table], created_at: now, updated_at: now, ...values };
+    this.checkUnique(table, row);
+    this.rows(table).push(row);
+    return row;
+  }
+
+  update(table: string, row: Row, changes: Row) {
+    const updated = { ...row, ...changes, updated_at: new Date().toISOString() };
+    this.checkUnique(table, updated, row);
+    this.rows(table).splice(this.rows(table).indexOf(row), 1, updated);
+    return updated;
+  }
+
+  remove(table: string, rows: Row[]) {
+    this.tables[table] = this.rows(table).filter((row) => !rows.includes(row));
+  }
+}
+
+export interface FakeSupabase {
+  client: SupabaseClient;
+  db: FakeDatabase;
+  // Signs a user in; requests bearing the returned token act as them
+  signIn(user?: Partial<User>): { user: User; token: string };
+}
+
+export function createFakeSupabase(): FakeSupabase {
+  const db = new FakeDatabase();
+  const sessions = new Map<string, User>();
+
+  const client = {
+    from: (table: string) => new Query(db, table),
+    auth: {
+      getUser: async (token: string) => {
+        const user = sessions.get(token);
+        return user
+          ? { data: { user }, error: null }
+          : { data: { user: null }, error: { message: "Invalid token" } };
+      },
+    },
+  };
+
+  return {
+    client: client as unknown as SupabaseClient,
+    db,
+    signIn(user = {}) {
+      const signedIn = { id: crypto.randomUUID(), user_metadata: {}, ...user } as User;
+      const token = crypto.randomUUID();
+      sessions.set(token, signedIn);
+      return { user: signedIn, token };
+    },
+  };
+}
@@ -0,0 +1,246 @@
+import assert from "node:assert/strict";
+import { ethers } from "npm:ethers@6.15.0";
+import { FakeChain } from "./fake-chain.ts";
+import { createFakeSupabase, type FakeSupabase } from "./fake-supabase.ts";
+
+// The transfer watcher against a local chain: which quote a transfer to the
+// merchant settles, what it leaves for reconciliation, and reorgs, of
+// transfers that aren't final yet and of payments that already settled.
+
+const USDC = "0x036cbd53842c5426634e7929541ec2318f3dcf7e";
+const RECIPIENT = "0x75bb73a75eecc43ffeaa3b48733292437c405f25";
+const chain = new FakeChain();
+Deno.env.set("ACCEPTED_CHAIN_IDS", String(chain.chainId));
+Deno.env.set("ACCEPTED_TOKENS", "USDC");
+Deno.env.set("RPC_URL_31337", chain.url);
+Deno.env.set("LOCAL_USDC_ADDRESS", USDC);
+Deno.env.set("RECIPIENT_ADDRESS", RECIPIENT);
+Deno.env.set("CHAIN_CONFIRMATIONS", `${chain.chainId}:2`);
+Deno.env.set("INDEXER_CONFIRMATIONS", "2");
+
+const { indexTransfers } = await import("../_shared/indexer.ts");
+const { createIntent, loadIntent, settleIntent, submitIntent } = await import("../_shared/intents.ts");
+const { watchIntent } = await import("../_shared/detect.ts");
+
+// A quote opened after the current head, so transfers from earlier tests
+// (which each database indexes anew) were mined before it
+async function quote(supabase: FakeSupabase, amount: number) {
+  const intent = await createIntent(supabase.client, amount, { chainId: chain.chainId, token: "USDC" });
+  const row = supabase.db.rows("payment_intents").find((candidate) => candidate.id === intent.id)!;
+  supabase.db.update("payment_intents", row, { created_at: new Date((chain.head.timestamp + 1) * 1000).toISOString() });
+  return intent;
+}
+
+function pay(amount: string) {
+  return chain.send({
+    from: ethers.Wallet.createRandom().address,
+    to: RECIPIENT,
+    value: ethers.parseUnits(amount, 6),
+    token: USDC,
+  });
+}
+
+const transfers = (supabase: FakeSupabase, txHash: string) =>
+  supabase.db.rows("incoming_transfers").filter((transfer) => transfer.tx_hash === txHash.toLowerCase());
+
+Deno.test("indexer settles the quote for exactly the amount sent once the transfer is final", async () => {
+  const supabase = createFakeSupabase();
+  const intent = await quote(supabase, 5);
+  await quote(supabase, 6);
+
+  const txHash = pay("5");
+  chain.mine();
+  await indexTransfers(supabase.client);
+  assert.equal(transfers(supabase, txHash)[0].status, "pending");
+  assert.equal((await loadIntent(supabase.client, intent.id)).status, "created");
+
+  chain.mine();
+  const [result] = await indexTransfers(supabase.client);
+  assert.equal(result.matched, 1);
+  const [transfer] = transfers(supabase, txHash);
+  assert.equal(transfer.status, "confirmed");
+  assert.equal(transfer.intent_id, intent.id);
+  assert.ok(transfer.payment_id);
+
+  const settled = await loadIntent(supabase.client, intent.id);
+  assert.equal(settled.status, "confirmed");
+  assert.equal(settled.tx_hash, txHash.toLowerCase());
+  assert.equal(supabase.db.rows("payments")[0].id, transfer.payment_id);
+});
+
+Deno.test("indexer leaves over- and under-payments for reconciliation", async () => {
+  const supabase = createFakeSupabase();
+  const intent = await quote(supabase, 5);
+
+  const over = pay("5.01");
+  const under = pay("4.99");
+  chain.mine(2);
+  await indexTransfers(supabase.client);
+
+  for (const txHash of [over, under]) {
+    const [transfer] = transfers(supabase, txHash);
+    assert.equal(transfer.status, "confirmed");
+    assert.equal(transfer.intent_id, null);
+    assert.equal(transfer.payment_id, null);
+  }
+  assert.equal((await loadIntent(supabase.client, intent.id)).status, "created");
+  assert.deepEqual(supabase.db.rows("payments"), []);
+});
+
+Deno.test("indexer settles one of several quotes for the amount only when it alone is watched", async () => {
+  const supabase = createFakeSupabase();
+  const first = await quote(supabase, 7);
+  const second = await quote(supabase, 7);
+
+  const ambiguous = pay("7");
+  chain.mine(2);
+  await indexTransfers(supabase.client);
+  assert.equal(transfers(supabase, ambiguous)[0].intent_id, null);
+  assert.equal((await loadIntent(supabase.client, first.id)).status, "created");
+  assert.equal((await loadIntent(supabase.client, second.id)).status, "created");
+
+  await watchIntent(supabase.client, second);
+  const scanned = pay("7");
+  chain.mine(2);
+  await indexTransfers(supabase.client);
+  assert.equal(transfers(supabase, scanned)[0].intent_id, second.id);
+  assert.equal((await loadIntent(supabase.client, second.id)).status, "confirmed");
+  assert.equal((await loadIntent(supabase.client, first.id)).status, "created");
+});
+
+Deno.test("indexer drops a transfer reorged out before it is final and settles it where it is mined again", async () => {
+  const supabase = createFakeSupabase();
+  const intent = await quote(supabase, 8);
+
+  const txHash = pay("8");
+  chain.mine();
+  await indexTransfers(supabase.client);
+  const [orphaned] = transfers(supabase, txHash);
+  assert.equal(orphaned.status, "pending");
+
+  chain.reorg(1);
+  chain.mine();
+  const [reorgedRun] = await indexTransfers(supabase.client);
+  assert.equal(reorgedRun.reorged, 1);
+  assert.equal((await loadIntent(supabase.client, intent.id)).status, "created");
+
+  chain.mine();
+  await indexTransfers(supabase.client);
+  const [reorged, remined] = transfers(supabase, txHash);
+  assert.equal(reorged.block_hash, orphaned.block_hash);
+  assert.equal(reorged.status, "reorged");
+  assert.equal(reorged.intent_id, null);
+  assert.equal(remined.block_hash, chain.blocks[Number(orphaned.block_number)].hash.toLowerCase());
+  assert.equal(remined.status, "confirmed");
+  assert.equal(remined.intent_id, intent.id);
+
+  const settled = await loadIntent(supabase.client, intent.id);
+  assert.equal(settled.status, "confirmed");
+  assert.equal(supabase.db.rows("payments")[0].block_hash, remined.block_hash);
+});
+
+Deno.test("indexer reverts a settled payment reorged out and confirms it again where it is mined anew", async () => {
+  const supabase = createFakeSupabase();
+  const intent = await quote(supabase, 9);
+
+  const txHash = pay("9");
+  chain.mine(2);
+  await indexTransfers(supabase.client);
+  const [paid] = supabase.db.rows("payments");
+  assert.equal((await loadIntent(supabase.client, intent.id)).status, "confirmed");
+
+  chain.reorg(2);
+  chain.mine();
+  const [revertedRun] = await indexTransfers(supabase.client);
+  assert.equal(revertedRun.reverted, 1);
+  assert.equal((await loadIntent(supabase.client, intent.id)).status, "submitted");
+  assert.ok(supabase.db.rows("payments")[0].reverted_at);
+  assert.equal(transfers(supabase, txHash)[0].status, "reorged");
+
+  chain.mine();
+  await indexTransfers(supabase.client);
+  const [, remined] = transfers(supabase, txHash);
+  assert.equal(remined.status, "confirmed");
+  assert.equal(remined.payment_id, paid.id);
+  assert.equal((await loadIntent(supabase.client, intent.id)).status, "confirmed");
+
+  const [payment] = supabase.db.rows("payments");
+  assert.equal(payment.id, paid.id);
+  assert.equal(payment.reverted_at, null);
+  assert.equal(payment.block_hash, remined.block_hash);
+});
+
+Deno.test("indexer keeps a settled payment that a lagging node doesn't know yet", async () => {
+  const supabase = createFakeSupabase();
+  const intent = await quote(supabase, 10);
+
+  pay("10");
+  chain.mine(2);
+  await indexTransfers(supabase.client);
+  assert.equal((await loadIntent(supabase.client, intent.id)).status, "confirmed");
+
+  chain.lag = 2;
+  try {
+    const [run] = await indexTransfers(supabase.client);
+    assert.equal(run.reverted, 0);
+  } finally {
+    chain.lag = 0;
+  }
+  assert.equal((await loadIntent(supabase.client, intent.id)).status, "confirmed");
+  assert.equal(supabase.db.rows("payments")[0].reverted_at, null);
+});
+
+Deno.test("indexer matches a transfer again on the next run when matching it failed", async () => {
+  const supabase = createFakeSupabase();
+  const intent = await quote(supabase, 12);
+
+  const txHash = pay("12");
+  chain.mine(2);
+  // Intents can't be read during one run
+  const from = supabase.client.from.bind(supabase.client);
+  supabase.client.from = ((table: string) => {
+    if (table === "payment_intents") throw new Error("Connection reset");
+    return from(table);
+  }) as typeof supabase.client.from;
+  const [failedRun] = await indexTransfers(supabase.client);
+  supabase.client.from = from;
+
+  assert.equal(failedRun.confirmed, 0);
+  assert.equal(transfers(supabase, txHash)[0].status, "pending");
+  assert.equal((await loadIntent(supabase.client, intent.id)).status, "created");
+
+  const [run] = await indexTransfers(supabase.client);
+  assert.equal(run.matched, 1);
+  const [transfer] = transfers(supabase, txHash);
+  assert.equal(transfer.status, "confirmed");
+  assert.equal(transfer.intent_id, intent.id);
+  assert.equal((await loadIntent(supabase.client, intent.id)).status, "confirmed");
+});
+
+Deno.test("settling doesn't take over a transaction recorded as another payment", async () => {
+  const supabase = createFakeSupabase();
+  const intent = await quote(supabase, 11);
+  const captured = await quote(supabase, 11);
+
+  const payer = ethers.Wallet.createRandom().address;
+  const txHash = chain.send({ from: payer, to: RECIPIENT, value: ethers.parseUnits("11", 6), token: USDC });
+  chain.mine(2);
+  const submitted = await submitIntent(supabase.client, intent, txHash, null);
+  supabase.db.insert("payments", {
+    intent_id: captured.id,
+    tx_hash: txHash.toLowerCase(),
+    chain_id: chain.chainId,
+    token_address: USDC,
+    payer_address: payer.toLowerCase(),
+    recipient_address: RECIPIENT,
+    amount: 11,
+    block_number: chain.head.number - 1,
+    block_hash: chain.blocks[chain.head.number - 1].hash.toLowerCase(),
+  });
+
+  const settled = await settleIntent(supabase.client, submitted);
+  assert.equal(settled.payment, null);
+  assert.equal(settled.intent.status, "failed");
+  assert.equal(settled.reason, "Transaction already used for another payment");
+  assert.deepEqual(supabase.db.rows("payments").map((payment) => payment.intent_id), [captured.id]);
+});
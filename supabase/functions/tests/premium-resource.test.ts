@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+import { ethers } from "npm:ethers@6.15.0";
+import { FakeChain } from "./fake-chain.ts";
+import { createFakeSupabase } from "./fake-supabase.ts";
+
+// The pay-and-retry loop of premium-resource against a local chain: quote,
+// pay, wait for confirmations, unlock, come back with the access token.
+
+const USDC = "0x036cbd53842c5426634e7929541ec2318f3dcf7e";
+const chain = new FakeChain();
+Deno.env.set("ACCEPTED_CHAIN_IDS", String(chain.chainId));
+Deno.env.set("ACCEPTED_TOKENS", "USDC");
+Deno.env.set("RPC_URL_31337", chain.url);
+Deno.env.set("LOCAL_USDC_ADDRESS", USDC);
+Deno.env.set("CHAIN_CONFIRMATIONS", `${chain.chainId}:2`);
+Deno.env.set("ACCESS_TOKEN_SECRET", "test-secret");
+
+const { handleResourceRequest } = await import("../premium-resource/handler.ts");
+const { payerMessage } = await import("../_shared/payers.ts");
+const { findIncomingTransfer, watchIntent } = await import("../_shared/detect.ts");
+const { loadIntent, submitIntent } = await import("../_shared/intents.ts");
+
+const RESOURCE_URL = "http://localhost/premium-resource?id=premium-resource";
+
+function setup() {
+  const supabase = createFakeSupabase();
+  supabase.db.insert("products", {
+    id: "premium-resource",
+    name: "Premium resource",
+    pricing: "fixed",
+    currency: "USDC",
+    price_amount: 1,
+  });
+
+  const request = async (headers: Record<string, string> = {}) => {
+    const response = await handleResourceRequest(
+      supabase.client,
+      new Request(RESOURCE_URL, { headers: { "x-forwarded-for": "203.0.113.7", ...headers } })
+    );
+    return { status: response.status, headers: response.headers, body: await response.json() };
+  };
+  return { supabase, request };
+}
+
+async function proof(wallet: ethers.Signer, nonce: string, txHash: string) {
+  const payerSignature = await wallet.signMessage(payerMessage(nonce));
+  return btoa(JSON.stringify({ nonce, txHash, chainId: chain.chainId, asset: USDC, payerSignature }));
+}
+
+Deno.test("premium-resource unlocks once for a paid, confirmed transfer", async () => {
+  const { supabase, request } = setup();
+  const payer = ethers.Wallet.createRandom();
+
+  const quoted = await request();
+  assert.equal(quoted.status, 402);
+  const [requirement] = quoted.body.accepts;
+  assert.equal(requirement.amount, "1.00");
+  assert.equal((await request()).body.accepts[0].nonce, requirement.nonce, "the client's quote is reused");
+  assert.equal(supabase.db.rows("payment_intents").length, 1);
+
+  const txHash = chain.send({
+    from: payer.address,
+    to: requirement.payTo,
+    value: ethers.parseUnits(requirement.amount, 6),
+    token: USDC,
+  });
+  chain.mine();
+  const paying = { "x-payment": await proof(payer, requirement.nonce, txHash) };
+
+  const pending = await request(paying);
+  assert.equal(pending.status, 402);
+  assert.equal(pending.body.pending, true);
+  assert.equal(pending.body.confirmations, 1);
+  assert.equal(pending.body.requiredConfirmations, 2);
+  assert.equal(pending.body.accepts[0].nonce, requirement.nonce);
+
+  chain.mine();
+  const paid = await request(paying);
+  assert.equal(paid.status, 200);
+  assert.equal(paid.body.content.title, "Premium resource");
+  assert.ok(paid.headers.get("x-payment-response"));
+
+  const replayed = await request(paying);
+  assert.equal(replayed.status, 402);
+  assert.equal(replayed.body.code, "payment_redeemed");
+
+  const returning = await request({ "x-access-token": paid.body.access.token });
+  assert.equal(returning.status, 200);
+  assert.equal(returning.body.content.title, "Premium resource");
+});
+
+Deno.test("premium-resource leaves a payment to its payer when another wallet presents it", async () => {
+  const { request } = setup();
+  const payer = ethers.Wallet.createRandom();
+  const [requirement] = (await request()).body.accepts;
+
+  const txHash = chain.send({
+    from: payer.address,
+    to: requirement.payTo,
+    value: ethers.parseUnits(requirement.amount, 6),
+    token: USDC,
+  });
+  chain.mine(2);
+
+  const stolen = await request({ "x-payment": await proof(ethers.Wallet.createRandom(), requirement.nonce, txHash) });
+  assert.equal(stolen.status, 402);
+  assert.equal(stolen.body.error, "Transfer was not sent from the payer's wallet");
+
+  const paid = await request({ "x-payment": await proof(payer, requirement.nonce, txHash) });
+  assert.equal(paid.status, 200);
+});
+
+Deno.test("premium-resource keeps the user a quote was opened for when another wallet presents its payment", async () => {
+  const { supabase, request } = setup();
+  const { user, token } = supabase.signIn();
+  const [owned] = (await request({ authorization: `Bearer ${token}` })).body.accepts;
+  const [anonymous] = (await request({ "x-forwarded-for": "203.0.113.8" })).body.accepts;
+
+  for (const requirement of [owned, anonymous]) {
+    const txHash = chain.send({
+      from: ethers.Wallet.createRandom().address,
+      to: requirement.payTo,
+      value: ethers.parseUnits(requirement.amount, 6),
+      token: USDC,
+    });
+    chain.mine(2);
+    const stranger = supabase.signIn();
+    const stolen = await request({
+      "x-payment": await proof(ethers.Wallet.createRandom(), requirement.nonce, txHash),
+      authorization: `Bearer ${stranger.token}`,
+    });
+    assert.equal(stolen.body.error, "Transfer was not sent from the payer's wallet");
+  }
+
+  assert.equal((await loadIntent(supabase.client, owned.nonce)).user_id, user.id);
+  assert.equal((await loadIntent(supabase.client, anonymous.nonce)).user_id, null);
+});
+
+Deno.test("premium-resource unlocks a QR-paid quote for the signed-in user it belongs to", async () => {
+  const { supabase, request } = setup();
+  const { user, token } = supabase.signIn();
+  const session = { authorization: `Bearer ${token}` };
+  const [requirement] = (await request(session)).body.accepts;
+  assert.equal((await loadIntent(supabase.client, requirement.nonce)).user_id, user.id);
+
+  // Paid from a phone wallet the user never signed in with, as detect-payment
+  // sees it; transfers from earlier tests are mined before the watch starts
+  chain.mine(3);
+  const watched = await watchIntent(supabase.client, await loadIntent(supabase.client, requirement.nonce));
+  const txHash = chain.send({
+    from: ethers.Wallet.createRandom().address,
+    to: requirement.payTo,
+    value: ethers.parseUnits(requirement.amount, 6),
+    token: USDC,
+  });
+  chain.mine(2);
+  assert.equal(await findIncomingTransfer(supabase.client, watched), txHash.toLowerCase());
+  await submitIntent(supabase.client, watched, txHash, null);
+
+  const unsigned = btoa(JSON.stringify({ nonce: requirement.nonce, txHash, chainId: chain.chainId, asset: USDC }));
+  const stranger = supabase.signIn();
+  const denied = await request({ "x-payment": unsigned, authorization: `Bearer ${stranger.token}` });
+  assert.equal(denied.status, 402);
+  assert.equal(denied.body.error, "Sign in, or sign the payment with the wallet paying it");
+
+  const paid = await request({ "x-payment": unsigned, ...session });
+  assert.equal(paid.status, 200);
+  assert.equal(paid.body.content.title, "Premium resource");
+});
+
+Deno.test("premium-resource answers 404 for unknown resources", async () => {
+  const { supabase } = setup();
+  const response = await handleResourceRequest(
+    supabase.client,
+    new Request("http://localhost/premium-resource?id=missing")
+  );
+  assert.equal(response.status, 404);
+  await response.body?.cancel();
+});
+
+Deno.test("premium-resource answers why nothing can be quoted", async () => {
+  const { supabase, request } = setup();
+  supabase.db.update("products", supabase.db.rows("products")[0], { accepted_tokens: ["DAI"] });
+
+  const response = await request();
+  assert.equal(response.status, 400);
+  assert.equal(response.body.error, "Premium resource can't be paid in this token");
+});
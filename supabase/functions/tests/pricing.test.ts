@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { FakeChain } from "./fake-chain.ts";
+import { createFakeSupabase } from "./fake-supabase.ts";
+
+// Fiat-priced quotes against fixed rates: what the payer is asked for, and
+// how far short of it a payment may land.
+
+const chain = new FakeChain();
+Deno.env.set("ACCEPTED_CHAIN_IDS", String(chain.chainId));
+Deno.env.set("ACCEPTED_TOKENS", "USDC,EURC,ETH");
+Deno.env.set("RPC_URL_31337", chain.url);
+Deno.env.set("RATE_PROVIDER", "static");
+Deno.env.set("STATIC_USD_RATES", "ETH:2500,EUR:1.1,USDC:1");
+Deno.env.set("PRICE_SLIPPAGE_BPS", "50");
+
+const { getToken } = await import("../_shared/chains.ts");
+const { createPricedIntent, minimumBaseUnits, retargetIntent } = await import("../_shared/intents.ts");
+const { PricingError, quotePrice } = await import("../_shared/pricing.ts");
+type PricedAsset = import("../_shared/pricing.ts").PricedAsset;
+
+// Rate provider that answers from `rates` and records what it was asked
+function mockRates(rates: Partial<Record<PricedAsset, number>>) {
+  const asked: PricedAsset[] = [];
+  return {
+    asked,
+    provider: {
+      usdPrice(asset: PricedAsset) {
+        asked.push(asset);
+        const price = asset === "USD" ? 1 : rates[asset];
+        return price ? Promise.resolve(price) : Promise.reject(new PricingError(`No ${asset} rate configured`));
+      },
+    },
+  };
+}
+
+const token = (symbol: string) => getToken(chain.chainId, symbol)!;
+const onChain = (symbol: string) => ({ chainId: chain.chainId, token: symbol });
+
+Deno.test("quotePrice takes a pegged token at par without asking for rates", async () => {
+  const { asked, provider } = mockRates({});
+
+  const quoted = await quotePrice({ amount: 5, currency: "USD" }, token("USDC"), provider);
+  assert.deepEqual(quoted, { amount: "5.00", rate: 1 });
+  assert.deepEqual(asked, []);
+});
+
+Deno.test("quotePrice converts at the provider's rate and rounds up", async () => {
+  const { asked, provider } = mockRates({ ETH: 3000, EUR: 1.08, USDC: 1 });
+
+  const eth = await quotePrice({ amount: 10, currency: "USD" }, token("ETH"), provider);
+  assert.equal(eth.amount, "0.003334");
+  assert.equal(eth.rate, 3000);
+
+  const usdc = await quotePrice({ amount: 10, currency: "EUR" }, token("USDC"), provider);
+  assert.equal(usdc.amount, "10.80");
+  assert.equal(usdc.rate, 1 / 1.08);
+  assert.deepEqual(asked, ["ETH", "USD", "USDC", "EUR"]);
+});
+
+Deno.test("quotePrice refuses to quote without a rate", async () => {
+  const { provider } = mockRates({});
+
+  await assert.rejects(quotePrice({ amount: 10, currency: "USD" }, token("ETH"), provider), PricingError);
+});
+
+Deno.test("a quote in a token pegged to the price must be paid in full", async () => {
+  const { client } = createFakeSupabase();
+
+  const intent = await createPricedIntent(client, { amount: 5, currency: "USD" }, onChain("USDC"));
+  assert.equal(intent.amount, "5.00");
+  assert.equal(intent.slippage_bps, 0);
+  assert.equal(await minimumBaseUnits(intent), 5_000_000n);
+});
+
+Deno.test("a quote converted at a rate may land short by the slippage tolerance", async () => {
+  const { client } = createFakeSupabase();
+
+  const intent = await createPricedIntent(client, { amount: 5, currency: "USD" }, onChain("ETH"));
+  assert.equal(intent.amount, "0.002000");
+  assert.equal(intent.slippage_bps, 50);
+  assert.equal(await minimumBaseUnits(intent), 1_990_000_000_000_000n);
+});
+
+Deno.test("re-pricing an intent sets the tolerance of its new quote", async () => {
+  const { client } = createFakeSupabase();
+
+  const usdc = await createPricedIntent(client, { amount: 11, currency: "EUR" }, onChain("USDC"));
+  assert.equal(usdc.amount, "12.10");
+  assert.equal(usdc.slippage_bps, 50);
+
+  const eurc = await retargetIntent(client, usdc, chain.chainId, "EURC");
+  assert.equal(Number(eurc.amount), 11);
+  assert.equal(eurc.slippage_bps, 0);
+
+  const eth = await retargetIntent(client, eurc, chain.chainId, "ETH");
+  assert.equal(Number(eth.amount), 0.00484);
+  assert.equal(eth.slippage_bps, 50);
+});
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { ethers } from "npm:ethers@6.15.0";
+import { FakeChain } from "./fake-chain.ts";
+import { createFakeSupabase } from "./fake-supabase.ts";
+
+// The charge-subscriptions scheduler against a local chain: which periods it
+// bills, and that a charge is recorded like any other settled payment.
+
+const USDC = "0x036cbd53842c5426634e7929541ec2318f3dcf7e";
+const RECIPIENT = "0x75bb73a75eecc43ffeaa3b48733292437c405f25";
+const spender = ethers.Wallet.createRandom();
+const chain = new FakeChain();
+// The scheduler waits for each charge to be mined
+chain.automine = true;
+Deno.env.set("ACCEPTED_CHAIN_IDS", String(chain.chainId));
+Deno.env.set("ACCEPTED_TOKENS", "USDC");
+Deno.env.set("RPC_URL_31337", chain.url);
+Deno.env.set("LOCAL_USDC_ADDRESS", USDC);
+Deno.env.set("RECIPIENT_ADDRESS", RECIPIENT);
+Deno.env.set("SUBSCRIPTION_SPENDER_PRIVATE_KEY", spender.privateKey);
+
+const { chargeDueSubscriptions } = await import("../_shared/subscriptions.ts");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRICE = ethers.parseUnits("5", 6);
+
+const usdc = new ethers.Contract(
+  USDC,
+  ["function balanceOf(address) view returns (uint256)"],
+  new ethers.JsonRpcProvider(chain.url)
+);
+
+// A daily plan's subscriber whose paid period ended at `periodEnd`, with a
+// permit for `periods` charges
+function subscribe(periodEnd: Date, periods = 12) {
+  const supabase = createFakeSupabase();
+  const { user } = supabase.signIn();
+  const subscriber = ethers.Wallet.createRandom().address.toLowerCase();
+  chain.fund(USDC, subscriber, ethers.parseUnits("100", 6));
+  chain.approve(USDC, subscriber, spender.address, PRICE * BigInt(periods));
+
+  supabase.db.insert("subscription_plans", {
+    id: "daily",
+    name: "Daily",
+    description: "",
+    resource: "premium-resource",
+    billing_interval: "day",
+    interval_count: 1,
+    price_amount: 5,
+    token: "USDC",
+    grace_period_seconds: 60 * 60,
+    active: true,
+  });
+  const subscription = supabase.db.insert("subscriptions", {
+    plan_id: "daily",
+    user_id: user.id,
+    subscriber_address: subscriber,
+    chain_id: chain.chainId,
+    token_address: USDC,
+    spender_address: spender.address.toLowerCase(),
+    current_period_start: new Date(periodEnd.getTime() - DAY_MS).toISOString(),
+    current_period_end: periodEnd.toISOString(),
+    allowance_amount: ethers.formatUnits(PRICE * BigInt(periods), 6),
+  });
+  return { supabase, subscriber, subscription };
+}
+
+Deno.test("scheduler renews a subscription whose period ended and records the charge as a settled payment", async () => {
+  const now = new Date();
+  const ended = new Date(now.getTime() - 60 * 1000);
+  const { supabase, subscriber, subscription } = subscribe(ended);
+
+  const [renewed] = await chargeDueSubscriptions(supabase.client, now);
+  assert.deepEqual(renewed, { id: subscription.id, status: "active", failure_reason: null });
+  const [current] = supabase.db.rows("subscriptions");
+  assert.equal(current.current_period_start, ended.toISOString());
+  assert.equal(current.current_period_end, new Date(ended.getTime() + DAY_MS).toISOString());
+  assert.equal(await usdc.balanceOf(subscriber), ethers.parseUnits("95", 6));
+
+  const [payment] = supabase.db.rows("payments");
+  const [charge] = supabase.db.rows("subscription_charges");
+  assert.equal(charge.status, "succeeded");
+  assert.equal(charge.payment_id, payment.id);
+  assert.equal(payment.block_hash, chain.blocks[payment.block_number].hash.toLowerCase());
+  assert.equal(payment.amount, "5.0");
+
+  const [intent] = supabase.db.rows("payment_intents");
+  assert.equal(payment.intent_id, intent.id);
+  assert.equal(intent.status, "confirmed");
+  assert.equal(intent.tx_hash, payment.tx_hash);
+  assert.equal(intent.payer_address, subscriber);
+  assert.equal(intent.user_id, subscription.user_id);
+
+  const [entitlement] = supabase.db.rows("entitlements");
+  assert.equal(entitlement.payment_id, payment.id);
+  assert.equal(entitlement.resource, "premium-resource");
+
+  assert.deepEqual(await chargeDueSubscriptions(supabase.client, now), [], "the new period isn't due yet");
+});
+
+Deno.test("scheduler charges one period, starting now, for a subscription several periods behind", async () => {
+  const now = new Date();
+  const { supabase, subscriber } = subscribe(new Date(now.getTime() - 3 * DAY_MS));
+
+  await chargeDueSubscriptions(supabase.client, now);
+  assert.deepEqual(await chargeDueSubscriptions(supabase.client, now), []);
+
+  const [current] = supabase.db.rows("subscriptions");
+  assert.equal(current.status, "active");
+  assert.equal(current.current_period_start, now.toISOString());
+  assert.equal(current.current_period_end, new Date(now.getTime() + DAY_MS).toISOString());
+  assert.equal(supabase.db.rows("subscription_charges").length, 1);
+  assert.equal(await usdc.balanceOf(subscriber), ethers.parseUnits("95", 6));
+});
+
+Deno.test("scheduler leaves a subscription past due once its allowance is used up", async () => {
+  const now = new Date();
+  const ended = new Date(now.getTime() - 60 * 1000);
+  const { supabase, subscriber } = subscribe(ended, 0);
+
+  const [result] = await chargeDueSubscriptions(supabase.client, now);
+  assert.equal(result.status, "past_due");
+  assert.equal(result.failure_reason, "Allowance used up; renew the subscription to keep it going");
+
+  const [current] = supabase.db.rows("subscriptions");
+  assert.equal(current.current_period_end, ended.toISOString(), "the unpaid period is retried");
+  assert.equal(supabase.db.rows("subscription_charges")[0].status, "failed");
+  assert.deepEqual(supabase.db.rows("payments"), []);
+  assert.equal(await usdc.balanceOf(subscriber), ethers.parseUnits("100", 6));
+});
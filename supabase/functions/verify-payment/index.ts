@@ -0,0 +1,48 @@
+import { getRequestUser } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { grantEntitlement, issueAccessToken } from "../_shared/entitlements.ts";
+import { IntentError, loadIntent, settleIntent } from "../_shared/intents.ts";
+import { provenPayer } from "../_shared/payers.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Settles an intent and answers with its status for anyone holding its id.
+// What it bought (the entitlement and an access token) only goes to its
+// owner: the signed-in user it belongs to, or the wallet that paid it, by
+// session or by its signature of the intent (see payers.ts).
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { intentId, payerSignature } = await req.json();
+
+    const supabase = createServiceClient();
+    const { intent, payment, reason, pending, confirmations, requiredConfirmations } = await settleIntent(
+      supabase,
+      await loadIntent(supabase, intentId)
+    );
+
+    if (!payment) {
+      return jsonResponse({ verified: false, intent, reason, pending, confirmations, requiredConfirmations });
+    }
+
+    // Payments for a resource grant access to it
+    const entitlement = await grantEntitlement(supabase, intent, payment);
+    const user = await getRequestUser(supabase, req);
+    const owner = (user !== null && intent.user_id === user.id) ||
+      (await provenPayer(supabase, intent.id, user, payerSignature)) === payment.payer_address;
+    if (!owner) {
+      return jsonResponse({ verified: true, intent, payment, confirmations, requiredConfirmations });
+    }
+
+    const access = entitlement ? await issueAccessToken(entitlement) : null;
+    return jsonResponse({ verified: true, intent, payment, entitlement, access, confirmations, requiredConfirmations });
+  } catch (error) {
+    if (error instanceof IntentError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("verify-payment error:", error);
+    return jsonResponse({ error: "Unable to verify payment" }, 500);
+  }
+});
@@ -0,0 +1,24 @@
+-- Payments verified on-chain by the verify-payment edge function.
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tx_hash TEXT NOT NULL UNIQUE,
+  chain_id INTEGER NOT NULL,
+  token_address TEXT NOT NULL,
+  payer_address TEXT NOT NULL,
+  recipient_address TEXT NOT NULL,
+  amount NUMERIC(38, 18) NOT NULL CHECK (amount > 0),
+  block_number BIGINT NOT NULL,
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX payments_payer_address_idx ON public.payments (payer_address);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- On-chain transfers are public anyway; writes only happen through the
+-- service role inside edge functions.
+CREATE POLICY "Payments are viewable by everyone"
+  ON public.payments
+  FOR SELECT
+  USING (true);
@@ -0,0 +1,52 @@
+-- Server-side payment intents: every checkout quotes an amount, token and
+-- recipient up front and then moves through a fixed status lifecycle.
+CREATE TYPE public.payment_intent_status AS ENUM (
+  'created',
+  'submitted',
+  'confirmed',
+  'failed',
+  'expired'
+);
+
+CREATE TABLE public.payment_intents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  amount NUMERIC(38, 18) NOT NULL CHECK (amount > 0),
+  token TEXT NOT NULL,
+  token_address TEXT NOT NULL,
+  chain_id INTEGER NOT NULL,
+  recipient_address TEXT NOT NULL,
+  status public.payment_intent_status NOT NULL DEFAULT 'created',
+  tx_hash TEXT UNIQUE,
+  failure_reason TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX payment_intents_status_idx ON public.payment_intents (status);
+
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_payment_intents_updated_at
+  BEFORE UPDATE ON public.payment_intents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.payment_intents ENABLE ROW LEVEL SECURITY;
+
+-- Intent ids are unguessable and carry no personal data, so the client may
+-- poll them directly. All writes go through edge functions.
+CREATE POLICY "Payment intents are viewable by everyone"
+  ON public.payment_intents
+  FOR SELECT
+  USING (true);
+
+-- Link verified payments back to the intent they settle.
+ALTER TABLE public.payments
+  ADD COLUMN intent_id UUID UNIQUE REFERENCES public.payment_intents (id);
@@ -0,0 +1,4 @@
+-- Which protected resource an intent pays for (NULL for plain checkouts).
+ALTER TABLE public.payment_intents ADD COLUMN resource TEXT;
+
+CREATE INDEX payment_intents_resource_idx ON public.payment_intents (resource);
@@ -0,0 +1,48 @@
+-- EIP-2612 permits signed by payers: the merchant pulls the funds later with
+-- transferFrom, in full or in several partial captures.
+CREATE TYPE public.payment_authorization_status AS ENUM (
+  'authorized',
+  'partially_captured',
+  'captured',
+  'voided',
+  'expired'
+);
+
+CREATE TABLE public.payment_authorizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  intent_id UUID NOT NULL UNIQUE REFERENCES public.payment_intents (id),
+  chain_id INTEGER NOT NULL,
+  token_address TEXT NOT NULL,
+  owner_address TEXT NOT NULL,
+  spender_address TEXT NOT NULL,
+  authorized_amount NUMERIC(38, 18) NOT NULL CHECK (authorized_amount > 0),
+  captured_amount NUMERIC(38, 18) NOT NULL DEFAULT 0 CHECK (captured_amount >= 0),
+  permit_nonce TEXT NOT NULL,
+  permit_deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+  permit_signature TEXT NOT NULL,
+  permit_tx_hash TEXT,
+  status public.payment_authorization_status NOT NULL DEFAULT 'authorized',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (captured_amount <= authorized_amount)
+);
+
+CREATE TABLE public.payment_captures (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  authorization_id UUID NOT NULL REFERENCES public.payment_authorizations (id),
+  amount NUMERIC(38, 18) NOT NULL CHECK (amount > 0),
+  tx_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX payment_captures_authorization_id_idx ON public.payment_captures (authorization_id);
+
+CREATE TRIGGER update_payment_authorizations_updated_at
+  BEFORE UPDATE ON public.payment_authorizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Authorizations hold payer signatures: no client access at all, the
+-- authorize-payment and capture-payment functions use the service role.
+ALTER TABLE public.payment_authorizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_captures ENABLE ROW LEVEL SECURITY;
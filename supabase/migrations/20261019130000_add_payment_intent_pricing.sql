@@ -0,0 +1,12 @@
+-- Fiat pricing for merchant-priced intents: the token amount is converted
+-- from price_amount/price_currency at exchange_rate (fiat per token) and
+-- locked until expires_at. Intents quoted directly in a token leave them NULL.
+ALTER TABLE public.payment_intents
+  ADD COLUMN price_amount NUMERIC(38, 18) CHECK (price_amount > 0),
+  ADD COLUMN price_currency TEXT,
+  ADD COLUMN exchange_rate NUMERIC(38, 18) CHECK (exchange_rate > 0),
+  -- How far below the quoted amount a payment may land when the payer
+  -- switches to another token and the quote is re-priced
+  ADD COLUMN slippage_bps INTEGER NOT NULL DEFAULT 0 CHECK (slippage_bps BETWEEN 0 AND 10000),
+  ADD CONSTRAINT payment_intents_price_check
+    CHECK ((price_amount IS NULL) = (price_currency IS NULL));
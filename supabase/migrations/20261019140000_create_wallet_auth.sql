@@ -0,0 +1,35 @@
+-- Sign-In With Ethereum (EIP-4361). Each sign-in consumes a single-use nonce
+-- issued by siwe-nonce; siwe-verify links the signing address to a Supabase
+-- auth user and starts a session for it.
+CREATE TABLE public.siwe_nonces (
+  nonce TEXT NOT NULL PRIMARY KEY,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX siwe_nonces_expires_at_idx ON public.siwe_nonces (expires_at);
+
+-- Nonces only ever pass through edge functions.
+ALTER TABLE public.siwe_nonces ENABLE ROW LEVEL SECURITY;
+
+-- One auth user per wallet address (lowercased).
+CREATE TABLE public.wallet_accounts (
+  address TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users (id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.wallet_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own wallet"
+  ON public.wallet_accounts
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Intents created while signed in belong to that user; anonymous checkouts
+-- leave it NULL.
+ALTER TABLE public.payment_intents
+  ADD COLUMN user_id UUID REFERENCES auth.users (id) ON DELETE SET NULL;
+
+CREATE INDEX payment_intents_user_id_idx ON public.payment_intents (user_id);
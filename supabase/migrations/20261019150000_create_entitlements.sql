@@ -0,0 +1,24 @@
+-- Access a verified payment buys: the payer's wallet (and user, when signed
+-- in) may use `resource` until expires_at, or for good when it is NULL.
+-- Protected content checks short-lived access tokens issued from these rows.
+CREATE TABLE public.entitlements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resource TEXT NOT NULL,
+  wallet_address TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  payment_id UUID NOT NULL UNIQUE REFERENCES public.payments (id),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX entitlements_resource_wallet_idx ON public.entitlements (resource, wallet_address);
+CREATE INDEX entitlements_user_id_idx ON public.entitlements (user_id);
+
+ALTER TABLE public.entitlements ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users can list what they bought; grants only happen through the
+-- service role inside edge functions.
+CREATE POLICY "Users can view their own entitlements"
+  ON public.entitlements
+  FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,54 @@
+-- Catalog the checkout renders from: what is sold, how it is priced and which
+-- tokens pay for it. Amounts are in `currency`, a fiat currency (USD, EUR)
+-- converted at quote time or the symbol of the one token it is sold in.
+CREATE TABLE public.products (
+  -- Slug used in links, e.g. "premium-resource"; protected resources are
+  -- sold as the product with their id
+  id TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  pricing TEXT NOT NULL CHECK (pricing IN ('fixed', 'pay_what_you_want')),
+  currency TEXT NOT NULL,
+  -- The price of a fixed product, the suggested amount otherwise
+  price_amount NUMERIC(36, 18) NOT NULL CHECK (price_amount > 0),
+  -- Bounds and picker for pay-what-you-want amounts
+  min_amount NUMERIC(36, 18),
+  max_amount NUMERIC(36, 18),
+  amount_step NUMERIC(36, 18) NOT NULL DEFAULT 1 CHECK (amount_step > 0),
+  presets NUMERIC(36, 18)[] NOT NULL DEFAULT '{}',
+  -- NULL accepts every token the merchant accepts
+  accepted_tokens TEXT[],
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+);
+
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+
+-- The catalog is public; it is edited with the service role or the dashboard.
+CREATE POLICY "Anyone can view active products"
+  ON public.products
+  FOR SELECT
+  USING (active);
+
+CREATE TRIGGER update_products_updated_at
+  BEFORE UPDATE ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Intents record the product they were quoted for.
+ALTER TABLE public.payment_intents
+  ADD COLUMN product_id TEXT REFERENCES public.products (id);
+
+INSERT INTO public.products
+  (id, name, description, pricing, currency, price_amount, min_amount, max_amount, amount_step, presets)
+VALUES
+  ('payment', 'Payment', 'Pay in crypto. Select your payment amount below.',
+    'pay_what_you_want', 'USD', 5, 0.25, 1000, 0.25, '{0.25, 1, 2.5, 5, 10, 25, 50, 100}'),
+  ('premium-resource', 'Premium resource', 'Pay in crypto for premium access to the resource.',
+    'fixed', 'USD', 5, NULL, NULL, 1, '{}'),
+  ('market-report', 'Stablecoin market report', 'Monthly stablecoin market report.',
+    'fixed', 'USD', 12, NULL, NULL, 1, '{}'),
+  ('developer-guide', 'Accepting crypto payments', 'Guide to accepting crypto payments.',
+    'fixed', 'EUR', 3, NULL, NULL, 1, '{}');
@@ -0,0 +1,124 @@
+-- Subscription billing. A subscriber signs an EIP-2612 permit letting the
+-- merchant's spender pull several periods' worth of the plan's token; the
+-- charge-subscriptions scheduler then pulls one period at a time with
+-- transferFrom. Each successful charge is recorded as a payment and grants
+-- the plan's resource until the end of the period plus the grace period.
+CREATE TABLE public.subscription_plans (
+  id TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  -- Resource subscribers get an entitlement to (see entitlements)
+  resource TEXT NOT NULL,
+  billing_interval TEXT NOT NULL CHECK (billing_interval IN ('minute', 'hour', 'day', 'week', 'month', 'year')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+  -- Charged per period, in `token` units
+  price_amount NUMERIC(36, 18) NOT NULL CHECK (price_amount > 0),
+  token TEXT NOT NULL DEFAULT 'USDC',
+  -- How long access outlives a period whose renewal failed, while the
+  -- scheduler keeps retrying
+  grace_period_seconds INTEGER NOT NULL DEFAULT 259200 CHECK (grace_period_seconds >= 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.subscription_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active plans"
+  ON public.subscription_plans
+  FOR SELECT
+  USING (active);
+
+CREATE TRIGGER update_subscription_plans_updated_at
+  BEFORE UPDATE ON public.subscription_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- active: paid up; past_due: the last renewal failed and is being retried
+-- within the grace period; canceled: ended by the subscriber; expired: ended
+-- because renewal kept failing past the grace period.
+CREATE TYPE public.subscription_status AS ENUM (
+  'active',
+  'past_due',
+  'canceled',
+  'expired'
+);
+
+CREATE TABLE public.subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  plan_id TEXT NOT NULL REFERENCES public.subscription_plans (id),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  subscriber_address TEXT NOT NULL,
+  chain_id INTEGER NOT NULL,
+  token_address TEXT NOT NULL,
+  spender_address TEXT NOT NULL,
+  status public.subscription_status NOT NULL DEFAULT 'active',
+  current_period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  current_period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Set when the subscriber cancels: no further charges, access runs to the
+  -- end of the paid period
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+  canceled_at TIMESTAMP WITH TIME ZONE,
+  -- Allowance the subscriber's latest permit granted; renewing signs a new one
+  allowance_amount NUMERIC(38, 18) NOT NULL,
+  permit_tx_hash TEXT,
+  failure_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX subscriptions_user_id_idx ON public.subscriptions (user_id);
+-- The scheduler's scan for subscriptions whose period has ended
+CREATE INDEX subscriptions_due_idx ON public.subscriptions (current_period_end)
+  WHERE status IN ('active', 'past_due');
+
+CREATE TRIGGER update_subscriptions_updated_at
+  BEFORE UPDATE ON public.subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own subscriptions"
+  ON public.subscriptions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Every pull attempt, successful or not.
+CREATE TABLE public.subscription_charges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subscription_id UUID NOT NULL REFERENCES public.subscriptions (id) ON DELETE CASCADE,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  amount NUMERIC(38, 18) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed')),
+  payment_id UUID REFERENCES public.payments (id),
+  tx_hash TEXT,
+  failure_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX subscription_charges_subscription_id_idx ON public.subscription_charges (subscription_id);
+
+ALTER TABLE public.subscription_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view charges of their own subscriptions"
+  ON public.subscription_charges
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.subscriptions
+      WHERE subscriptions.id = subscription_charges.subscription_id
+        AND subscriptions.user_id = auth.uid()
+    )
+  );
+
+INSERT INTO public.subscription_plans
+  (id, name, description, resource, billing_interval, interval_count, price_amount, token, grace_period_seconds)
+VALUES
+  ('premium-monthly', 'Premium monthly', 'Premium access to the resource, renewed every month.',
+    'premium-resource', 'month', 1, 5, 'USDC', 259200),
+  -- Renews every few minutes so the scheduler can be exercised against a
+  -- local chain
+  ('dev-minutely', 'Developer plan', 'Renews every 5 minutes; for local testing.',
+    'premium-resource', 'minute', 5, 0.25, 'USDC', 120);
@@ -0,0 +1,9 @@
+-- Intents opened from a payment link (/pay?amount=...&token=...). `memo` is
+-- the merchant's reference, e.g. an invoice number. Signed links record their
+-- signature, which ties the intent to the exact link it was quoted from and
+-- locks its token and recipient.
+ALTER TABLE public.payment_intents
+  ADD COLUMN memo TEXT CHECK (char_length(memo) <= 140),
+  ADD COLUMN link_signature TEXT;
+
+CREATE INDEX payment_intents_link_signature_idx ON public.payment_intents (link_signature);
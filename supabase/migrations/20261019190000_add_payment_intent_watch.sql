@@ -0,0 +1,4 @@
+-- Wallet-less payments (EIP-681 QR codes): the payer's phone wallet sends
+-- the transfer without the checkout seeing its hash, so detect-payment scans
+-- the chain for it from the block the intent started being watched at.
+ALTER TABLE public.payment_intents ADD COLUMN watch_from_block BIGINT;
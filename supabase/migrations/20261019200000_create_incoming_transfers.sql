@@ -0,0 +1,62 @@
+-- Token transfers to the merchant's addresses, indexed from Transfer logs by
+-- the index-transfers watcher, whichever way they were sent: from the
+-- checkout, a scanned QR code, or a wallet the payer used on their own.
+-- pending: mined, not yet INDEXER_CONFIRMATIONS deep; confirmed: deep enough
+-- to be matched to a payment; reorged: its block left the canonical chain.
+CREATE TYPE public.incoming_transfer_status AS ENUM ('pending', 'confirmed', 'reorged');
+
+CREATE TABLE public.incoming_transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  chain_id INTEGER NOT NULL,
+  block_number BIGINT NOT NULL,
+  block_hash TEXT NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  token_address TEXT NOT NULL,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  amount NUMERIC(38, 18) NOT NULL,
+  status public.incoming_transfer_status NOT NULL DEFAULT 'pending',
+  -- What the transfer was accounted as, once confirmed; both stay NULL for
+  -- transfers no open intent matched, left for the merchant to reconcile
+  intent_id UUID REFERENCES public.payment_intents (id),
+  payment_id UUID REFERENCES public.payments (id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- A log re-mined in another block after a reorg is a new row
+  UNIQUE (chain_id, block_hash, log_index)
+);
+
+CREATE INDEX incoming_transfers_pending_idx ON public.incoming_transfers (chain_id, block_number)
+  WHERE status = 'pending';
+CREATE INDEX incoming_transfers_tx_hash_idx ON public.incoming_transfers (tx_hash);
+
+ALTER TABLE public.incoming_transfers ENABLE ROW LEVEL SECURITY;
+
+-- On-chain transfers are public anyway; writes only happen through the
+-- service role inside edge functions.
+CREATE POLICY "Incoming transfers are viewable by everyone"
+  ON public.incoming_transfers
+  FOR SELECT
+  USING (true);
+
+CREATE TRIGGER update_incoming_transfers_updated_at
+  BEFORE UPDATE ON public.incoming_transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Last block indexed per chain. Each run re-reads the last
+-- INDEXER_CONFIRMATIONS blocks before it, so logs re-mined after a reorg are
+-- picked up.
+CREATE TABLE public.transfer_index_cursors (
+  chain_id INTEGER NOT NULL PRIMARY KEY,
+  last_block BIGINT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.transfer_index_cursors ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_transfer_index_cursors_updated_at
+  BEFORE UPDATE ON public.transfer_index_cursors
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
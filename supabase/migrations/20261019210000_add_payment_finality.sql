@@ -0,0 +1,10 @@
+-- Reorg tracking for verified payments. `block_hash` is the block the
+-- payment was confirmed in; while the payment is recent, index-transfers
+-- checks it is still canonical and otherwise sets `reverted_at`, withdraws
+-- the access it granted and moves its intent back to `submitted`.
+ALTER TABLE public.payments
+  ADD COLUMN block_hash TEXT,
+  ADD COLUMN reverted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX payments_recent_idx ON public.payments (chain_id, block_number)
+  WHERE reverted_at IS NULL;
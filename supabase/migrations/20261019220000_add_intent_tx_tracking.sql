@@ -0,0 +1,8 @@
+-- Follows a submitted transaction the payer may speed up or cancel from their
+-- wallet. The sender and nonce are recorded the first time the transaction is
+-- seen; once that nonce is used by another transaction, the intent moves to
+-- it and `replaced_tx_hash` keeps the one first submitted.
+ALTER TABLE public.payment_intents
+  ADD COLUMN payer_address TEXT,
+  ADD COLUMN tx_nonce BIGINT,
+  ADD COLUMN replaced_tx_hash TEXT;
@@ -0,0 +1,27 @@
+-- Intents now carry the payer's user, wallet and the memo of the link they
+-- were opened from, so the anon key may no longer list them: signed-in users
+-- read their own, and a checkout fetches the one it pays by id through the
+-- get-payment-intent function. Payments and indexed transfers would give the
+-- intent ids away, so they follow the same rule.
+DROP POLICY "Payment intents are viewable by everyone" ON public.payment_intents;
+
+CREATE POLICY "Users can view their own payment intents"
+  ON public.payment_intents
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY "Payments are viewable by everyone" ON public.payments;
+
+CREATE POLICY "Users can view payments of their own intents"
+  ON public.payments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.payment_intents
+      WHERE payment_intents.id = payments.intent_id
+        AND payment_intents.user_id = auth.uid()
+    )
+  );
+
+-- Only the merchant reconciles transfers, through the service role.
+DROP POLICY "Incoming transfers are viewable by everyone" ON public.incoming_transfers;
@@ -0,0 +1,7 @@
+-- Paywall quotes are reused per client and resource (see paywall.ts), so
+-- requests that never pay don't each leave an intent behind.
+ALTER TABLE public.payment_intents ADD COLUMN client_key TEXT;
+
+CREATE INDEX payment_intents_open_quotes_idx
+  ON public.payment_intents (resource, client_key)
+  WHERE status = 'created';
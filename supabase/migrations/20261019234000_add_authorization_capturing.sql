@@ -0,0 +1,3 @@
+-- An authorization is `capturing` while capture-payment pulls its funds, so
+-- a second capture or a void can't run alongside it.
+ALTER TYPE public.payment_authorization_status ADD VALUE 'capturing' AFTER 'partially_captured';
@@ -0,0 +1,4 @@
+-- Anonymous intents are claimed by the signed-in user submitting them (see
+-- intents.ts); the claim is undone if the submission turns out not to be
+-- theirs, which must leave an owner recorded at creation alone.
+ALTER TABLE public.payment_intents ADD COLUMN claimed_at TIMESTAMPTZ;